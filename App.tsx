@@ -1,84 +1,336 @@
-import React, { useState, useCallback } from 'react';
-import { AgentStatus, Curriculum, UserPreferences, Topic } from './types';
+import React, { useState, useCallback, useRef, useEffect } from 'react';
+import { AgentStatus, Curriculum, UserPreferences, SavedCurriculum, CurriculumProgress } from './types';
 import InputForm from './components/InputForm';
 import AgentProgress from './components/AgentProgress';
 import CurriculumView from './components/CurriculumView';
-import { runPlannerAgent, runCuratorAgent } from './services/geminiService';
-import { GraduationCap } from 'lucide-react';
+import LibraryView from './components/LibraryView';
+import ImportDialog from './components/ImportDialog';
+import SyllabusEditor from './components/SyllabusEditor';
+import ReviewView from './components/ReviewView';
+import ErrorNotice from './components/ErrorNotice';
+import TracePanel from './components/TracePanel';
+import { runPlannerAgent } from './services/geminiService';
+import { curateTopics, getUncuratedTopics } from './services/curationScheduler';
+import { buildCuratorContext } from './services/topicCuration';
+import { createGenerationController, GenerationController } from './services/generationControl';
+import {
+  listCurricula,
+  saveCurriculum,
+  renameCurriculum,
+  duplicateCurriculum,
+  deleteCurriculum,
+  updateProgressSnapshot,
+  getSavedCurriculum
+} from './services/libraryService';
+import { deleteProgress, saveProgress } from './services/progressService';
+import { deleteCurriculumFlashcards, getDueFlashcards } from './services/flashcardService';
+import { getSharePayload, decodeSharePayload, clearShareFragment } from './services/shareService';
+import { isCancellation, describeError, ErrorAdvice } from './services/errors';
+import { GraduationCap, Library, Upload, Layers, Eye, Save, X } from 'lucide-react';
+
+// What a failed run was doing, so the error notice can repeat it: plan from scratch, or resume curation
+type FailedRun = { prefs: UserPreferences } | { curriculumId: string };
 
 const App: React.FC = () => {
   const [status, setStatus] = useState<AgentStatus>({ stage: 'idle', message: '', progress: 0 });
   const [curriculum, setCurriculum] = useState<Curriculum | null>(null);
+  const [showLibrary, setShowLibrary] = useState(false);
+  const [library, setLibrary] = useState<SavedCurriculum[]>(() => listCurricula());
+  const [showImport, setShowImport] = useState(false);
+  // Daily flashcard review across the whole library
+  const [showReview, setShowReview] = useState(false);
+  const [dueCards, setDueCards] = useState(() => getDueFlashcards().length);
+
+  // A curriculum opened from a share link; shown read-only until saved or closed
+  const [shared, setShared] = useState<{ curriculum: Curriculum; progress?: CurriculumProgress } | null>(null);
+  const [shareError, setShareError] = useState<string | null>(null);
+  // Cause of the last failed generation and how to retry it
+  const [failure, setFailure] = useState<{ advice: ErrorAdvice; goal: string; run: FailedRun } | null>(null);
+
+  const refreshLibrary = useCallback(() => setLibrary(listCurricula()), []);
+
+  // Share links live in the URL fragment; also pick up links pasted into an open tab
+  useEffect(() => {
+    const openShareLink = async () => {
+      const payload = getSharePayload();
+      if (!payload) return;
+      const result = await decodeSharePayload(payload);
+      if ('curriculum' in result) {
+        setShareError(null);
+        setShared({ curriculum: result.curriculum, progress: result.progress });
+        setShowLibrary(false);
+        setShowReview(false);
+      } else {
+        setShared(null);
+        setShareError(result.errors[0]?.message || 'This share link could not be opened.');
+      }
+    };
+    // Decoding goes through the import validation, but never let a bad link become an unhandled rejection
+    const handleShareLink = () => {
+      openShareLink().catch(e => {
+        console.error("Failed to open share link:", e);
+        setShared(null);
+        setShareError('This share link could not be opened.');
+      });
+    };
+    handleShareLink();
+    window.addEventListener('hashchange', handleShareLink);
+    return () => window.removeEventListener('hashchange', handleShareLink);
+  }, []);
+
+  const controllerRef = useRef<GenerationController | null>(null);
+  // Cache bypass chosen on the form, carried over the syllabus review step
+  const bypassCacheRef = useRef(false);
+
+  // Curate every topic of `plan` that still lacks curatedContent, saving after each result
+  // so that closing the tab mid-run loses at most the topics in flight.
+  const runCuration = useCallback(async (plan: Curriculum, control: GenerationController, bypassCache = false) => {
+    setStatus({ 
+      stage: 'curating', 
+      message: 'Curator Agent is finding resources...', 
+      progress: 0 
+    });
+
+    const pending = getUncuratedTopics(plan);
+    const enrichedModules = plan.modules.map(mod => ({ ...mod, topics: [...mod.topics] }));
+    const snapshot = (): Curriculum => ({ ...plan, modules: enrichedModules.map(mod => ({ ...mod, topics: [...mod.topics] })) });
+
+    await curateTopics(
+      pending.map(({ topic, moduleIndex }) => ({
+        topicTitle: topic.title,
+        context: buildCuratorContext(plan, moduleIndex),
+        skillLevel: plan.skillLevel,
+        sources: plan.sources,
+        profile: plan.profile
+      })),
+      {
+        onResult: (index, curatedContent) => {
+          const { topic, moduleIndex, topicIndex } = pending[index];
+          enrichedModules[moduleIndex].topics[topicIndex] = { ...topic, curatedContent };
+          // Update UI incrementally so user sees progress, and persist the partial result
+          const updated = snapshot();
+          setCurriculum(updated);
+          saveCurriculum(updated);
+        },
+        onProgress: (completed, total, inFlight, cacheHits) => {
+          const nextModule = pending[Math.min(completed, total - 1)]?.moduleIndex ?? 0;
+          const paused = control.isPaused();
+          setStatus({
+            stage: 'curating',
+            message: paused ? 'Paused. Topics already in progress will finish.' : `Curating resources for Module ${nextModule + 1}...`,
+            progress: Math.round((completed / total) * 100),
+            currentTask: inFlight.length > 0 ? inFlight.join(', ') : undefined,
+            paused,
+            cacheHits
+          });
+        }
+      },
+      { control, bypassCache }
+    );
+
+    // Complete - persist to the library so a refresh doesn't lose it
+    saveCurriculum(snapshot());
+    refreshLibrary();
+    setStatus({ stage: 'complete', message: 'Curriculum ready!', progress: 100 });
+  }, [refreshLibrary]);
+
+  const handleGenerationError = useCallback((error: unknown, run: FailedRun, goal: string) => {
+    const hasPlan = 'curriculumId' in run;
+    if (isCancellation(error)) {
+      // Keep whatever was curated; the syllabus view offers to resume later
+      refreshLibrary();
+      setStatus(hasPlan
+        ? { stage: 'complete', message: 'Curation cancelled.', progress: 100 }
+        : { stage: 'idle', message: '', progress: 0 });
+      if (!hasPlan) setCurriculum(null);
+      return;
+    }
+    console.error(error);
+    // Any partial curriculum is already in the library; clear it so the form and error show
+    refreshLibrary();
+    setCurriculum(null);
+    const advice = describeError(error);
+    if (hasPlan) {
+      advice.message += ' Topics curated so far are saved in your library; retrying picks up where curation stopped.';
+    }
+    setFailure({ advice, goal, run });
+    setStatus({ stage: 'error', message: advice.message, progress: 0 });
+  }, [refreshLibrary]);
 
   const startGeneration = useCallback(async (prefs: UserPreferences) => {
+    const control = createGenerationController();
+    controllerRef.current = control;
+    let plan: Curriculum | null = null;
+    bypassCacheRef.current = !!prefs.bypassCache;
+    setFailure(null);
+
     try {
       // 1. Planner Agent Stage
       setStatus({ stage: 'planning', message: 'Planner Agent is designing the syllabus...', progress: 0 });
       
-      const plan = await runPlannerAgent(prefs);
+      plan = await runPlannerAgent(prefs, { signal: control.signal });
       setCurriculum(plan); // Save intermediate state (syllabus without resources)
+      saveCurriculum(plan);
+      refreshLibrary();
 
-      // 2. Curator Agent Stage (Sequential Processing)
-      setStatus({ 
-        stage: 'curating', 
-        message: 'Curator Agent is finding resources...', 
-        progress: 0 
-      });
+      // Optional review: hand the plan to the editor; curation starts from approveSyllabus
+      if (prefs.reviewSyllabus) {
+        setStatus({ stage: 'reviewing', message: 'Review the syllabus before curation.', progress: 0 });
+        return;
+      }
 
-      // Flatten topics to iterate easily
-      const allTopics: { topic: Topic, moduleIndex: number, topicIndex: number }[] = [];
-      plan.modules.forEach((mod, mIdx) => {
-        mod.topics.forEach((top, tIdx) => {
-          allTopics.push({ topic: top, moduleIndex: mIdx, topicIndex: tIdx });
-        });
-      });
+      // 2. Curator Agent Stage (Concurrent, rate-limited processing)
+      await runCuration(plan, control, prefs.bypassCache);
+
+    } catch (error) {
+      handleGenerationError(error, plan ? { curriculumId: plan.id } : { prefs }, prefs.goal);
+    } finally {
+      controllerRef.current = null;
+    }
+  }, [refreshLibrary, runCuration, handleGenerationError]);
 
-      const totalTopics = allTopics.length;
-      const enrichedModules = [...plan.modules];
+  const resumeCuration = useCallback(async (target: Curriculum, bypassCache = false) => {
+    const control = createGenerationController();
+    controllerRef.current = control;
+    setShowLibrary(false);
+    setCurriculum(target);
+    setFailure(null);
 
-      // Sequential Loop to simulate agent workflow and avoid rate limits
-      for (let i = 0; i < totalTopics; i++) {
-        const { topic, moduleIndex, topicIndex } = allTopics[i];
-        
-        // Add throttling to respect rate limits (e.g. 15 RPM = ~1 request every 4 seconds)
-        // This prevents the "429 RESOURCE_EXHAUSTED" error
-        if (i > 0) {
-           await new Promise(resolve => setTimeout(resolve, 6000));
-        }
+    try {
+      await runCuration(target, control, bypassCache);
+    } catch (error) {
+      handleGenerationError(error, { curriculumId: target.id }, target.goal || target.title);
+    } finally {
+      controllerRef.current = null;
+    }
+  }, [runCuration, handleGenerationError]);
 
-        setStatus({
-          stage: 'curating',
-          message: `Curating resources for Module ${moduleIndex + 1}...`,
-          progress: Math.round((i / totalTopics) * 100),
-          currentTask: topic.title
-        });
-
-        // Call Curator Service
-        const context = `Course Goal: ${prefs.goal}. Module: ${enrichedModules[moduleIndex].title}`;
-        const curatedContent = await runCuratorAgent(topic.title, context);
-
-        // Update In-Memory State securely
-        enrichedModules[moduleIndex].topics[topicIndex] = {
-          ...topic,
-          curatedContent
-        };
-        
-        // Update UI incrementally so user sees progress
-        setCurriculum({ ...plan, modules: [...enrichedModules] });
-      }
+  const retryFailedRun = () => {
+    if (!failure) return;
+    const { run } = failure;
+    if ('prefs' in run) {
+      startGeneration(run.prefs);
+      return;
+    }
+    // Resume from the saved copy, which holds every topic curated before the failure
+    const saved = getSavedCurriculum(run.curriculumId);
+    if (saved) resumeCuration(saved.curriculum, bypassCacheRef.current);
+  };
 
-      // 3. Complete
-      setStatus({ stage: 'complete', message: 'Curriculum ready!', progress: 100 });
+  const editFailedGoal = () => {
+    const field = document.getElementById('goal') as HTMLTextAreaElement | null;
+    field?.focus();
+    field?.select();
+  };
 
-    } catch (error) {
-      console.error(error);
-      setStatus({ 
-        stage: 'error', 
-        message: 'An error occurred while generating the curriculum. Please check your API key or try again.', 
-        progress: 0 
-      });
+  const approveSyllabus = (edited: Curriculum) => {
+    saveCurriculum(edited);
+    refreshLibrary();
+    resumeCuration(edited, bypassCacheRef.current);
+  };
+
+  // The unapproved plan stays in the library, where it can be opened and curated later
+  const cancelReview = () => {
+    setCurriculum(null);
+    setStatus({ stage: 'idle', message: '', progress: 0 });
+    refreshLibrary();
+  };
+
+  const pauseGeneration = () => {
+    controllerRef.current?.pause();
+    setStatus(prev => ({ ...prev, paused: true, message: 'Paused. Topics already in progress will finish.' }));
+  };
+
+  const resumeGeneration = () => {
+    controllerRef.current?.resume();
+    setStatus(prev => ({ ...prev, paused: false, message: 'Curator Agent is finding resources...' }));
+  };
+
+  const cancelGeneration = () => {
+    controllerRef.current?.cancel();
+  };
+
+  const openSaved = (entry: SavedCurriculum) => {
+    setCurriculum(entry.curriculum);
+    setStatus({ stage: 'complete', message: 'Curriculum ready!', progress: 100 });
+    setShowLibrary(false);
+  };
+
+  const handleRename = (id: string, title: string) => {
+    renameCurriculum(id, title);
+    if (curriculum?.id === id) {
+      setCurriculum({ ...curriculum, title });
     }
-  }, []);
+    refreshLibrary();
+  };
+
+  const handleDuplicate = (id: string) => {
+    duplicateCurriculum(id);
+    refreshLibrary();
+  };
+
+  const handleDelete = (id: string) => {
+    deleteCurriculum(id);
+    deleteProgress(id);
+    deleteCurriculumFlashcards(id);
+    setDueCards(getDueFlashcards().length);
+    if (curriculum?.id === id) {
+      setCurriculum(null);
+      setStatus({ stage: 'idle', message: '', progress: 0 });
+    }
+    refreshLibrary();
+  };
+
+  const handleImport = (imported: Curriculum, progress?: CurriculumProgress) => {
+    // Never overwrite an existing library entry; an id clash becomes a separate copy
+    const target = getSavedCurriculum(imported.id) ? { ...imported, id: crypto.randomUUID() } : imported;
+    if (progress) {
+      saveProgress({ ...progress, curriculumId: target.id });
+    }
+    const saved = saveCurriculum(target);
+    refreshLibrary();
+    setShowImport(false);
+    openSaved(saved);
+  };
+
+  const closeShared = () => {
+    setShared(null);
+    setShareError(null);
+    clearShareFragment();
+  };
+
+  const saveShared = () => {
+    if (!shared) return;
+    handleImport(shared.curriculum, shared.progress);
+    closeShared();
+  };
+
+  // Edits made inside CurriculumView (schedule, resources, ...) are saved straight to the library
+  const handleCurriculumChange = useCallback((updated: Curriculum) => {
+    setCurriculum(updated);
+    saveCurriculum(updated);
+    refreshLibrary();
+  }, [refreshLibrary]);
+
+  // Accepted refinements keep progress (topic ids are stable); only new or changed topics are curated again
+  const handleRefine = useCallback((updated: Curriculum) => {
+    if (getUncuratedTopics(updated).length > 0) {
+      saveCurriculum(updated);
+      refreshLibrary();
+      resumeCuration(updated);
+    } else {
+      handleCurriculumChange(updated);
+    }
+  }, [refreshLibrary, resumeCuration, handleCurriculumChange]);
+
+  const handleProgressChange = useCallback((percentage: number) => {
+    if (curriculum) {
+      updateProgressSnapshot(curriculum.id, percentage);
+    }
+  }, [curriculum]);
+
+  // The syllabus editor keeps unsaved edits, so the library stays closed while reviewing too
+  const isGenerating = status.stage === 'planning' || status.stage === 'reviewing' || status.stage === 'curating';
 
   return (
     <div className="min-h-screen flex flex-col bg-transparent">
@@ -91,17 +343,127 @@ const App: React.FC = () => {
             </div>
             <span className="font-bold text-xl text-slate-800 tracking-tight">SkillScout.ai</span>
           </div>
-          <div className="text-sm text-slate-600 font-medium hidden sm:block">
-            Powered by Gemini Multi-Agent System
+          <div className="flex items-center gap-4">
+            <div className="text-sm text-slate-600 font-medium hidden sm:block">
+              Powered by Gemini Multi-Agent System
+            </div>
+            <button
+              onClick={() => {
+                refreshLibrary();
+                setDueCards(getDueFlashcards().length);
+                setShowLibrary(false);
+                setShowReview(!showReview);
+              }}
+              disabled={isGenerating}
+              className={`flex items-center gap-2 px-3 py-2 rounded-lg font-medium text-sm transition-all border shadow-sm disabled:opacity-50 disabled:cursor-not-allowed ${
+                showReview
+                  ? 'bg-teal-400 text-white border-teal-400'
+                  : 'bg-white/50 hover:bg-white/80 text-teal-600 border-white/40'
+              }`}
+            >
+              <Layers className="w-4 h-4" />
+              Review
+              {dueCards > 0 && <span className="text-xs opacity-80">({dueCards} due)</span>}
+            </button>
+            <button
+              onClick={() => {
+                refreshLibrary();
+                setShowReview(false);
+                setShowLibrary(!showLibrary);
+              }}
+              disabled={isGenerating}
+              className={`flex items-center gap-2 px-3 py-2 rounded-lg font-medium text-sm transition-all border shadow-sm disabled:opacity-50 disabled:cursor-not-allowed ${
+                showLibrary
+                  ? 'bg-teal-400 text-white border-teal-400'
+                  : 'bg-white/50 hover:bg-white/80 text-teal-600 border-white/40'
+              }`}
+            >
+              <Library className="w-4 h-4" />
+              My Library
+              <span className="text-xs opacity-80">({library.length})</span>
+            </button>
           </div>
         </div>
       </header>
 
       {/* Main Content */}
       <main className="flex-1 max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-12 w-full">
+
+        {/* Library overlays every other state except a running generation */}
+        {showLibrary && !isGenerating && (
+          <div className="animate-fade-in-up">
+            <div className="flex justify-between items-center mb-8 max-w-4xl mx-auto">
+              <h2 className="text-2xl font-bold text-slate-900 drop-shadow-sm">My Library</h2>
+              <button
+                onClick={() => setShowImport(true)}
+                className="flex items-center gap-2 bg-white/50 hover:bg-white/80 backdrop-blur-sm text-teal-600 hover:text-teal-800 px-4 py-2 rounded-lg font-medium text-sm transition-all border border-white/40 shadow-sm"
+              >
+                <Upload className="w-4 h-4" />
+                Import JSON
+              </button>
+            </div>
+            <LibraryView
+              entries={library}
+              onOpen={openSaved}
+              onRename={handleRename}
+              onDuplicate={handleDuplicate}
+              onDelete={handleDelete}
+            />
+          </div>
+        )}
         
+        {shareError && (
+          <div className="mb-8 max-w-4xl mx-auto p-4 bg-red-50/90 backdrop-blur-sm text-red-700 border border-red-200 rounded-xl shadow-sm flex items-start gap-3">
+            <p className="flex-1 text-sm">{shareError}</p>
+            <button onClick={closeShared} className="text-red-400 hover:text-red-600" aria-label="Dismiss">
+              <X className="w-4 h-4" />
+            </button>
+          </div>
+        )}
+
+        {/* Shared link: read-only until saved to the library */}
+        {shared && !showLibrary && !showReview && !isGenerating && (
+          <div className="animate-fade-in-up">
+            <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-4 mb-8">
+              <div>
+                <h2 className="text-2xl font-bold text-slate-900 drop-shadow-sm">Shared Curriculum</h2>
+                <p className="text-sm text-slate-600 font-medium flex items-center gap-1 mt-1">
+                  <Eye className="w-4 h-4" /> Read-only. Save it to your library to track your own progress.
+                </p>
+              </div>
+              <div className="flex items-center gap-2">
+                <button
+                  onClick={closeShared}
+                  className="bg-white/50 hover:bg-white/80 backdrop-blur-sm text-teal-600 hover:text-teal-800 px-4 py-2 rounded-lg font-medium text-sm transition-all border border-white/40 shadow-sm"
+                >
+                  Close
+                </button>
+                <button
+                  onClick={saveShared}
+                  className="flex items-center gap-2 bg-teal-400 hover:bg-teal-500 text-white px-4 py-2 rounded-lg font-medium text-sm shadow-sm transition-all"
+                >
+                  <Save className="w-4 h-4" />
+                  Save to my library
+                </button>
+              </div>
+            </div>
+            <CurriculumView
+              key={`shared-${shared.curriculum.id}`}
+              curriculum={shared.curriculum}
+              readOnly
+              sharedProgress={shared.progress}
+            />
+          </div>
+        )}
+
+        {showReview && !isGenerating && (
+          <div className="animate-fade-in-up">
+            <ReviewView entries={library} onCardsChange={() => setDueCards(getDueFlashcards().length)} />
+          </div>
+        )}
+
         {/* State: Idle or Error -> Show Form */}
-        {(status.stage === 'idle' || status.stage === 'error') && !curriculum && (
+        {!showLibrary && !showReview && !shared && (status.stage === 'idle' || status.stage === 'error') && !curriculum && (
           <div className="flex flex-col items-center justify-center min-h-[60vh]">
             <div className="text-center mb-10 max-w-2xl">
               <h1 className="text-4xl sm:text-5xl font-extrabold text-slate-900 mb-6 leading-tight drop-shadow-sm">
@@ -114,24 +476,52 @@ const App: React.FC = () => {
             <InputForm 
               onSubmit={startGeneration} 
               isSubmitting={false} 
+              initialGoal={status.stage === 'error' ? failure?.goal : undefined}
             />
-            {status.stage === 'error' && (
+            <button
+              onClick={() => setShowImport(true)}
+              className="mt-4 flex items-center gap-1 text-sm text-teal-600 hover:text-teal-800 font-medium"
+            >
+              <Upload className="w-4 h-4" />
+              Or import an existing curriculum
+            </button>
+            {status.stage === 'error' && (failure ? (
+               <ErrorNotice advice={failure.advice} onRetry={retryFailedRun} onEditGoal={editFailedGoal} />
+            ) : (
                <div className="mt-6 p-4 bg-red-50/90 backdrop-blur-sm text-red-700 border border-red-200 rounded-xl max-w-2xl w-full shadow-sm">
                  {status.message}
                </div>
-            )}
+            ))}
+          </div>
+        )}
+
+        {/* State: Reviewing -> Show Syllabus Editor */}
+        {!showLibrary && !showReview && status.stage === 'reviewing' && curriculum && (
+          <div className="animate-fade-in-up">
+            <SyllabusEditor
+              key={curriculum.id}
+              initialCurriculum={curriculum}
+              onApprove={approveSyllabus}
+              onCancel={cancelReview}
+            />
           </div>
         )}
 
         {/* State: Planning or Curating -> Show Progress */}
         {(status.stage === 'planning' || status.stage === 'curating') && (
           <div className="flex flex-col items-center justify-center min-h-[60vh]">
-             <AgentProgress status={status} />
+             <AgentProgress
+               status={status}
+               onPause={pauseGeneration}
+               onResume={resumeGeneration}
+               onCancel={cancelGeneration}
+             />
+             <TracePanel />
           </div>
         )}
 
         {/* State: Complete */}
-        {status.stage === 'complete' && curriculum && (
+        {!showLibrary && !showReview && !shared && status.stage === 'complete' && curriculum && (
           <div className="animate-fade-in-up">
             <div className="flex justify-between items-center mb-8">
               <h2 className="text-2xl font-bold text-slate-900 drop-shadow-sm">Your Personal Curriculum</h2>
@@ -145,10 +535,24 @@ const App: React.FC = () => {
                 Create New +
               </button>
             </div>
-            <CurriculumView curriculum={curriculum} />
+            <CurriculumView
+              key={curriculum.id}
+              curriculum={curriculum}
+              onProgressChange={handleProgressChange}
+              onCurriculumChange={handleCurriculumChange}
+              onResumeCuration={() => resumeCuration(curriculum)}
+              onRefine={handleRefine}
+            />
+            <div className="mt-8">
+              <TracePanel />
+            </div>
           </div>
         )}
       </main>
+
+      {showImport && (
+        <ImportDialog onImport={handleImport} onClose={() => setShowImport(false)} />
+      )}
     </div>
   );
 };
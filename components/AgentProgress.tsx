@@ -1,25 +1,53 @@
 import React from 'react';
 import { AgentStatus } from '../types';
-import { Bot, Search, BrainCircuit, CheckCircle2, Loader2 } from 'lucide-react';
+import { Bot, Search, BrainCircuit, CheckCircle2, Loader2, Pause, Play, Square, DatabaseZap } from 'lucide-react';
 
 interface AgentProgressProps {
   status: AgentStatus;
+  onPause?: () => void;
+  onResume?: () => void;
+  onCancel?: () => void;
 }
 
-const AgentProgress: React.FC<AgentProgressProps> = ({ status }) => {
+const AgentProgress: React.FC<AgentProgressProps> = ({ status, onPause, onResume, onCancel }) => {
   if (status.stage === 'idle') return null;
 
   const isPlanning = status.stage === 'planning';
   const isCurating = status.stage === 'curating';
   const isComplete = status.stage === 'complete';
+  const isPaused = isCurating && !!status.paused;
 
   return (
     <div className="w-full max-w-2xl mx-auto my-8 space-y-6">
       <div className="bg-white/70 backdrop-blur-xl p-6 rounded-2xl shadow-xl border border-white/60 ring-1 ring-white/60">
-        <h3 className="text-lg font-bold text-slate-800 mb-4 flex items-center gap-2">
-          <Bot className="w-5 h-5 text-cyan-500" />
-          Multi-Agent System Status
-        </h3>
+        <div className="flex items-center justify-between mb-4">
+          <h3 className="text-lg font-bold text-slate-800 flex items-center gap-2">
+            <Bot className="w-5 h-5 text-cyan-500" />
+            Multi-Agent System Status
+          </h3>
+          {(isPlanning || isCurating) && (
+            <div className="flex items-center gap-2">
+              {isCurating && (isPaused ? (
+                onResume && (
+                  <button onClick={onResume} className="flex items-center gap-1 text-xs font-semibold px-3 py-1.5 rounded-full border bg-white border-slate-200 text-teal-600 hover:border-teal-300 transition-all">
+                    <Play className="w-3 h-3" /> Resume
+                  </button>
+                )
+              ) : (
+                onPause && (
+                  <button onClick={onPause} className="flex items-center gap-1 text-xs font-semibold px-3 py-1.5 rounded-full border bg-white border-slate-200 text-amber-600 hover:border-amber-300 transition-all">
+                    <Pause className="w-3 h-3" /> Pause
+                  </button>
+                )
+              ))}
+              {onCancel && (
+                <button onClick={onCancel} className="flex items-center gap-1 text-xs font-semibold px-3 py-1.5 rounded-full border bg-white border-slate-200 text-red-500 hover:border-red-300 transition-all">
+                  <Square className="w-3 h-3" /> Cancel
+                </button>
+              )}
+            </div>
+          )}
+        </div>
         
         <div className="relative">
           {/* Connecting Line */}
@@ -56,7 +84,8 @@ const AgentProgress: React.FC<AgentProgressProps> = ({ status }) => {
               <div>
                 <h4 className={`font-bold ${isCurating ? 'text-amber-600' : 'text-slate-900'}`}>Curator Agent</h4>
                 <p className="text-sm text-slate-600 font-medium">
-                  {isCurating ? "Searching reliable resources for each topic..." : 
+                  {isPaused ? status.message :
+                   isCurating ? "Searching reliable resources for each topic..." : 
                    isComplete ? "All resources vetted and collected." : "Waiting for planner..."}
                 </p>
               </div>
@@ -65,17 +94,23 @@ const AgentProgress: React.FC<AgentProgressProps> = ({ status }) => {
               {isCurating && (
                 <div className="w-full bg-slate-200/60 rounded-full h-2 overflow-hidden">
                   <div 
-                    className="bg-amber-400 h-2 rounded-full transition-all duration-500 ease-out shadow-[0_0_10px_rgba(251,191,36,0.4)]"
+                    className={`${isPaused ? 'bg-slate-300' : 'bg-amber-400'} h-2 rounded-full transition-all duration-500 ease-out shadow-[0_0_10px_rgba(251,191,36,0.4)]`}
                     style={{ width: `${status.progress}%` }}
                   />
                 </div>
               )}
-              {isCurating && status.currentTask && (
+              {isCurating && !isPaused && status.currentTask && (
                 <p className="text-xs text-amber-600 font-bold font-mono flex items-center gap-1">
                   <Loader2 className="w-3 h-3 animate-spin" />
                   Processing: {status.currentTask}
                 </p>
               )}
+              {isCurating && !!status.cacheHits && (
+                <p className="text-xs text-emerald-600 font-semibold flex items-center gap-1" title="Results reused from earlier curricula; older ones are refreshed in the background">
+                  <DatabaseZap className="w-3 h-3" />
+                  {status.cacheHits} {status.cacheHits === 1 ? 'topic' : 'topics'} served from cache
+                </p>
+              )}
             </div>
           </div>
         </div>
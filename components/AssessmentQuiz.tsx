@@ -0,0 +1,152 @@
+import React, { useState, useEffect } from 'react';
+import { AssessmentAnswer, AssessmentQuestion, AssessmentResult } from '../types';
+import { runAssessmentAgent } from '../services/geminiService';
+import { pickNextQuestion, scoreAssessment, QUIZ_LENGTH } from '../services/assessment';
+import { isCancellation } from '../services/errors';
+import { GraduationCap, X, Loader2, Check, RotateCcw } from 'lucide-react';
+
+interface AssessmentQuizProps {
+  goal: string;
+  language?: string;
+  onComplete: (result: AssessmentResult) => void;
+  onClose: () => void;
+}
+
+// Placement quiz shown over the input form. Answers are not revealed during the quiz,
+// so earlier questions don't give away later ones.
+const AssessmentQuiz: React.FC<AssessmentQuizProps> = ({ goal, language, onComplete, onClose }) => {
+  const [questions, setQuestions] = useState<AssessmentQuestion[] | null>(null);
+  const [answers, setAnswers] = useState<AssessmentAnswer[]>([]);
+  const [error, setError] = useState<string | null>(null);
+  const [attempt, setAttempt] = useState(0);
+
+  useEffect(() => {
+    const controller = new AbortController();
+    setQuestions(null);
+    setAnswers([]);
+    setError(null);
+    runAssessmentAgent(goal, { signal: controller.signal, language })
+      .then(setQuestions)
+      .catch(err => {
+        if (isCancellation(err)) return;
+        console.error(err);
+        setError("Couldn't create a placement quiz for this goal. Please try again.");
+      });
+    return () => controller.abort();
+  }, [goal, language, attempt]);
+
+  const current = questions ? pickNextQuestion(questions, answers) : undefined;
+  const result = questions && !current ? scoreAssessment(goal, questions, answers) : null;
+
+  const answer = (choice: number | null) => {
+    if (!current) return;
+    setAnswers(prev => [...prev, { questionId: current.id, choice }]);
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-slate-900/30 backdrop-blur-sm p-4">
+      <div className="w-full max-w-xl bg-white/95 backdrop-blur-xl rounded-2xl shadow-xl border border-white/60 overflow-hidden">
+        <div className="flex items-center justify-between p-6 border-b border-slate-200/60">
+          <h2 className="text-xl font-bold text-slate-800 flex items-center gap-2">
+            <GraduationCap className="w-5 h-5 text-cyan-500" />
+            Placement Quiz
+          </h2>
+          <button onClick={onClose} className="p-1.5 text-slate-400 hover:bg-slate-100 rounded-lg" aria-label="Close">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="p-6 space-y-4">
+          {error ? (
+            <div className="space-y-3">
+              <p className="text-sm text-red-600 font-medium">{error}</p>
+              <button
+                onClick={() => setAttempt(a => a + 1)}
+                className="flex items-center gap-2 text-sm font-medium text-teal-600 hover:text-teal-800"
+              >
+                <RotateCcw className="w-4 h-4" /> Try again
+              </button>
+            </div>
+          ) : !questions ? (
+            <p className="flex items-center gap-2 text-sm text-slate-500">
+              <Loader2 className="w-4 h-4 animate-spin text-cyan-500" />
+              Writing questions for "{goal}"...
+            </p>
+          ) : current ? (
+            <div className="space-y-4">
+              <div className="flex items-center justify-between text-xs font-semibold text-slate-400 uppercase tracking-wider">
+                <span>Question {answers.length + 1} of {QUIZ_LENGTH}</span>
+                <span>{current.subtopic}</span>
+              </div>
+              <div className="w-full bg-slate-100 rounded-full h-1.5">
+                <div className="bg-teal-400 h-1.5 rounded-full transition-all" style={{ width: `${(answers.length / QUIZ_LENGTH) * 100}%` }} />
+              </div>
+              <p className="text-base font-bold text-slate-800">{current.question}</p>
+              <div className="space-y-2">
+                {current.options.map((option, idx) => (
+                  <button
+                    key={idx}
+                    onClick={() => answer(idx)}
+                    className="w-full text-left px-4 py-3 rounded-xl border border-slate-200 bg-white hover:border-cyan-300 hover:bg-cyan-50/50 text-sm text-slate-700 transition-all"
+                  >
+                    {option}
+                  </button>
+                ))}
+              </div>
+              <button onClick={() => answer(null)} className="text-xs font-semibold text-slate-400 hover:text-slate-600">
+                I don't know
+              </button>
+            </div>
+          ) : result && (
+            <div className="space-y-4">
+              <div>
+                <p className="text-sm text-slate-500">{result.correct} of {result.total} correct. Recommended level:</p>
+                <p className="text-2xl font-bold text-teal-600">{result.recommendedLevel}</p>
+              </div>
+              {result.knownSubtopics.length > 0 && (
+                <div>
+                  <p className="text-xs font-bold text-slate-600 mb-1">You already know — the plan will condense these</p>
+                  <div className="flex flex-wrap gap-2">
+                    {result.knownSubtopics.map(s => (
+                      <span key={s} className="text-xs font-semibold text-emerald-700 bg-emerald-50 px-2.5 py-1 rounded-full">{s}</span>
+                    ))}
+                  </div>
+                </div>
+              )}
+              {result.unknownSubtopics.length > 0 && (
+                <div>
+                  <p className="text-xs font-bold text-slate-600 mb-1">To learn</p>
+                  <div className="flex flex-wrap gap-2">
+                    {result.unknownSubtopics.map(s => (
+                      <span key={s} className="text-xs font-semibold text-amber-700 bg-amber-50 px-2.5 py-1 rounded-full">{s}</span>
+                    ))}
+                  </div>
+                </div>
+              )}
+            </div>
+          )}
+        </div>
+
+        {result && (
+          <div className="flex justify-end gap-2 p-6 pt-0">
+            <button
+              onClick={() => setAttempt(a => a + 1)}
+              className="px-4 py-2 rounded-lg text-sm font-medium text-slate-500 hover:bg-slate-100"
+            >
+              Retake
+            </button>
+            <button
+              onClick={() => onComplete(result)}
+              className="flex items-center gap-2 bg-teal-400 hover:bg-teal-500 text-white px-4 py-2 rounded-lg font-medium text-sm shadow-sm transition-all"
+            >
+              <Check className="w-4 h-4" />
+              Use this result
+            </button>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default AssessmentQuiz;
@@ -0,0 +1,87 @@
+import React from 'react';
+import { Curriculum } from '../types';
+import { describeSourceRules } from '../services/sourcePolicy';
+import { ShieldCheck, Ban, ExternalLink } from 'lucide-react';
+
+interface CurationReportProps {
+  curriculum: Curriculum;
+  onSelectTopic: (topicId: string) => void;
+}
+
+// What the learner's source rules removed from the curator's results, and why
+const CurationReport: React.FC<CurationReportProps> = ({ curriculum, onSelectTopic }) => {
+  const rules = describeSourceRules(curriculum.sources);
+  const topics = curriculum.modules.flatMap((mod, mIdx) =>
+    mod.topics
+      .filter(t => (t.curatedContent?.excluded || []).length > 0)
+      .map(t => ({ topic: t, moduleIndex: mIdx, excluded: t.curatedContent!.excluded! }))
+  );
+  const total = topics.reduce((sum, entry) => sum + entry.excluded.length, 0);
+
+  const reasonCounts = new Map<string, number>();
+  topics.forEach(entry => entry.excluded.forEach(item => {
+    reasonCounts.set(item.reason, (reasonCounts.get(item.reason) || 0) + 1);
+  }));
+
+  return (
+    <div className="bg-white/80 backdrop-blur-md rounded-2xl shadow-lg border border-white/60 p-6 space-y-6">
+      <div>
+        <h3 className="text-lg font-bold text-slate-800 flex items-center gap-2">
+          <ShieldCheck className="w-5 h-5 text-cyan-500" />
+          Curation Report
+        </h3>
+        {rules.length > 0 ? (
+          <ul className="mt-2 text-sm text-slate-600 list-disc pl-5 space-y-1">
+            {rules.map(rule => <li key={rule}>{rule}</li>)}
+          </ul>
+        ) : (
+          <p className="mt-2 text-sm text-slate-500">No source rules were set for this curriculum.</p>
+        )}
+      </div>
+
+      {total === 0 ? (
+        <p className="text-sm text-slate-500">Nothing was excluded. Every resource the curator found matched your rules.</p>
+      ) : (
+        <>
+          <div className="flex flex-wrap gap-2">
+            <span className="text-xs font-bold text-slate-700 bg-slate-100 px-3 py-1 rounded-full">
+              {total} excluded across {topics.length} {topics.length === 1 ? 'topic' : 'topics'}
+            </span>
+            {[...reasonCounts].map(([reason, count]) => (
+              <span key={reason} className="text-xs font-semibold text-red-600 bg-red-50 px-3 py-1 rounded-full">
+                {reason} × {count}
+              </span>
+            ))}
+          </div>
+
+          <div className="space-y-4">
+            {topics.map(({ topic, moduleIndex, excluded }) => (
+              <div key={topic.id} className="border border-slate-200 rounded-xl p-4">
+                <button
+                  onClick={() => onSelectTopic(topic.id)}
+                  className="text-sm font-bold text-slate-800 hover:text-cyan-600 text-left"
+                >
+                  Module {moduleIndex + 1} · {topic.title}
+                </button>
+                <ul className="mt-2 space-y-1">
+                  {excluded.map(item => (
+                    <li key={item.uri} className="flex items-start gap-2 text-xs text-slate-600">
+                      <Ban className="w-3 h-3 mt-0.5 text-red-400 shrink-0" />
+                      <a href={item.uri} target="_blank" rel="noopener noreferrer" className="hover:underline truncate">
+                        {item.title}
+                        <ExternalLink className="w-3 h-3 inline ml-1 text-slate-400" />
+                      </a>
+                      <span className="text-slate-400 shrink-0">— {item.reason}</span>
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            ))}
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default CurationReport;
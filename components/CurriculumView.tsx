@@ -1,18 +1,56 @@
-import React, { useState } from 'react';
-import { Curriculum, Topic, Module } from '../types';
-import { ChevronDown, ChevronRight, ExternalLink, PlayCircle, Book, Layout, Globe, Youtube, FileText, CheckCircle2, Circle, Trophy, BarChart3 } from 'lucide-react';
+import React, { useState, useEffect, useRef } from 'react';
+import { Curriculum, Topic, Module, CurriculumProgress, ScheduleSettings, ResourceLink, ResourceKind, ResourceDifficulty, TopicQuiz } from '../types';
+import ExportMenu from './ExportMenu';
+import ResourceBadges, { KIND_STYLES } from './ResourceBadges';
+import ScheduleView from './ScheduleView';
+import RefinementPanel from './RefinementPanel';
+import CurationReport from './CurationReport';
+import TopicQuizPanel from './TopicQuizPanel';
+import ShareDialog from './ShareDialog';
+import DependencyGraph from './DependencyGraph';
+import NoteEditor from './NoteEditor';
+import Markdown from './Markdown';
+import { getUncuratedTopics } from '../services/curationScheduler';
+import { recurateTopic, RecurateAction, isFallbackContent, getFallbackTopics } from '../services/topicCuration';
+import { canonicalizeUrl, findSharedResources } from '../services/resourceIdentity';
+import { KIND_LABELS, RESOURCE_DIFFICULTIES, getResourceKind } from '../services/resourceClassification';
+import { hasSourceRules } from '../services/sourcePolicy';
+import { searchCurriculum, parseQuery, highlightText, setTopicNotes, setResourceNote, getResourceNote, countNotes, SearchHit } from '../services/notes';
+import { hasPrerequisites, getStartableTopics, getMissingPrerequisites } from '../services/prerequisites';
+import { loadProgress, saveProgress, emptyProgress, isResourceCompleted, toggleResourceCompleted, toggleStepCompleted, recordQuizScore, isQuizPassed } from '../services/progressService';
+import { ChevronDown, ChevronRight, ExternalLink, PlayCircle, Book, Layout, Globe, Youtube, FileText, CheckCircle2, Circle, Trophy, BarChart3, Clock, ListTree, CalendarDays, MessageSquare, Play, Plus, Wand2, RefreshCw, Loader2, Copy, ShieldCheck, Search, X, StickyNote, NotebookPen, Share2, Network, Lock, ArrowRight, SearchX } from 'lucide-react';
 
 interface CurriculumViewProps {
   curriculum: Curriculum;
+  onProgressChange?: (percentage: number) => void;
+  onCurriculumChange?: (curriculum: Curriculum) => void;
+  onResumeCuration?: () => void;
+  onRefine?: (curriculum: Curriculum) => void; // Accepted refinement; may leave topics to curate
+  // Shared links: progress comes from the link instead of storage and nothing can be checked off
+  readOnly?: boolean;
+  sharedProgress?: CurriculumProgress;
 }
 
-const CurriculumView: React.FC<CurriculumViewProps> = ({ curriculum }) => {
+type ViewMode = 'syllabus' | 'schedule' | 'dependencies' | 'refine' | 'report';
+
+const HIT_LABELS: Record<SearchHit['field'], string> = {
+  title: 'Title',
+  description: 'Description',
+  notes: 'Notes',
+  resource: 'Resource',
+  resourceNote: 'Note on'
+};
+
+const CurriculumView: React.FC<CurriculumViewProps> = ({ curriculum, onProgressChange, onCurriculumChange, onResumeCuration, onRefine, readOnly, sharedProgress }) => {
+  const [viewMode, setViewMode] = useState<ViewMode>('syllabus');
   const [expandedModules, setExpandedModules] = useState<Set<number>>(new Set([0]));
   const [selectedTopicId, setSelectedTopicId] = useState<string | null>(
     curriculum.modules[0]?.topics[0]?.id || null
   );
-  // Track completed resources by their URI
-  const [completedResources, setCompletedResources] = useState<Set<string>>(new Set());
+  // Completed resources and actionable steps, keyed by topic id and restored from storage
+  const [progress, setProgress] = useState<CurriculumProgress>(() =>
+    readOnly ? sharedProgress || emptyProgress(curriculum.id) : loadProgress(curriculum.id)
+  );
   // Track images that failed to load
   const [failedImages, setFailedImages] = useState<Set<string>>(new Set());
 
@@ -26,14 +64,116 @@ const CurriculumView: React.FC<CurriculumViewProps> = ({ curriculum }) => {
     setExpandedModules(newExpanded);
   };
 
-  const toggleResource = (uri: string) => {
-    const newCompleted = new Set(completedResources);
-    if (newCompleted.has(uri)) {
-      newCompleted.delete(uri);
-    } else {
-      newCompleted.add(uri);
+  const updateProgress = (next: CurriculumProgress) => {
+    if (readOnly) return;
+    setProgress(next);
+    saveProgress(next);
+  };
+
+  const toggleResource = (topicId: string, uri: string) => {
+    updateProgress(toggleResourceCompleted(progress, topicId, uri));
+  };
+
+  const toggleStep = (topicId: string) => {
+    updateProgress(toggleStepCompleted(progress, topicId));
+  };
+
+  // Single-topic curator actions; only one runs at a time
+  const [recurating, setRecurating] = useState<{ topicId: string; label: string } | null>(null);
+  const [recurateError, setRecurateError] = useState<{ topicId: string; message: string } | null>(null);
+  const [hintOpen, setHintOpen] = useState(false);
+  const [hintDraft, setHintDraft] = useState('');
+  // The curator call is slow; merge into whatever the curriculum looks like when it returns
+  const latestCurriculum = useRef(curriculum);
+  latestCurriculum.current = curriculum;
+
+  const handleRecurate = async (topicId: string, action: RecurateAction, label: string) => {
+    if (recurating || !onCurriculumChange) return;
+    setRecurating({ topicId, label });
+    setRecurateError(null);
+    try {
+      const curatedContent = await recurateTopic(latestCurriculum.current, topicId, action);
+      const current = latestCurriculum.current;
+      onCurriculumChange({
+        ...current,
+        modules: current.modules.map(mod => ({
+          ...mod,
+          topics: mod.topics.map(t => (t.id === topicId ? { ...t, curatedContent } : t))
+        }))
+      });
+      if (action.kind === 'hint') {
+        setHintOpen(false);
+        setHintDraft('');
+      }
+    } catch (e: any) {
+      setRecurateError({ topicId, message: e?.message || 'Could not curate this topic. Please try again.' });
+    } finally {
+      setRecurating(null);
+    }
+  };
+
+  // Generated quizzes are stored on the topic so they survive reloads and exports
+  const handleQuizChange = (topicId: string, quiz: TopicQuiz) => {
+    const current = latestCurriculum.current;
+    onCurriculumChange?.({
+      ...current,
+      modules: current.modules.map(mod => ({
+        ...mod,
+        topics: mod.topics.map(t => (t.id === topicId ? { ...t, quiz } : t))
+      }))
+    });
+  };
+
+  // Notes autosave into the curriculum. The ref is advanced straight away so two editors flushing
+  // together (e.g. when switching topics) don't overwrite each other.
+  const saveNotes = (next: Curriculum) => {
+    latestCurriculum.current = next;
+    onCurriculumChange?.(next);
+  };
+
+  const handleTopicNotes = (topicId: string, notes: string) => {
+    saveNotes(setTopicNotes(latestCurriculum.current, topicId, notes));
+  };
+
+  const handleResourceNote = (topicId: string, uri: string, note: string) => {
+    saveNotes(setResourceNote(latestCurriculum.current, topicId, uri, note));
+  };
+
+  // Resource note editors opened on resources that have no note yet, by canonical id
+  const [openResourceNotes, setOpenResourceNotes] = useState<Set<string>>(new Set());
+
+  const openResourceNote = (uri: string) => {
+    setOpenResourceNotes(prev => new Set(prev).add(canonicalizeUrl(uri)));
+  };
+
+  // Full-text search over titles, descriptions, resources and notes; replaces the syllabus list while active
+  const [searchQuery, setSearchQuery] = useState('');
+  const searchTerms = parseQuery(searchQuery);
+  const searchHits = searchCurriculum(curriculum, searchQuery);
+
+  const renderHighlighted = (text: string) =>
+    highlightText(text, searchTerms).map((part, idx) =>
+      part.hit ? <mark key={idx} className="bg-amber-200/70 text-slate-900 rounded px-0.5">{part.text}</mark> : <React.Fragment key={idx}>{part.text}</React.Fragment>
+    );
+
+  const [showShare, setShowShare] = useState(false);
+
+  const handleGuidedModeChange = (guidedMode: boolean) => {
+    onCurriculumChange?.({ ...curriculum, guidedMode });
+  };
+
+  const handleScheduleChange = (schedule: ScheduleSettings) => {
+    onCurriculumChange?.({ ...curriculum, schedule });
+  };
+
+  // Jump from another view into the syllabus with the topic selected and its module open
+  const openTopic = (topicId: string) => {
+    const mIdx = curriculum.modules.findIndex(mod => mod.topics.some(t => t.id === topicId));
+    if (mIdx >= 0) {
+      setExpandedModules(prev => new Set(prev).add(mIdx));
     }
-    setCompletedResources(newCompleted);
+    setSelectedTopicId(topicId);
+    setViewMode('syllabus');
   };
 
   const handleImageError = (uri: string) => {
@@ -55,36 +195,101 @@ const CurriculumView: React.FC<CurriculumViewProps> = ({ curriculum }) => {
 
   const activeTopic = getSelectedTopic();
 
-  // Helper to determine if a resource is likely a video
-  const isVideoResource = (uri: string, thumbnail?: string) => {
-    return !!thumbnail || uri.includes('youtube.com') || uri.includes('youtu.be') || uri.includes('vimeo.com') || uri.includes('shorts/');
+  // Guided mode: topics stay locked until every prerequisite is complete
+  const missingFor = (topic: Topic) => (curriculum.guidedMode ? getMissingPrerequisites(curriculum, progress, topic) : []);
+  const activeMissing = activeTopic ? missingFor(activeTopic) : [];
+
+  // Resource list filters; they stay set while moving between topics
+  const [kindFilter, setKindFilter] = useState<Set<ResourceKind>>(new Set());
+  const [hidePaid, setHidePaid] = useState(false);
+  const [difficultyFilter, setDifficultyFilter] = useState<ResourceDifficulty | null>(null);
+
+  const toggleKindFilter = (kind: ResourceKind) => {
+    setKindFilter(prev => {
+      const next = new Set(prev);
+      if (next.has(kind)) {
+        next.delete(kind);
+      } else {
+        next.add(kind);
+      }
+      return next;
+    });
   };
 
+  const clearFilters = () => {
+    setKindFilter(new Set());
+    setHidePaid(false);
+    setDifficultyFilter(null);
+  };
+
+  const matchesFilters = (res: ResourceLink) =>
+    (kindFilter.size === 0 || kindFilter.has(getResourceKind(res)))
+    && (!hidePaid || res.cost !== 'paid')
+    && (!difficultyFilter || res.difficulty === difficultyFilter);
+
   // Calculate progress for current topic
   const getTopicProgress = () => {
     if (!activeTopic?.curatedContent?.resources) return { current: 0, total: 0 };
     const resources = activeTopic.curatedContent.resources;
-    const completed = resources.filter(r => completedResources.has(r.uri)).length;
+    const completed = resources.filter(r => isResourceCompleted(progress, r.uri)).length;
     return { current: completed, total: resources.length };
   };
 
-  // Calculate overall course progress
+  // Calculate overall course progress: every resource, every actionable step and every generated quiz counts as one item
   const getTotalProgress = () => {
-    const totalResources = curriculum.modules.reduce((acc, mod) => {
-      return acc + mod.topics.reduce((tAcc, topic) => {
-        return tAcc + (topic.curatedContent?.resources?.length || 0);
-      }, 0);
-    }, 0);
+    let totalResources = 0;
+    let completedResourceCount = 0;
+    let totalSteps = 0;
+    let completedStepCount = 0;
+    let totalQuizzes = 0;
+    let passedQuizCount = 0;
+
+    curriculum.modules.forEach(mod => {
+      mod.topics.forEach(topic => {
+        const resources = topic.curatedContent?.resources || [];
+        totalResources += resources.length;
+        completedResourceCount += resources.filter(r => isResourceCompleted(progress, r.uri)).length;
+        totalSteps += 1;
+        if (progress.completedSteps[topic.id]) completedStepCount += 1;
+        if (topic.quiz) {
+          totalQuizzes += 1;
+          if (isQuizPassed(progress, topic.id)) passedQuizCount += 1;
+        }
+      });
+    });
 
-    const completedCount = completedResources.size;
-    const percentage = totalResources > 0 ? Math.round((completedCount / totalResources) * 100) : 0;
+    const total = totalResources + totalSteps + totalQuizzes;
+    const completed = completedResourceCount + completedStepCount + passedQuizCount;
+    const percentage = total > 0 ? Math.round((completed / total) * 100) : 0;
 
-    return { total: totalResources, completed: completedCount, percentage };
+    return {
+      totalResources,
+      completedResources: completedResourceCount,
+      totalSteps,
+      completedSteps: completedStepCount,
+      totalQuizzes,
+      passedQuizzes: passedQuizCount,
+      percentage
+    };
   };
 
+  const pendingTopicCount = getUncuratedTopics(curriculum).length;
+  const fallbackTopics = getFallbackTopics(curriculum);
+  const showDependencies = hasPrerequisites(curriculum);
+  const startable = getStartableTopics(curriculum, progress);
+  // The report tab only appears when source rules were set or something was excluded
+  const showReport = hasSourceRules(curriculum.sources)
+    || curriculum.modules.some(mod => mod.topics.some(t => (t.curatedContent?.excluded || []).length > 0));
+  // Resources the curator recommended in more than one topic, flagged on each copy
+  const sharedResources = findSharedResources(curriculum);
   const topicProgress = getTopicProgress();
   const overallProgress = getTotalProgress();
 
+  // Report progress upwards so the library list can show it
+  useEffect(() => {
+    onProgressChange?.(overallProgress.percentage);
+  }, [overallProgress.percentage, onProgressChange]);
+
   return (
     <div className="w-full max-w-6xl mx-auto space-y-6">
       
@@ -102,10 +307,23 @@ const CurriculumView: React.FC<CurriculumViewProps> = ({ curriculum }) => {
             <div>
               <h2 className="text-lg font-bold text-slate-800">Course Progress</h2>
               <p className="text-sm text-slate-500 font-medium">
-                {overallProgress.completed} of {overallProgress.total} resources completed
+                {overallProgress.completedResources} of {overallProgress.totalResources} resources and {overallProgress.completedSteps} of {overallProgress.totalSteps} actionable steps completed
+                {overallProgress.totalQuizzes > 0 && `, ${overallProgress.passedQuizzes} of ${overallProgress.totalQuizzes} quizzes passed`}
               </p>
             </div>
-            <span className="text-2xl font-bold text-teal-500">{overallProgress.percentage}%</span>
+            <div className="flex items-center gap-4">
+              <span className="text-2xl font-bold text-teal-500">{overallProgress.percentage}%</span>
+              {!readOnly && (
+                <button
+                  onClick={() => setShowShare(true)}
+                  className="flex items-center gap-2 bg-white/50 hover:bg-white/80 backdrop-blur-sm text-teal-600 hover:text-teal-800 px-4 py-2 rounded-lg font-medium text-sm transition-all border border-white/40 shadow-sm"
+                >
+                  <Share2 className="w-4 h-4" />
+                  Share
+                </button>
+              )}
+              <ExportMenu curriculum={curriculum} progress={progress} />
+            </div>
           </div>
           <div className="w-full bg-slate-200/60 rounded-full h-3 overflow-hidden">
             <div 
@@ -116,221 +334,629 @@ const CurriculumView: React.FC<CurriculumViewProps> = ({ curriculum }) => {
         </div>
       </div>
 
-      <div className="flex flex-col lg:flex-row gap-8 h-[800px] min-h-[600px]">
-        {/* Sidebar: Syllabus Navigation */}
-        <div className="w-full lg:w-1/3 bg-white/80 backdrop-blur-md rounded-2xl shadow-xl border border-white/60 flex flex-col overflow-hidden h-full">
-          <div className="p-6 bg-slate-50/30 border-b border-slate-200/60">
-            <h2 className="text-xl font-bold text-slate-800">{curriculum.title}</h2>
-            <p className="text-sm text-slate-600 mt-2 line-clamp-3">{curriculum.description}</p>
+      {showShare && (
+        <ShareDialog curriculum={curriculum} progress={progress} onClose={() => setShowShare(false)} />
+      )}
+
+      {/* Interrupted generation: some topics were never curated */}
+      {pendingTopicCount > 0 && onResumeCuration && (
+        <div className="bg-amber-50/90 backdrop-blur-sm border border-amber-200 rounded-xl p-4 flex flex-col sm:flex-row sm:items-center gap-3 shadow-sm">
+          <p className="flex-1 text-sm text-amber-800 font-medium">
+            {pendingTopicCount} {pendingTopicCount === 1 ? 'topic is' : 'topics are'} still waiting for curated resources.
+          </p>
+          <button
+            onClick={onResumeCuration}
+            className="flex items-center gap-2 bg-amber-400 hover:bg-amber-500 text-white px-4 py-2 rounded-lg font-medium text-sm transition-all shadow-sm"
+          >
+            <Play className="w-4 h-4" />
+            Resume curation
+          </button>
+        </div>
+      )}
+
+      {/* Topics the curator could only give search links; each can be retried from its page */}
+      {fallbackTopics.length > 0 && !readOnly && (
+        <div className="bg-amber-50/90 backdrop-blur-sm border border-amber-200 rounded-xl p-4 flex flex-col sm:flex-row sm:items-center gap-3 shadow-sm">
+          <p className="flex-1 text-sm text-amber-800 font-medium flex items-center gap-2">
+            <SearchX className="w-4 h-4 shrink-0" />
+            {fallbackTopics.length} {fallbackTopics.length === 1 ? 'topic has' : 'topics have'} only placeholder search links, marked in the syllabus.
+          </p>
+          <button
+            onClick={() => openTopic(fallbackTopics[0].topicId)}
+            className="flex items-center gap-2 bg-white hover:bg-amber-100 text-amber-700 border border-amber-300 px-4 py-2 rounded-lg font-medium text-sm transition-all shadow-sm"
+          >
+            Show {fallbackTopics.length === 1 ? 'topic' : 'first'}
+          </button>
+        </div>
+      )}
+
+      {/* View Switcher */}
+      <div className="flex gap-2">
+        {([
+          { mode: 'syllabus', label: 'Syllabus', icon: <ListTree className="w-4 h-4" /> },
+          { mode: 'schedule', label: 'Schedule', icon: <CalendarDays className="w-4 h-4" /> },
+          ...(showDependencies ? [{ mode: 'dependencies', label: 'Dependencies', icon: <Network className="w-4 h-4" /> }] : []),
+          ...(onRefine ? [{ mode: 'refine', label: 'Refine', icon: <MessageSquare className="w-4 h-4" /> }] : []),
+          ...(showReport ? [{ mode: 'report', label: 'Curation Report', icon: <ShieldCheck className="w-4 h-4" /> }] : [])
+        ] as { mode: ViewMode; label: string; icon: React.ReactNode }[]).map(tab => (
+          <button
+            key={tab.mode}
+            onClick={() => setViewMode(tab.mode)}
+            className={`flex items-center gap-2 px-4 py-2 rounded-lg font-medium text-sm transition-all border shadow-sm ${
+              viewMode === tab.mode
+                ? 'bg-teal-400 text-white border-teal-400'
+                : 'bg-white/50 hover:bg-white/80 text-teal-600 border-white/40'
+            }`}
+          >
+            {tab.icon}
+            {tab.label}
+          </button>
+        ))}
+      </div>
+
+      {viewMode === 'schedule' && (
+        <ScheduleView
+          curriculum={curriculum}
+          progress={progress}
+          onSettingsChange={handleScheduleChange}
+          onSelectTopic={openTopic}
+        />
+      )}
+
+      {viewMode === 'dependencies' && (
+        <div className="bg-white/80 backdrop-blur-md rounded-2xl shadow-xl border border-white/60 p-6 space-y-6">
+          <div className="flex flex-col md:flex-row md:items-start gap-6">
+            <div className="flex-1">
+              <h3 className="text-lg font-bold text-slate-800 flex items-center gap-2 mb-3">
+                <ArrowRight className="w-5 h-5 text-teal-400" />
+                What can I start next
+              </h3>
+              {startable.length > 0 ? (
+                <div className="flex flex-wrap gap-2">
+                  {startable.map(({ topic, moduleIndex }) => (
+                    <button
+                      key={topic.id}
+                      onClick={() => openTopic(topic.id)}
+                      className="text-sm font-medium px-3 py-1.5 rounded-full border border-cyan-200 bg-cyan-50 text-cyan-700 hover:bg-cyan-100 transition-all"
+                    >
+                      M{moduleIndex + 1}: {topic.title}
+                    </button>
+                  ))}
+                </div>
+              ) : (
+                <p className="text-sm text-slate-500">Every topic is complete. Well done!</p>
+              )}
+            </div>
+            {!readOnly && onCurriculumChange && (
+              <label className="flex items-start gap-2 text-sm text-slate-600 cursor-pointer select-none md:max-w-xs">
+                <input
+                  type="checkbox"
+                  checked={!!curriculum.guidedMode}
+                  onChange={(e) => handleGuidedModeChange(e.target.checked)}
+                  className="accent-teal-500 mt-1"
+                />
+                <span>
+                  <span className="font-semibold text-slate-800">Guided mode</span>
+                  <span className="block text-xs text-slate-500">Lock topics until their prerequisites are complete.</span>
+                </span>
+              </label>
+            )}
           </div>
+          <DependencyGraph
+            curriculum={curriculum}
+            progress={progress}
+            selectedTopicId={selectedTopicId}
+            onSelectTopic={openTopic}
+          />
+        </div>
+      )}
+
+      {viewMode === 'report' && (
+        <CurationReport curriculum={curriculum} onSelectTopic={openTopic} />
+      )}
+
+      {viewMode === 'refine' && onRefine && (
+        <RefinementPanel curriculum={curriculum} onAccept={onRefine} />
+      )}
+
+      {viewMode === 'syllabus' && (
+        <div className="flex flex-col lg:flex-row gap-8 h-[800px] min-h-[600px]">
+          {/* Sidebar: Syllabus Navigation */}
+          <div className="w-full lg:w-1/3 bg-white/80 backdrop-blur-md rounded-2xl shadow-xl border border-white/60 flex flex-col overflow-hidden h-full">
+            <div className="p-6 bg-slate-50/30 border-b border-slate-200/60">
+              <h2 className="text-xl font-bold text-slate-800">{curriculum.title}</h2>
+              <p className="text-sm text-slate-600 mt-2 line-clamp-3">{curriculum.description}</p>
+              <div className="relative mt-4">
+                <Search className="w-4 h-4 text-slate-400 absolute left-3 top-1/2 -translate-y-1/2" />
+                <input
+                  value={searchQuery}
+                  onChange={(e) => setSearchQuery(e.target.value)}
+                  onKeyDown={(e) => e.key === 'Escape' && setSearchQuery('')}
+                  placeholder="Search topics, resources and notes"
+                  className="w-full pl-9 pr-8 py-2 rounded-lg border border-slate-300/60 bg-white/70 text-sm focus:ring-2 focus:ring-cyan-400 outline-none"
+                />
+                {searchQuery && (
+                  <button
+                    onClick={() => setSearchQuery('')}
+                    className="absolute right-2 top-1/2 -translate-y-1/2 text-slate-400 hover:text-slate-600"
+                    aria-label="Clear search"
+                  >
+                    <X className="w-4 h-4" />
+                  </button>
+                )}
+              </div>
+            </div>
           
-          <div className="flex-1 overflow-y-auto p-4 space-y-4">
-            {curriculum.modules.map((module, mIdx) => (
-              <div key={mIdx} className="border border-slate-200/60 rounded-lg overflow-hidden bg-white/40">
-                <button 
-                  onClick={() => toggleModule(mIdx)}
-                  className="w-full flex items-center justify-between p-3 hover:bg-white/60 transition-colors text-left"
-                >
-                  <div className="flex items-center gap-2">
-                    <span className="w-6 h-6 flex items-center justify-center bg-cyan-100 text-cyan-700 rounded text-xs font-bold">
-                      {mIdx + 1}
-                    </span>
-                    <span className="font-semibold text-slate-700 text-sm">{module.title}</span>
-                  </div>
-                  {expandedModules.has(mIdx) ? 
-                    <ChevronDown className="w-4 h-4 text-slate-400" /> : 
-                    <ChevronRight className="w-4 h-4 text-slate-400" />
-                  }
-                </button>
-                
-                {expandedModules.has(mIdx) && (
-                  <div className="bg-white/30">
-                    {module.topics.map((topic) => (
+            <div className="flex-1 overflow-y-auto p-4 space-y-4">
+              {searchTerms.length > 0 ? (
+                searchHits.length > 0 ? (
+                  <div className="space-y-2">
+                    <p className="text-xs font-semibold text-slate-400 uppercase tracking-wider">
+                      {searchHits.length} {searchHits.length === 1 ? 'match' : 'matches'}
+                    </p>
+                    {searchHits.map((hit, idx) => (
                       <button
-                        key={topic.id}
-                        onClick={() => setSelectedTopicId(topic.id)}
-                        className={`w-full text-left p-3 pl-11 text-sm border-l-4 transition-all ${
-                          selectedTopicId === topic.id
-                            ? 'border-teal-400 bg-teal-50/50 text-teal-700 font-semibold'
-                            : 'border-transparent text-slate-600 hover:bg-slate-50/50'
+                        key={idx}
+                        onClick={() => openTopic(hit.topicId)}
+                        className={`w-full text-left p-3 rounded-lg border transition-all ${
+                          selectedTopicId === hit.topicId ? 'border-teal-300 bg-teal-50/50' : 'border-slate-200/60 bg-white/40 hover:bg-white/70'
                         }`}
                       >
-                        {topic.title}
+                        <p className="text-xs font-semibold text-slate-500 truncate">
+                          M{hit.moduleIndex + 1} · {hit.topicTitle}
+                        </p>
+                        <p className="text-[10px] font-bold uppercase tracking-wider text-cyan-600 mt-1 truncate">
+                          {HIT_LABELS[hit.field]}{hit.field === 'resourceNote' && hit.label ? ` ${hit.label}` : ''}
+                        </p>
+                        <p className="text-sm text-slate-700 mt-1 line-clamp-3">{renderHighlighted(hit.snippet)}</p>
                       </button>
                     ))}
                   </div>
-                )}
-              </div>
-            ))}
+                ) : (
+                  <p className="text-sm text-slate-500 text-center py-6">Nothing matches "{searchQuery.trim()}".</p>
+                )
+              ) : curriculum.modules.map((module, mIdx) => (
+                <div key={mIdx} className="border border-slate-200/60 rounded-lg overflow-hidden bg-white/40">
+                  <button 
+                    onClick={() => toggleModule(mIdx)}
+                    className="w-full flex items-center justify-between p-3 hover:bg-white/60 transition-colors text-left"
+                  >
+                    <div className="flex items-center gap-2">
+                      <span className="w-6 h-6 flex items-center justify-center bg-cyan-100 text-cyan-700 rounded text-xs font-bold">
+                        {mIdx + 1}
+                      </span>
+                      <span className="font-semibold text-slate-700 text-sm">{module.title}</span>
+                    </div>
+                    {expandedModules.has(mIdx) ? 
+                      <ChevronDown className="w-4 h-4 text-slate-400" /> : 
+                      <ChevronRight className="w-4 h-4 text-slate-400" />
+                    }
+                  </button>
+                
+                  {expandedModules.has(mIdx) && (
+                    <div className="bg-white/30">
+                      {module.topics.map((topic) => (
+                        <button
+                          key={topic.id}
+                          onClick={() => setSelectedTopicId(topic.id)}
+                          className={`w-full text-left p-3 pl-11 text-sm border-l-4 transition-all ${
+                            selectedTopicId === topic.id
+                              ? 'border-teal-400 bg-teal-50/50 text-teal-700 font-semibold'
+                              : 'border-transparent text-slate-600 hover:bg-slate-50/50'
+                          }`}
+                        >
+                          <span className={`flex items-center justify-between gap-2 ${missingFor(topic).length > 0 ? 'opacity-60' : ''}`}>
+                            {topic.title}
+                            <span className="flex items-center gap-1 shrink-0">
+                              {countNotes(topic) > 0 && <StickyNote className="w-3 h-3 text-amber-400" aria-label="Has notes" />}
+                              {isFallbackContent(topic.curatedContent) && <SearchX className="w-3 h-3 text-amber-500" aria-label="Only search links" />}
+                              {missingFor(topic).length > 0 && <Lock className="w-3 h-3 text-slate-400" aria-label="Locked" />}
+                            </span>
+                          </span>
+                        </button>
+                      ))}
+                    </div>
+                  )}
+                </div>
+              ))}
+            </div>
           </div>
-        </div>
 
-        {/* Main Content: Topic Details & Resources */}
-        <div className="w-full lg:w-2/3 bg-white/80 backdrop-blur-md rounded-2xl shadow-xl border border-white/60 overflow-hidden flex flex-col h-full">
-          {activeTopic ? (
-            <>
-              <div className="p-8 border-b border-slate-200/60 bg-slate-50/20">
-                <div className="flex items-center gap-2 text-cyan-600 text-xs font-bold tracking-wider uppercase mb-3">
-                  <Layout className="w-4 h-4" /> Selected Topic
+          {/* Main Content: Topic Details & Resources */}
+          <div className="w-full lg:w-2/3 bg-white/80 backdrop-blur-md rounded-2xl shadow-xl border border-white/60 overflow-hidden flex flex-col h-full">
+            {activeTopic ? (
+              <>
+                <div className="p-8 border-b border-slate-200/60 bg-slate-50/20">
+                  <div className="flex items-center gap-2 text-cyan-600 text-xs font-bold tracking-wider uppercase mb-3">
+                    <Layout className="w-4 h-4" /> Selected Topic
+                  </div>
+                  <h1 className="text-3xl font-bold text-slate-900 mb-4">{activeTopic.title}</h1>
+                  {activeTopic.estimatedHours !== undefined && (
+                    <div className="flex items-center gap-1 text-xs font-semibold text-slate-500 mb-3">
+                      <Clock className="w-3 h-3" /> About {activeTopic.estimatedHours} hours
+                    </div>
+                  )}
+                  <p className="text-slate-700 leading-relaxed font-medium">{activeTopic.description}</p>
                 </div>
-                <h1 className="text-3xl font-bold text-slate-900 mb-4">{activeTopic.title}</h1>
-                <p className="text-slate-700 leading-relaxed font-medium">{activeTopic.description}</p>
-              </div>
 
-              <div className="flex-1 overflow-y-auto p-8 space-y-8">
+                {activeMissing.length > 0 ? (
+                  <div className="flex-1 flex flex-col items-center justify-center text-center p-8">
+                    <Lock className="w-12 h-12 text-slate-300 mb-4" />
+                    <p className="font-bold text-slate-800">This topic is locked</p>
+                    <p className="text-sm text-slate-500 mt-1 mb-4">Finish {activeMissing.length === 1 ? 'this topic' : 'these topics'} first:</p>
+                    <div className="flex flex-wrap justify-center gap-2">
+                      {activeMissing.map(topic => (
+                        <button
+                          key={topic.id}
+                          onClick={() => openTopic(topic.id)}
+                          className="text-sm font-medium px-3 py-1.5 rounded-full border border-cyan-200 bg-cyan-50 text-cyan-700 hover:bg-cyan-100 transition-all"
+                        >
+                          {topic.title}
+                        </button>
+                      ))}
+                    </div>
+                  </div>
+                ) : (
+                  <div className="flex-1 overflow-y-auto p-8 space-y-8">
                 
-                {/* Actionable Step Card */}
-                <div className="bg-cyan-50/40 border border-cyan-100 rounded-xl p-6 shadow-sm">
-                  <h3 className="text-lg font-bold text-cyan-800 mb-2 flex items-center gap-2">
-                    <PlayCircle className="w-5 h-5" />
-                    Actionable Step
-                  </h3>
-                  <p className="text-cyan-900/80">{activeTopic.actionableStep}</p>
-                </div>
+                    {/* Actionable Step Card */}
+                    <div className={`border rounded-xl p-6 shadow-sm transition-colors ${
+                      progress.completedSteps[activeTopic.id] ? 'bg-emerald-50/40 border-emerald-100' : 'bg-cyan-50/40 border-cyan-100'
+                    }`}>
+                      <div className="flex items-start justify-between gap-4 mb-2">
+                        <h3 className="text-lg font-bold text-cyan-800 flex items-center gap-2">
+                          <PlayCircle className="w-5 h-5" />
+                          Actionable Step
+                        </h3>
+                        <button
+                          onClick={() => toggleStep(activeTopic.id)}
+                          disabled={readOnly}
+                          className={`flex items-center gap-1 text-xs font-semibold px-3 py-1.5 rounded-full border transition-all disabled:cursor-default ${
+                            progress.completedSteps[activeTopic.id]
+                              ? 'bg-emerald-50 border-emerald-200 text-emerald-600'
+                              : 'bg-white border-slate-200 text-slate-500 hover:text-cyan-600 hover:border-cyan-300'
+                          }`}
+                        >
+                          {progress.completedSteps[activeTopic.id] ? (
+                            <><CheckCircle2 className="w-4 h-4" /> Done</>
+                          ) : (
+                            <><Circle className="w-4 h-4" /> {readOnly ? 'Not done' : 'Mark as done'}</>
+                          )}
+                        </button>
+                      </div>
+                      <p className="text-cyan-900/80">{activeTopic.actionableStep}</p>
+                    </div>
 
-                {/* Resources Section (Curated by Agent 2) */}
-                <div>
-                  <div className="flex items-center justify-between mb-4">
-                    <h3 className="text-lg font-bold text-slate-800 flex items-center gap-2">
-                      <Book className="w-5 h-5 text-amber-400" />
-                      Curated Resources
-                    </h3>
-                    {topicProgress.total > 0 && (
-                      <span className="text-xs font-semibold px-2 py-1 bg-slate-100/80 text-slate-600 rounded-full border border-slate-200">
-                        {topicProgress.current}/{topicProgress.total} Completed
-                      </span>
-                    )}
-                  </div>
+                    {/* Resources Section (Curated by Agent 2) */}
+                    <div>
+                      <div className="flex items-center justify-between mb-4">
+                        <h3 className="text-lg font-bold text-slate-800 flex items-center gap-2">
+                          <Book className="w-5 h-5 text-amber-400" />
+                          Curated Resources
+                        </h3>
+                        {topicProgress.total > 0 && (
+                          <span className="text-xs font-semibold px-2 py-1 bg-slate-100/80 text-slate-600 rounded-full border border-slate-200">
+                            {topicProgress.current}/{topicProgress.total} Completed
+                          </span>
+                        )}
+                      </div>
+
+                      {/* Topic-level curator actions */}
+                      {onCurriculumChange && activeTopic.curatedContent && (
+                        <div className="mb-4 space-y-2">
+                          <div className="flex flex-wrap items-center gap-2">
+                            <button
+                              onClick={() => handleRecurate(activeTopic.id, { kind: 'more' }, 'Finding more resources')}
+                              disabled={!!recurating}
+                              className="flex items-center gap-1 text-xs font-semibold px-3 py-1.5 rounded-full border bg-white border-slate-200 text-slate-600 hover:text-cyan-600 hover:border-cyan-300 disabled:opacity-50 disabled:cursor-not-allowed transition-all"
+                            >
+                              <Plus className="w-3 h-3" /> Find more resources
+                            </button>
+                            <button
+                              onClick={() => setHintOpen(!hintOpen)}
+                              disabled={!!recurating}
+                              className="flex items-center gap-1 text-xs font-semibold px-3 py-1.5 rounded-full border bg-white border-slate-200 text-slate-600 hover:text-cyan-600 hover:border-cyan-300 disabled:opacity-50 disabled:cursor-not-allowed transition-all"
+                            >
+                              <Wand2 className="w-3 h-3" /> Re-curate with a hint
+                            </button>
+                            {recurating?.topicId === activeTopic.id && (
+                              <span className="flex items-center gap-1 text-xs text-amber-600 font-bold">
+                                <Loader2 className="w-3 h-3 animate-spin" /> {recurating.label}...
+                              </span>
+                            )}
+                          </div>
+                          {hintOpen && (
+                            <form
+                              onSubmit={(e) => {
+                                e.preventDefault();
+                                if (hintDraft.trim()) handleRecurate(activeTopic.id, { kind: 'hint', hint: hintDraft.trim() }, 'Re-curating');
+                              }}
+                              className="flex gap-2"
+                            >
+                              <input
+                                value={hintDraft}
+                                onChange={(e) => setHintDraft(e.target.value)}
+                                placeholder='e.g. "prefer official docs" or "short videos only"'
+                                disabled={!!recurating}
+                                className="flex-1 px-3 py-2 rounded-lg border border-slate-300/60 bg-white/70 text-sm focus:ring-2 focus:ring-cyan-400 outline-none"
+                              />
+                              <button
+                                type="submit"
+                                disabled={!!recurating || !hintDraft.trim()}
+                                className="bg-teal-400 hover:bg-teal-500 disabled:bg-slate-400/50 disabled:cursor-not-allowed text-white px-4 py-2 rounded-lg font-medium text-sm shadow-sm transition-all"
+                              >
+                                Re-curate
+                              </button>
+                            </form>
+                          )}
+                          {recurateError?.topicId === activeTopic.id && (
+                            <p className="text-xs text-red-600 bg-red-50/90 border border-red-200 rounded-lg px-3 py-2">{recurateError.message}</p>
+                          )}
+                        </div>
+                      )}
                   
-                  {activeTopic.curatedContent ? (
-                    <div className="space-y-4">
-                      <div className="grid gap-4">
-                        {activeTopic.curatedContent.resources.length > 0 ? (
-                          activeTopic.curatedContent.resources.map((res, idx) => {
-                            const isVideo = isVideoResource(res.uri, res.thumbnail);
-                            const isCompleted = completedResources.has(res.uri);
-                            const hasFailedImage = failedImages.has(res.uri);
-                            
-                            return (
-                              <div key={idx} className="flex items-stretch gap-3">
-                                {/* Checkbox Column */}
-                                <button 
-                                  onClick={() => toggleResource(res.uri)}
-                                  className={`flex items-center justify-center w-10 shrink-0 rounded-xl border transition-all ${
-                                    isCompleted 
-                                      ? 'bg-emerald-50 border-emerald-200 text-emerald-500' 
-                                      : 'bg-white border-slate-200 text-slate-300 hover:text-cyan-400 hover:border-cyan-300'
-                                  }`}
-                                  aria-label={isCompleted ? "Mark as incomplete" : "Mark as complete"}
+                      {activeTopic.curatedContent ? (
+                        <div className="space-y-4">
+                          {isFallbackContent(activeTopic.curatedContent) && (
+                            <div className="flex flex-col sm:flex-row sm:items-center gap-3 text-sm text-amber-800 bg-amber-50/90 border border-amber-200 rounded-lg px-4 py-3">
+                              <p className="flex-1">
+                                <span className="font-semibold">No verified resources yet.</span>{' '}
+                                {activeTopic.curatedContent.fallbackReason || "The curator couldn't find resources for this topic."}{' '}
+                                These are search links to start from.
+                              </p>
+                              {onCurriculumChange && (
+                                <button
+                                  onClick={() => handleRecurate(activeTopic.id, { kind: 'more' }, 'Finding resources')}
+                                  disabled={!!recurating}
+                                  className="flex items-center justify-center gap-1 text-xs font-semibold px-3 py-1.5 rounded-full border bg-white border-amber-300 text-amber-700 hover:bg-amber-100 disabled:opacity-50 disabled:cursor-not-allowed transition-all"
                                 >
-                                  {isCompleted ? (
-                                    <CheckCircle2 className="w-6 h-6" />
-                                  ) : (
-                                    <Circle className="w-6 h-6" />
-                                  )}
+                                  <RefreshCw className="w-3 h-3" /> Try again
                                 </button>
-
-                                {/* Resource Card */}
-                                <div 
-                                  className={`group flex-1 flex flex-col sm:flex-row gap-4 p-4 rounded-xl border transition-all bg-white overflow-hidden ${
-                                    isCompleted 
-                                      ? 'border-slate-100 opacity-60 hover:opacity-100' 
-                                      : 'border-slate-200 hover:border-cyan-300 hover:shadow-md'
+                              )}
+                            </div>
+                          )}
+                          {activeTopic.curatedContent.resources.length > 1 && (
+                            <div className="flex flex-wrap items-center gap-2">
+                              {[...new Set(activeTopic.curatedContent.resources.map(getResourceKind))].map(kind => (
+                                <button
+                                  key={kind}
+                                  onClick={() => toggleKindFilter(kind)}
+                                  className={`flex items-center gap-1 text-xs font-semibold px-2.5 py-1 rounded-full border transition-all ${
+                                    kindFilter.has(kind) ? 'border-cyan-400 bg-cyan-50 text-cyan-700' : 'border-slate-200 bg-white text-slate-500 hover:border-cyan-300'
                                   }`}
                                 >
-                                  {/* Thumbnail or Icon */}
-                                  <div className="flex-shrink-0">
-                                    {res.thumbnail && !hasFailedImage ? (
-                                      <a href={res.uri} target="_blank" rel="noopener noreferrer" className="block relative w-full sm:w-40 h-24 rounded-lg overflow-hidden bg-slate-100 shadow-sm border border-slate-100 group-hover:opacity-90 transition-opacity">
-                                        <img 
-                                          src={res.thumbnail} 
-                                          alt={res.title} 
-                                          className="w-full h-full object-cover"
-                                          onError={() => handleImageError(res.uri)}
-                                        />
-                                        <div className="absolute inset-0 flex items-center justify-center bg-black/10 group-hover:bg-black/0 transition-colors">
-                                           <PlayCircle className="w-8 h-8 text-white opacity-90 drop-shadow-md" />
-                                        </div>
-                                      </a>
-                                    ) : (
-                                      <a href={res.uri} target="_blank" rel="noopener noreferrer" className="block w-full sm:w-40 h-24 rounded-lg bg-slate-50 group-hover:bg-cyan-50 flex items-center justify-center transition-colors border border-slate-100">
-                                        {isVideo ? (
-                                          <Youtube className="w-8 h-8 text-red-400 group-hover:text-red-500" />
+                                  {KIND_STYLES[kind].icon} {KIND_LABELS[kind]}
+                                </button>
+                              ))}
+                              <select
+                                value={difficultyFilter || ''}
+                                onChange={(e) => setDifficultyFilter((e.target.value || null) as ResourceDifficulty | null)}
+                                className="text-xs font-semibold px-2.5 py-1 rounded-full border border-slate-200 bg-white text-slate-500 outline-none focus:ring-2 focus:ring-cyan-400"
+                                aria-label="Filter by difficulty"
+                              >
+                                <option value="">Any level</option>
+                                {RESOURCE_DIFFICULTIES.map(level => (
+                                  <option key={level} value={level}>{level}</option>
+                                ))}
+                              </select>
+                              <label className="flex items-center gap-1 text-xs font-semibold text-slate-500 cursor-pointer select-none">
+                                <input type="checkbox" checked={hidePaid} onChange={(e) => setHidePaid(e.target.checked)} className="accent-teal-500" />
+                                Hide paid
+                              </label>
+                            </div>
+                          )}
+                          <div className="grid gap-4">
+                            {activeTopic.curatedContent.resources.length > 0 && !activeTopic.curatedContent.resources.some(matchesFilters) ? (
+                              <div className="p-6 text-center bg-slate-50/50 rounded-xl border border-dashed border-slate-300 text-sm text-slate-500">
+                                No resources match the current filters.{' '}
+                                <button onClick={clearFilters} className="font-semibold text-teal-600 hover:text-teal-800">Clear filters</button>
+                              </div>
+                            ) : activeTopic.curatedContent.resources.length > 0 ? (
+                              activeTopic.curatedContent.resources.filter(matchesFilters).map((res, idx) => {
+                                const isVideo = getResourceKind(res) === 'video';
+                                const isCompleted = isResourceCompleted(progress, res.uri);
+                                const hasFailedImage = failedImages.has(res.uri);
+                                const note = getResourceNote(activeTopic, res.uri);
+                                const hasNote = !!note || openResourceNotes.has(canonicalizeUrl(res.uri));
+                            
+                                return (
+                                  <div key={idx} className="flex items-stretch gap-3">
+                                    {/* Checkbox Column */}
+                                    <button 
+                                      onClick={() => toggleResource(activeTopic.id, res.uri)}
+                                      disabled={readOnly}
+                                      className={`flex items-center justify-center w-10 shrink-0 rounded-xl border transition-all disabled:cursor-default ${
+                                        isCompleted 
+                                          ? 'bg-emerald-50 border-emerald-200 text-emerald-500' 
+                                          : 'bg-white border-slate-200 text-slate-300 hover:text-cyan-400 hover:border-cyan-300'
+                                      }`}
+                                      aria-label={isCompleted ? "Mark as incomplete" : "Mark as complete"}
+                                    >
+                                      {isCompleted ? (
+                                        <CheckCircle2 className="w-6 h-6" />
+                                      ) : (
+                                        <Circle className="w-6 h-6" />
+                                      )}
+                                    </button>
+
+                                    {/* Resource Card */}
+                                    <div 
+                                      className={`group flex-1 flex flex-col sm:flex-row gap-4 p-4 rounded-xl border transition-all bg-white overflow-hidden ${
+                                        isCompleted 
+                                          ? 'border-slate-100 opacity-60 hover:opacity-100' 
+                                          : 'border-slate-200 hover:border-cyan-300 hover:shadow-md'
+                                      }`}
+                                    >
+                                      {/* Thumbnail or Icon */}
+                                      <div className="flex-shrink-0">
+                                        {res.thumbnail && !hasFailedImage ? (
+                                          <a href={res.uri} target="_blank" rel="noopener noreferrer" className="block relative w-full sm:w-40 h-24 rounded-lg overflow-hidden bg-slate-100 shadow-sm border border-slate-100 group-hover:opacity-90 transition-opacity">
+                                            <img 
+                                              src={res.thumbnail} 
+                                              alt={res.title} 
+                                              className="w-full h-full object-cover"
+                                              onError={() => handleImageError(res.uri)}
+                                            />
+                                            <div className="absolute inset-0 flex items-center justify-center bg-black/10 group-hover:bg-black/0 transition-colors">
+                                               <PlayCircle className="w-8 h-8 text-white opacity-90 drop-shadow-md" />
+                                            </div>
+                                          </a>
                                         ) : (
-                                          <FileText className="w-8 h-8 text-slate-300 group-hover:text-cyan-400" />
+                                          <a href={res.uri} target="_blank" rel="noopener noreferrer" className="block w-full sm:w-40 h-24 rounded-lg bg-slate-50 group-hover:bg-cyan-50 flex items-center justify-center transition-colors border border-slate-100">
+                                            {isVideo ? (
+                                              <Youtube className="w-8 h-8 text-red-400 group-hover:text-red-500" />
+                                            ) : (
+                                              <FileText className="w-8 h-8 text-slate-300 group-hover:text-cyan-400" />
+                                            )}
+                                          </a>
                                         )}
-                                      </a>
-                                    )}
-                                  </div>
-
-                                  {/* Content */}
-                                  <div className="flex-1 min-w-0 flex flex-col justify-between">
-                                    <div>
-                                      <div className="flex items-start justify-between gap-2 mb-1">
-                                        <a href={res.uri} target="_blank" rel="noopener noreferrer" className={`font-semibold transition-colors line-clamp-1 leading-tight hover:underline ${isCompleted ? 'text-slate-500' : 'text-slate-800 group-hover:text-cyan-600'}`}>
-                                          {res.title}
-                                        </a>
-                                        <a href={res.uri} target="_blank" rel="noopener noreferrer" className="text-slate-400 hover:text-cyan-500 flex-shrink-0">
-                                          <ExternalLink className="w-4 h-4" />
-                                        </a>
                                       </div>
+
+                                      {/* Content */}
+                                      <div className="flex-1 min-w-0 flex flex-col justify-between">
+                                        <div>
+                                          <div className="flex items-start justify-between gap-2 mb-1">
+                                            <a href={res.uri} target="_blank" rel="noopener noreferrer" className={`font-semibold transition-colors line-clamp-1 leading-tight hover:underline ${isCompleted ? 'text-slate-500' : 'text-slate-800 group-hover:text-cyan-600'}`}>
+                                              {res.title}
+                                            </a>
+                                            <div className="flex items-center gap-2 flex-shrink-0">
+                                              {onCurriculumChange && !hasNote && (
+                                                <button
+                                                  onClick={() => openResourceNote(res.uri)}
+                                                  className="text-slate-400 hover:text-amber-500"
+                                                  aria-label="Add a note"
+                                                  title="Add a note"
+                                                >
+                                                  <StickyNote className="w-4 h-4" />
+                                                </button>
+                                              )}
+                                              {onCurriculumChange && (
+                                                <button
+                                                  onClick={() => handleRecurate(activeTopic.id, { kind: 'replace', uri: res.uri }, 'Replacing resource')}
+                                                  disabled={!!recurating}
+                                                  className="text-slate-400 hover:text-cyan-500 disabled:opacity-40 disabled:cursor-not-allowed"
+                                                  aria-label="Replace this resource"
+                                                  title="Replace this resource"
+                                                >
+                                                  <RefreshCw className="w-4 h-4" />
+                                                </button>
+                                              )}
+                                              <a href={res.uri} target="_blank" rel="noopener noreferrer" className="text-slate-400 hover:text-cyan-500">
+                                                <ExternalLink className="w-4 h-4" />
+                                              </a>
+                                            </div>
+                                          </div>
                                       
-                                      {res.description && (
-                                        <p className="text-sm text-slate-600 line-clamp-2 mb-2">
-                                          {res.description}
-                                        </p>
-                                      )}
-                                    </div>
+                                          {res.description && (
+                                            <p className="text-sm text-slate-600 line-clamp-2 mb-2">
+                                              {res.description}
+                                            </p>
+                                          )}
+                                        </div>
 
-                                    <div className="flex items-center gap-3 mt-auto">
-                                      {isVideo ? (
-                                        <span className="flex items-center gap-1 text-[10px] font-bold uppercase tracking-wider text-red-500 bg-red-50 px-2 py-0.5 rounded-full">
-                                          <Youtube className="w-3 h-3" /> Video
-                                        </span>
-                                      ) : (
-                                        <span className="flex items-center gap-1 text-[10px] font-bold uppercase tracking-wider text-blue-500 bg-blue-50 px-2 py-0.5 rounded-full">
-                                          <FileText className="w-3 h-3" /> Article
-                                        </span>
-                                      )}
-                                      {res.source && (
-                                        <span className="text-xs text-slate-400 truncate max-w-[150px]">
-                                          {res.source}
-                                        </span>
-                                      )}
+                                        <div className="flex flex-wrap items-center gap-2 mt-auto">
+                                          <ResourceBadges resource={res} />
+                                          {res.source && (
+                                            <span className="text-xs text-slate-400 truncate max-w-[150px]">
+                                              {res.source}
+                                            </span>
+                                          )}
+                                          {(sharedResources.get(canonicalizeUrl(res.uri)) || [])
+                                            .filter(other => other.topicId !== activeTopic.id)
+                                            .slice(0, 1)
+                                            .map(other => (
+                                              <button
+                                                key={other.topicId}
+                                                onClick={() => openTopic(other.topicId)}
+                                                className="flex items-center gap-1 text-[10px] font-semibold text-amber-600 bg-amber-50 px-2 py-0.5 rounded-full hover:bg-amber-100 truncate max-w-[200px]"
+                                                title="The same resource is recommended in another topic; checking one copy checks both"
+                                              >
+                                                <Copy className="w-3 h-3 shrink-0" /> Also in M{other.moduleIndex + 1}: {other.topicTitle}
+                                              </button>
+                                            ))}
+                                        </div>
+
+                                        {hasNote && (
+                                          <div className="mt-3 pt-3 border-t border-slate-100">
+                                            {onCurriculumChange ? (
+                                              <NoteEditor
+                                                key={`${activeTopic.id}:${canonicalizeUrl(res.uri)}`}
+                                                value={note}
+                                                onSave={(text) => handleResourceNote(activeTopic.id, res.uri, text)}
+                                                placeholder="Your notes on this resource"
+                                                rows={3}
+                                                autoFocus={!note}
+                                              />
+                                            ) : (
+                                              <Markdown source={note} />
+                                            )}
+                                          </div>
+                                        )}
+                                      </div>
                                     </div>
                                   </div>
-                                </div>
-                              </div>
-                            );
-                          })
+                                );
+                              })
+                            ) : (
+                               <div className="p-8 text-center bg-slate-50/50 rounded-xl border border-dashed border-slate-300">
+                                 <Globe className="w-8 h-8 text-slate-400 mx-auto mb-2" />
+                                 <p className="text-slate-500 text-sm">No specific links found for this topic. Try searching manually.</p>
+                               </div>
+                            )}
+                          </div>
+                        </div>
+                      ) : (
+                        <div className="flex flex-col items-center justify-center h-32 text-slate-400 bg-slate-50/50 rounded-xl border border-dashed border-slate-300">
+                          <div className="animate-pulse flex flex-col items-center">
+                            <div className="h-2 w-24 bg-slate-200 rounded mb-2"></div>
+                            <p className="text-xs">Loading resources...</p>
+                          </div>
+                        </div>
+                      )}
+                    </div>
+
+                    {/* Self-check Quiz */}
+                    <TopicQuizPanel
+                      key={activeTopic.id}
+                      topic={activeTopic}
+                      score={progress.quizScores?.[activeTopic.id]}
+                      language={curriculum.profile?.language}
+                      onQuizChange={onCurriculumChange ? (quiz) => handleQuizChange(activeTopic.id, quiz) : undefined}
+                      onScore={(score) => updateProgress(recordQuizScore(progress, activeTopic.id, score))}
+                    />
+
+                    {/* Learner's notes */}
+                    {(onCurriculumChange || activeTopic.notes) && (
+                      <div>
+                        <h3 className="text-lg font-bold text-slate-800 flex items-center gap-2 mb-4">
+                          <NotebookPen className="w-5 h-5 text-amber-400" />
+                          My Notes
+                        </h3>
+                        {onCurriculumChange ? (
+                          <NoteEditor
+                            key={activeTopic.id}
+                            value={activeTopic.notes || ''}
+                            onSave={(text) => handleTopicNotes(activeTopic.id, text)}
+                            placeholder="Write down what you learned, questions to follow up, snippets..."
+                          />
                         ) : (
-                           <div className="p-8 text-center bg-slate-50/50 rounded-xl border border-dashed border-slate-300">
-                             <Globe className="w-8 h-8 text-slate-400 mx-auto mb-2" />
-                             <p className="text-slate-500 text-sm">No specific links found for this topic. Try searching manually.</p>
-                           </div>
+                          <Markdown source={activeTopic.notes!} />
                         )}
                       </div>
-                    </div>
-                  ) : (
-                    <div className="flex flex-col items-center justify-center h-32 text-slate-400 bg-slate-50/50 rounded-xl border border-dashed border-slate-300">
-                      <div className="animate-pulse flex flex-col items-center">
-                        <div className="h-2 w-24 bg-slate-200 rounded mb-2"></div>
-                        <p className="text-xs">Loading resources...</p>
-                      </div>
-                    </div>
-                  )}
-                </div>
+                    )}
 
+                  </div>
+                )}
+              </>
+            ) : (
+              <div className="flex-1 flex flex-col items-center justify-center text-slate-400 p-8">
+                <Layout className="w-16 h-16 mb-4 opacity-20" />
+                <p>Select a topic from the sidebar to view details.</p>
               </div>
-            </>
-          ) : (
-            <div className="flex-1 flex flex-col items-center justify-center text-slate-400 p-8">
-              <Layout className="w-16 h-16 mb-4 opacity-20" />
-              <p>Select a topic from the sidebar to view details.</p>
-            </div>
-          )}
+            )}
+          </div>
         </div>
-      </div>
+      )}
     </div>
   );
 };
@@ -0,0 +1,107 @@
+import React from 'react';
+import { Curriculum, CurriculumProgress } from '../types';
+import { layoutGraph, TopicState } from '../services/prerequisites';
+
+interface DependencyGraphProps {
+  curriculum: Curriculum;
+  progress: CurriculumProgress;
+  selectedTopicId?: string | null;
+  onSelectTopic: (topicId: string) => void;
+}
+
+const NODE_WIDTH = 190;
+const NODE_HEIGHT = 52;
+const COLUMN_GAP = 70;
+const ROW_GAP = 18;
+const PADDING = 16;
+const MAX_LABEL = 26;
+
+const STATE_STYLES: Record<TopicState, { fill: string; stroke: string; text: string; label: string }> = {
+  complete: { fill: '#ecfdf5', stroke: '#6ee7b7', text: '#047857', label: 'Complete' },
+  available: { fill: '#ecfeff', stroke: '#22d3ee', text: '#0e7490', label: 'Ready to start' },
+  locked: { fill: '#f8fafc', stroke: '#cbd5e1', text: '#64748b', label: 'Waiting on prerequisites' }
+};
+
+const clip = (text: string) => (text.length > MAX_LABEL ? `${text.slice(0, MAX_LABEL - 1).trimEnd()}…` : text);
+
+// Topics laid out left to right by prerequisite depth; arrows run from a prerequisite to the topics that need it
+const DependencyGraph: React.FC<DependencyGraphProps> = ({ curriculum, progress, selectedTopicId, onSelectTopic }) => {
+  const nodes = layoutGraph(curriculum, progress);
+  const byId = new Map(nodes.map(node => [node.topic.id, node]));
+  const columns = Math.max(1, ...nodes.map(node => node.layer + 1));
+  const rows = Math.max(1, ...nodes.map(node => node.row + 1));
+  const width = PADDING * 2 + columns * NODE_WIDTH + (columns - 1) * COLUMN_GAP;
+  const height = PADDING * 2 + rows * NODE_HEIGHT + (rows - 1) * ROW_GAP;
+
+  const x = (layer: number) => PADDING + layer * (NODE_WIDTH + COLUMN_GAP);
+  const y = (row: number) => PADDING + row * (NODE_HEIGHT + ROW_GAP);
+
+  return (
+    <div className="space-y-3">
+      <div className="flex flex-wrap gap-4 text-xs text-slate-500">
+        {(Object.keys(STATE_STYLES) as TopicState[]).map(state => (
+          <span key={state} className="flex items-center gap-1.5">
+            <span className="w-3 h-3 rounded border" style={{ background: STATE_STYLES[state].fill, borderColor: STATE_STYLES[state].stroke }} />
+            {STATE_STYLES[state].label}
+          </span>
+        ))}
+      </div>
+      <div className="overflow-auto rounded-xl border border-slate-200/60 bg-white/60">
+        <svg width={width} height={height} role="img" aria-label="Topic dependency graph">
+          <defs>
+            <marker id="dependency-arrow" viewBox="0 0 10 10" refX="9" refY="5" markerWidth="7" markerHeight="7" orient="auto-start-reverse">
+              <path d="M 0 0 L 10 5 L 0 10 z" fill="#94a3b8" />
+            </marker>
+          </defs>
+
+          {nodes.flatMap(node => (node.topic.prerequisites || []).map(depId => {
+            const dep = byId.get(depId);
+            if (!dep) return null;
+            const x1 = x(dep.layer) + NODE_WIDTH;
+            const y1 = y(dep.row) + NODE_HEIGHT / 2;
+            const x2 = x(node.layer);
+            const y2 = y(node.row) + NODE_HEIGHT / 2;
+            const bend = (x2 - x1) / 2;
+            return (
+              <path
+                key={`${depId}->${node.topic.id}`}
+                d={`M ${x1} ${y1} C ${x1 + bend} ${y1}, ${x2 - bend} ${y2}, ${x2} ${y2}`}
+                fill="none"
+                stroke="#94a3b8"
+                strokeWidth={1.5}
+                markerEnd="url(#dependency-arrow)"
+              />
+            );
+          }))}
+
+          {nodes.map(node => {
+            const style = STATE_STYLES[node.state];
+            const selected = node.topic.id === selectedTopicId;
+            return (
+              <g
+                key={node.topic.id}
+                transform={`translate(${x(node.layer)}, ${y(node.row)})`}
+                onClick={() => onSelectTopic(node.topic.id)}
+                className="cursor-pointer"
+              >
+                <title>{`${node.topic.title} (Module ${node.moduleIndex + 1}) · ${style.label}`}</title>
+                <rect
+                  width={NODE_WIDTH}
+                  height={NODE_HEIGHT}
+                  rx={10}
+                  fill={style.fill}
+                  stroke={selected ? '#2dd4bf' : style.stroke}
+                  strokeWidth={selected ? 3 : 1.5}
+                />
+                <text x={12} y={20} fontSize={10} fontWeight={700} fill="#94a3b8">MODULE {node.moduleIndex + 1}</text>
+                <text x={12} y={38} fontSize={13} fontWeight={600} fill={style.text}>{clip(node.topic.title)}</text>
+              </g>
+            );
+          })}
+        </svg>
+      </div>
+    </div>
+  );
+};
+
+export default DependencyGraph;
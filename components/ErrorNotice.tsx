@@ -0,0 +1,63 @@
+import React, { useState, useEffect } from 'react';
+import { ErrorAdvice } from '../services/errors';
+import { AlertTriangle, RefreshCw, Timer, Pencil } from 'lucide-react';
+
+interface ErrorNoticeProps {
+  advice: ErrorAdvice;
+  onRetry?: () => void;
+  onEditGoal?: () => void;
+}
+
+// A failed generation: the cause and the actions that can fix it. 'wait' counts down before retry unlocks.
+const ErrorNotice: React.FC<ErrorNoticeProps> = ({ advice, onRetry, onEditGoal }) => {
+  const waitSeconds = advice.actions.includes('wait') ? Math.ceil((advice.retryAfterMs || 0) / 1000) : 0;
+  const [remaining, setRemaining] = useState(waitSeconds);
+
+  useEffect(() => {
+    setRemaining(waitSeconds);
+    if (waitSeconds <= 0) return;
+    const timer = setInterval(() => {
+      setRemaining(prev => {
+        if (prev <= 1) clearInterval(timer);
+        return Math.max(0, prev - 1);
+      });
+    }, 1000);
+    return () => clearInterval(timer);
+  }, [waitSeconds]);
+
+  const canRetry = !!onRetry && (advice.actions.includes('retry') || advice.actions.includes('wait'));
+
+  return (
+    <div className="mt-6 p-4 bg-red-50/90 backdrop-blur-sm text-red-700 border border-red-200 rounded-xl max-w-2xl w-full shadow-sm" role="alert">
+      <p className="font-semibold flex items-center gap-2">
+        <AlertTriangle className="w-4 h-4 shrink-0" />
+        {advice.title}
+      </p>
+      <p className="mt-1 text-sm">{advice.message}</p>
+      {(canRetry || (onEditGoal && advice.actions.includes('edit-goal'))) && (
+        <div className="mt-3 flex flex-wrap gap-2">
+          {canRetry && (
+            <button
+              onClick={onRetry}
+              disabled={remaining > 0}
+              className="flex items-center gap-1 text-xs font-semibold px-3 py-1.5 rounded-full border bg-white border-red-200 text-red-600 hover:border-red-300 disabled:opacity-60 disabled:cursor-not-allowed transition-all"
+            >
+              {remaining > 0 ? <Timer className="w-3 h-3" /> : <RefreshCw className="w-3 h-3" />}
+              {remaining > 0 ? `Retry in ${remaining}s` : 'Retry now'}
+            </button>
+          )}
+          {onEditGoal && advice.actions.includes('edit-goal') && (
+            <button
+              onClick={onEditGoal}
+              className="flex items-center gap-1 text-xs font-semibold px-3 py-1.5 rounded-full border bg-white border-red-200 text-red-600 hover:border-red-300 transition-all"
+            >
+              <Pencil className="w-3 h-3" /> Edit goal
+            </button>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ErrorNotice;
@@ -0,0 +1,73 @@
+import React, { useState } from 'react';
+import { Curriculum, CurriculumProgress } from '../types';
+import { toMarkdown, toJSONDocument, toPrintableHtml, downloadFile, openPrintWindow, toFileName } from '../services/exportService';
+import { Download, FileText, FileJson, Printer, ChevronDown } from 'lucide-react';
+
+interface ExportMenuProps {
+  curriculum: Curriculum;
+  progress: CurriculumProgress;
+}
+
+const ExportMenu: React.FC<ExportMenuProps> = ({ curriculum, progress }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [includeProgress, setIncludeProgress] = useState(true);
+
+  const options = { progress: includeProgress ? progress : undefined };
+
+  const handleMarkdown = () => {
+    downloadFile(toFileName(curriculum.title, 'md'), toMarkdown(curriculum, options), 'text/markdown');
+    setIsOpen(false);
+  };
+
+  const handleJson = () => {
+    downloadFile(toFileName(curriculum.title, 'json'), toJSONDocument(curriculum, options), 'application/json');
+    setIsOpen(false);
+  };
+
+  const handlePrint = () => {
+    try {
+      openPrintWindow(toPrintableHtml(curriculum, options));
+    } catch (e: any) {
+      window.alert(e?.message || 'Could not open the print view.');
+    }
+    setIsOpen(false);
+  };
+
+  return (
+    <div className="relative">
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className="flex items-center gap-2 bg-white/50 hover:bg-white/80 backdrop-blur-sm text-teal-600 hover:text-teal-800 px-4 py-2 rounded-lg font-medium text-sm transition-all border border-white/40 shadow-sm"
+      >
+        <Download className="w-4 h-4" />
+        Export
+        <ChevronDown className="w-4 h-4" />
+      </button>
+
+      {isOpen && (
+        <div className="absolute right-0 mt-2 w-64 bg-white/95 backdrop-blur-md rounded-xl shadow-xl border border-slate-200/60 z-40 overflow-hidden">
+          <button onClick={handleMarkdown} className="w-full flex items-center gap-3 px-4 py-3 text-sm text-slate-700 hover:bg-cyan-50 text-left">
+            <FileText className="w-4 h-4 text-cyan-500" /> Markdown syllabus
+          </button>
+          <button onClick={handleJson} className="w-full flex items-center gap-3 px-4 py-3 text-sm text-slate-700 hover:bg-cyan-50 text-left">
+            <FileJson className="w-4 h-4 text-cyan-500" /> JSON document
+          </button>
+          <button onClick={handlePrint} className="w-full flex items-center gap-3 px-4 py-3 text-sm text-slate-700 hover:bg-cyan-50 text-left">
+            <Printer className="w-4 h-4 text-cyan-500" /> Print / Save as PDF
+          </button>
+          <label className="flex items-center gap-2 px-4 py-3 text-xs text-slate-500 border-t border-slate-200/60 cursor-pointer">
+            <input
+              type="checkbox"
+              checked={includeProgress}
+              onChange={(e) => setIncludeProgress(e.target.checked)}
+              className="accent-teal-500"
+            />
+            Include progress checkmarks
+          </label>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ExportMenu;
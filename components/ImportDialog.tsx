@@ -0,0 +1,117 @@
+import React, { useState } from 'react';
+import { Curriculum, CurriculumProgress } from '../types';
+import { importCurriculumFromText, importCurriculumFromFile, ImportIssue, ImportResult } from '../services/importService';
+import { Upload, X, AlertTriangle, FileJson } from 'lucide-react';
+
+interface ImportDialogProps {
+  onImport: (curriculum: Curriculum, progress?: CurriculumProgress) => void;
+  onClose: () => void;
+}
+
+const IssueList: React.FC<{ issues: ImportIssue[]; tone: 'error' | 'warning' }> = ({ issues, tone }) => (
+  <ul className={`text-xs font-mono space-y-1 max-h-40 overflow-y-auto p-3 rounded-lg border ${
+    tone === 'error' ? 'bg-red-50/90 text-red-700 border-red-200' : 'bg-amber-50/90 text-amber-700 border-amber-200'
+  }`}>
+    {issues.map((issue, idx) => (
+      <li key={idx}>
+        {issue.line !== undefined && <span className="font-bold">Line {issue.line}: </span>}
+        {issue.path && <span className="opacity-70">{issue.path} — </span>}
+        {issue.message}
+      </li>
+    ))}
+  </ul>
+);
+
+const ImportDialog: React.FC<ImportDialogProps> = ({ onImport, onClose }) => {
+  const [text, setText] = useState('');
+  const [result, setResult] = useState<ImportResult | null>(null);
+
+  const handleResult = (next: ImportResult) => {
+    setResult(next);
+    // Import straight away when there is nothing the user needs to read first
+    if (next.ok && next.warnings.length === 0) {
+      onImport(next.curriculum, next.progress);
+    }
+  };
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+    handleResult(await importCurriculumFromFile(file));
+    e.target.value = '';
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-slate-900/30 backdrop-blur-sm p-4">
+      <div className="w-full max-w-2xl bg-white/95 backdrop-blur-xl rounded-2xl shadow-xl border border-white/60 overflow-hidden">
+        <div className="flex items-center justify-between p-6 border-b border-slate-200/60">
+          <h2 className="text-xl font-bold text-slate-800 flex items-center gap-2">
+            <FileJson className="w-5 h-5 text-cyan-500" />
+            Import Curriculum
+          </h2>
+          <button onClick={onClose} className="p-1.5 text-slate-400 hover:bg-slate-100 rounded-lg" aria-label="Close">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="p-6 space-y-4">
+          <label className="flex items-center justify-center gap-2 w-full py-4 rounded-xl border-2 border-dashed border-slate-300 text-slate-500 hover:border-cyan-300 hover:text-cyan-600 cursor-pointer transition-colors">
+            <Upload className="w-5 h-5" />
+            Choose a JSON file
+            <input type="file" accept="application/json,.json" onChange={handleFile} className="hidden" />
+          </label>
+
+          <div className="text-center text-xs text-slate-400 font-medium uppercase tracking-wider">or paste JSON</div>
+
+          <textarea
+            rows={8}
+            value={text}
+            onChange={(e) => {
+              setText(e.target.value);
+              setResult(null);
+            }}
+            placeholder='{ "schemaVersion": 1, "curriculum": { ... } }'
+            className="w-full px-4 py-3 rounded-xl border border-slate-300/60 bg-slate-800 text-white placeholder-slate-400 font-mono text-xs focus:ring-2 focus:ring-cyan-400 outline-none resize-none shadow-inner"
+          />
+
+          {result && !result.ok && (
+            <div className="space-y-2">
+              <p className="text-sm font-bold text-red-700 flex items-center gap-1">
+                <AlertTriangle className="w-4 h-4" /> Import failed ({result.errors.length} {result.errors.length === 1 ? 'problem' : 'problems'})
+              </p>
+              <IssueList issues={result.errors} tone="error" />
+            </div>
+          )}
+
+          {result && result.ok && result.warnings.length > 0 && (
+            <div className="space-y-2">
+              <p className="text-sm font-bold text-amber-700">"{result.curriculum.title}" is valid, with adjustments:</p>
+              <IssueList issues={result.warnings} tone="warning" />
+            </div>
+          )}
+        </div>
+
+        <div className="flex justify-end gap-2 p-6 pt-0">
+          {result && result.ok && result.warnings.length > 0 ? (
+            <button
+              onClick={() => onImport(result.curriculum, result.progress)}
+              className="bg-teal-400 hover:bg-teal-500 text-white px-4 py-2 rounded-lg font-medium text-sm shadow-sm transition-all"
+            >
+              Import anyway
+            </button>
+          ) : (
+            <button
+              onClick={() => handleResult(importCurriculumFromText(text))}
+              disabled={!text.trim()}
+              className="bg-teal-400 hover:bg-teal-500 disabled:bg-slate-400/50 disabled:cursor-not-allowed text-white px-4 py-2 rounded-lg font-medium text-sm shadow-sm transition-all"
+            >
+              Import
+            </button>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ImportDialog;
@@ -1,21 +1,131 @@
 import React, { useState } from 'react';
-import { SkillLevel, TimeCommitment, UserPreferences } from '../types';
-import { Send, BookOpen, Clock, BarChart } from 'lucide-react';
+import { SkillLevel, TimeCommitment, UserPreferences, ResourceKind, SourcePreferences, LearningStyle, SavedProfile, AssessmentResult } from '../types';
+import { RESOURCE_KINDS, KIND_LABELS } from '../services/resourceClassification';
+import { parseDomainList, READING_FORMATS } from '../services/sourcePolicy';
+import { LEARNING_STYLE_LABELS, cleanProfile, listProfiles, saveProfile, deleteProfile } from '../services/profileService';
+import { toInputDate, fromInputDate, startOfDay } from '../services/scheduleService';
+import AssessmentQuiz from './AssessmentQuiz';
+import { Send, BookOpen, Clock, BarChart, ClipboardList, DatabaseZap, SlidersHorizontal, ChevronDown, ChevronRight, UserRound, Save, Trash2, GraduationCap, X } from 'lucide-react';
 
 interface InputFormProps {
   onSubmit: (prefs: UserPreferences) => void;
   isSubmitting: boolean;
+  initialGoal?: string; // Prefilled after a failed run so it can be edited and resubmitted
 }
 
-const InputForm: React.FC<InputFormProps> = ({ onSubmit, isSubmitting }) => {
-  const [goal, setGoal] = useState('');
+const InputForm: React.FC<InputFormProps> = ({ onSubmit, isSubmitting, initialGoal }) => {
+  const [goal, setGoal] = useState(initialGoal || '');
   const [skillLevel, setSkillLevel] = useState<SkillLevel>(SkillLevel.Beginner);
   const [timeCommitment, setTimeCommitment] = useState<TimeCommitment>(TimeCommitment.Low);
+  const [reviewSyllabus, setReviewSyllabus] = useState(false);
+  const [bypassCache, setBypassCache] = useState(false);
+  const [showAssessment, setShowAssessment] = useState(false);
+  const [assessment, setAssessment] = useState<AssessmentResult | null>(null);
+  // Source rules (advanced)
+  const [showSources, setShowSources] = useState(false);
+  const [preferredDomains, setPreferredDomains] = useState('');
+  const [blockedDomains, setBlockedDomains] = useState('');
+  const [onlyPreferredDomains, setOnlyPreferredDomains] = useState(false);
+  const [preferredFormats, setPreferredFormats] = useState<ResourceKind[]>([]);
+  const [onlyPreferredFormats, setOnlyPreferredFormats] = useState(false);
+  // Learner profile (optional)
+  const [showProfile, setShowProfile] = useState(false);
+  const [background, setBackground] = useState('');
+  const [learningStyle, setLearningStyle] = useState<LearningStyle>('balanced');
+  const [deadline, setDeadline] = useState(''); // YYYY-MM-DD from the date input
+  const [language, setLanguage] = useState('');
+  const [savedProfiles, setSavedProfiles] = useState<SavedProfile[]>(() => listProfiles());
+  const [selectedProfileId, setSelectedProfileId] = useState('');
+  const [profileName, setProfileName] = useState('');
+
+  const toggleFormat = (kind: ResourceKind) => {
+    setPreferredFormats(prev => prev.includes(kind) ? prev.filter(k => k !== kind) : [...prev, kind]);
+  };
+
+  const applyFormatPreset = (formats: ResourceKind[]) => {
+    setPreferredFormats(formats);
+    setOnlyPreferredFormats(true);
+  };
+
+  const buildSources = (): SourcePreferences | undefined => {
+    const sources: SourcePreferences = {
+      preferredDomains: parseDomainList(preferredDomains),
+      blockedDomains: parseDomainList(blockedDomains),
+      onlyPreferredDomains,
+      preferredFormats,
+      onlyPreferredFormats
+    };
+    const hasRules = sources.preferredDomains.length > 0 || sources.blockedDomains.length > 0 || sources.preferredFormats.length > 0;
+    return hasRules ? sources : undefined;
+  };
+
+  const buildProfile = () => cleanProfile({
+    background,
+    learningStyle,
+    deadline: deadline ? fromInputDate(deadline) : undefined,
+    language
+  });
+
+  const loadProfile = (id: string) => {
+    setSelectedProfileId(id);
+    const saved = savedProfiles.find(p => p.id === id);
+    if (!saved) return;
+    setProfileName(saved.name);
+    setSkillLevel(saved.skillLevel);
+    setTimeCommitment(saved.timeCommitment);
+    setBackground(saved.profile.background || '');
+    setLearningStyle(saved.profile.learningStyle || 'balanced');
+    // A deadline already in the past is not worth restoring
+    setDeadline(saved.profile.deadline && saved.profile.deadline >= startOfDay(Date.now()) ? toInputDate(saved.profile.deadline) : '');
+    setLanguage(saved.profile.language || '');
+    setPreferredDomains((saved.sources?.preferredDomains || []).join(', '));
+    setBlockedDomains((saved.sources?.blockedDomains || []).join(', '));
+    setOnlyPreferredDomains(!!saved.sources?.onlyPreferredDomains);
+    setPreferredFormats(saved.sources?.preferredFormats || []);
+    setOnlyPreferredFormats(!!saved.sources?.onlyPreferredFormats);
+  };
+
+  const handleSaveProfile = () => {
+    if (!profileName.trim()) return;
+    const saved = saveProfile(profileName, {
+      skillLevel,
+      timeCommitment,
+      profile: buildProfile() || {},
+      sources: buildSources()
+    });
+    setSavedProfiles(listProfiles());
+    setSelectedProfileId(saved.id);
+  };
+
+  const handleDeleteProfile = () => {
+    if (!selectedProfileId) return;
+    deleteProfile(selectedProfileId);
+    setSavedProfiles(listProfiles());
+    setSelectedProfileId('');
+  };
+
+  // A quiz taken for a different goal says nothing about this one
+  const currentAssessment = assessment && assessment.goal === goal.trim() ? assessment : undefined;
+
+  const handleAssessmentComplete = (result: AssessmentResult) => {
+    setAssessment(result);
+    setSkillLevel(result.recommendedLevel);
+    setShowAssessment(false);
+  };
 
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
     if (goal.trim()) {
-      onSubmit({ goal, skillLevel, timeCommitment });
+      onSubmit({
+        goal,
+        skillLevel,
+        timeCommitment,
+        reviewSyllabus,
+        bypassCache,
+        sources: buildSources(),
+        profile: buildProfile(),
+        assessment: currentAssessment
+      });
     }
   };
 
@@ -52,10 +162,22 @@ const InputForm: React.FC<InputFormProps> = ({ onSubmit, isSubmitting }) => {
         <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
           {/* Skill Level */}
           <div>
-            <label className="block text-sm font-bold text-slate-700 mb-2 flex items-center gap-2">
-              <BarChart className="w-4 h-4 text-cyan-500" />
-              Current Skill Level
-            </label>
+            <div className="flex items-center justify-between mb-2">
+              <label className="block text-sm font-bold text-slate-700 flex items-center gap-2">
+                <BarChart className="w-4 h-4 text-cyan-500" />
+                Current Skill Level
+              </label>
+              <button
+                type="button"
+                onClick={() => setShowAssessment(true)}
+                disabled={isSubmitting || !goal.trim()}
+                title={goal.trim() ? 'Take a short quiz to find your level' : 'Enter a goal first'}
+                className="flex items-center gap-1 text-xs font-semibold text-teal-600 hover:text-teal-800 disabled:text-slate-400 disabled:cursor-not-allowed"
+              >
+                <GraduationCap className="w-4 h-4" />
+                Assess me
+              </button>
+            </div>
             <div className="relative">
               <select
                 value={skillLevel}
@@ -71,6 +193,15 @@ const InputForm: React.FC<InputFormProps> = ({ onSubmit, isSubmitting }) => {
                 <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M19 9l-7 7-7-7"></path></svg>
               </div>
             </div>
+            {currentAssessment && (
+              <p className="flex items-center gap-1 mt-2 text-xs font-medium text-teal-700">
+                Quiz: {currentAssessment.correct}/{currentAssessment.total} correct, placed at {currentAssessment.recommendedLevel}
+                {currentAssessment.knownSubtopics.length > 0 && ` · ${currentAssessment.knownSubtopics.length} known subtopics will be condensed`}
+                <button type="button" onClick={() => setAssessment(null)} className="ml-1 text-slate-400 hover:text-slate-600" aria-label="Discard quiz result">
+                  <X className="w-3 h-3" />
+                </button>
+              </p>
+            )}
           </div>
 
           {/* Time Commitment */}
@@ -97,6 +228,213 @@ const InputForm: React.FC<InputFormProps> = ({ onSubmit, isSubmitting }) => {
           </div>
         </div>
 
+        {/* Learner Profile */}
+        <div className="rounded-xl border border-slate-300/60 bg-white/40">
+          <button
+            type="button"
+            onClick={() => setShowProfile(!showProfile)}
+            className="w-full flex items-center justify-between px-4 py-3 text-sm font-bold text-slate-700"
+          >
+            <span className="flex items-center gap-2">
+              <UserRound className="w-4 h-4 text-cyan-500" />
+              About you
+              {buildProfile() && <span className="text-xs font-medium text-teal-600">(profile set)</span>}
+            </span>
+            {showProfile ? <ChevronDown className="w-4 h-4" /> : <ChevronRight className="w-4 h-4" />}
+          </button>
+          {showProfile && (
+            <div className="px-4 pb-4 space-y-4">
+              <div>
+                <label htmlFor="background" className="block text-xs font-bold text-slate-600 mb-1">What do you already know?</label>
+                <textarea
+                  id="background"
+                  rows={2}
+                  value={background}
+                  onChange={(e) => setBackground(e.target.value)}
+                  disabled={isSubmitting}
+                  placeholder="e.g., Comfortable with Python and SQL, never used a web framework"
+                  className="w-full px-3 py-2 rounded-lg border border-slate-300/60 bg-white/70 text-sm focus:bg-white focus:ring-2 focus:ring-cyan-400 outline-none resize-none"
+                />
+              </div>
+              <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                <label className="block text-xs font-bold text-slate-600">
+                  Learning style
+                  <select
+                    value={learningStyle}
+                    onChange={(e) => setLearningStyle(e.target.value as LearningStyle)}
+                    disabled={isSubmitting}
+                    className="block w-full mt-1 px-3 py-2 rounded-lg border border-slate-300/60 bg-white/70 text-sm font-medium focus:ring-2 focus:ring-cyan-400 outline-none cursor-pointer"
+                  >
+                    {(Object.keys(LEARNING_STYLE_LABELS) as LearningStyle[]).map(style => (
+                      <option key={style} value={style}>{LEARNING_STYLE_LABELS[style]}</option>
+                    ))}
+                  </select>
+                </label>
+                <label className="block text-xs font-bold text-slate-600">
+                  Target deadline
+                  <input
+                    type="date"
+                    value={deadline}
+                    min={toInputDate(Date.now())}
+                    onChange={(e) => setDeadline(e.target.value)}
+                    disabled={isSubmitting}
+                    className="block w-full mt-1 px-3 py-2 rounded-lg border border-slate-300/60 bg-white/70 text-sm font-medium focus:ring-2 focus:ring-cyan-400 outline-none"
+                  />
+                </label>
+                <label className="block text-xs font-bold text-slate-600">
+                  Output language
+                  <input
+                    value={language}
+                    onChange={(e) => setLanguage(e.target.value)}
+                    disabled={isSubmitting}
+                    placeholder="English"
+                    className="block w-full mt-1 px-3 py-2 rounded-lg border border-slate-300/60 bg-white/70 text-sm font-medium focus:ring-2 focus:ring-cyan-400 outline-none"
+                  />
+                </label>
+              </div>
+
+              {/* Saved profiles: skill level, time, the fields above and source rules */}
+              <div className="flex flex-wrap items-center gap-2 pt-2 border-t border-slate-200/60">
+                {savedProfiles.length > 0 && (
+                  <>
+                    <select
+                      value={selectedProfileId}
+                      onChange={(e) => loadProfile(e.target.value)}
+                      disabled={isSubmitting}
+                      className="px-3 py-2 rounded-lg border border-slate-300/60 bg-white/70 text-xs font-medium focus:ring-2 focus:ring-cyan-400 outline-none cursor-pointer"
+                    >
+                      <option value="">Load a saved profile…</option>
+                      {savedProfiles.map(p => <option key={p.id} value={p.id}>{p.name}</option>)}
+                    </select>
+                    {selectedProfileId && (
+                      <button type="button" onClick={handleDeleteProfile} title="Delete saved profile" className="p-2 text-slate-400 hover:text-red-500">
+                        <Trash2 className="w-4 h-4" />
+                      </button>
+                    )}
+                  </>
+                )}
+                <input
+                  value={profileName}
+                  onChange={(e) => setProfileName(e.target.value)}
+                  disabled={isSubmitting}
+                  placeholder="Profile name"
+                  className="flex-1 min-w-[8rem] px-3 py-2 rounded-lg border border-slate-300/60 bg-white/70 text-xs focus:bg-white focus:ring-2 focus:ring-cyan-400 outline-none"
+                />
+                <button
+                  type="button"
+                  onClick={handleSaveProfile}
+                  disabled={isSubmitting || !profileName.trim()}
+                  className="flex items-center gap-1 text-xs font-semibold text-teal-600 hover:text-teal-800 disabled:text-slate-400 px-2 py-2"
+                >
+                  <Save className="w-4 h-4" />
+                  Save profile
+                </button>
+              </div>
+            </div>
+          )}
+        </div>
+
+        {/* Source Rules */}
+        <div className="rounded-xl border border-slate-300/60 bg-white/40">
+          <button
+            type="button"
+            onClick={() => setShowSources(!showSources)}
+            className="w-full flex items-center justify-between px-4 py-3 text-sm font-bold text-slate-700"
+          >
+            <span className="flex items-center gap-2">
+              <SlidersHorizontal className="w-4 h-4 text-cyan-500" />
+              Sources &amp; formats
+              {buildSources() && <span className="text-xs font-medium text-teal-600">(rules set)</span>}
+            </span>
+            {showSources ? <ChevronDown className="w-4 h-4" /> : <ChevronRight className="w-4 h-4" />}
+          </button>
+          {showSources && (
+            <div className="px-4 pb-4 space-y-4">
+              <div>
+                <label htmlFor="preferredDomains" className="block text-xs font-bold text-slate-600 mb-1">Preferred sites</label>
+                <input
+                  id="preferredDomains"
+                  value={preferredDomains}
+                  onChange={(e) => setPreferredDomains(e.target.value)}
+                  disabled={isSubmitting}
+                  placeholder="developer.mozilla.org, react.dev"
+                  className="w-full px-3 py-2 rounded-lg border border-slate-300/60 bg-white/70 text-sm focus:bg-white focus:ring-2 focus:ring-cyan-400 outline-none"
+                />
+                <label className="flex items-center gap-2 mt-2 text-xs text-slate-600 cursor-pointer select-none">
+                  <input type="checkbox" checked={onlyPreferredDomains} onChange={(e) => setOnlyPreferredDomains(e.target.checked)} disabled={isSubmitting} className="accent-teal-500" />
+                  Only use these sites
+                </label>
+              </div>
+              <div>
+                <label htmlFor="blockedDomains" className="block text-xs font-bold text-slate-600 mb-1">Blocked sites</label>
+                <input
+                  id="blockedDomains"
+                  value={blockedDomains}
+                  onChange={(e) => setBlockedDomains(e.target.value)}
+                  disabled={isSubmitting}
+                  placeholder="w3schools.com"
+                  className="w-full px-3 py-2 rounded-lg border border-slate-300/60 bg-white/70 text-sm focus:bg-white focus:ring-2 focus:ring-cyan-400 outline-none"
+                />
+                <p className="mt-1 text-xs text-slate-500">
+                  A path such as <code>react.dev/learn</code> narrows a rule to that section. Google Search results only reveal their site, so for those the rule applies to the whole site.
+                </p>
+              </div>
+              <div>
+                <div className="flex items-center justify-between mb-1">
+                  <span className="block text-xs font-bold text-slate-600">Preferred formats</span>
+                  <div className="flex gap-2 text-xs font-semibold">
+                    <button type="button" onClick={() => applyFormatPreset(['video'])} className="text-teal-600 hover:text-teal-800">Video only</button>
+                    <button type="button" onClick={() => applyFormatPreset(READING_FORMATS)} className="text-teal-600 hover:text-teal-800">Reading only</button>
+                  </div>
+                </div>
+                <div className="flex flex-wrap gap-2">
+                  {RESOURCE_KINDS.map(kind => (
+                    <button
+                      key={kind}
+                      type="button"
+                      onClick={() => toggleFormat(kind)}
+                      disabled={isSubmitting}
+                      className={`text-xs font-semibold px-2.5 py-1 rounded-full border transition-all ${
+                        preferredFormats.includes(kind) ? 'border-cyan-400 bg-cyan-50 text-cyan-700' : 'border-slate-200 bg-white text-slate-500 hover:border-cyan-300'
+                      }`}
+                    >
+                      {KIND_LABELS[kind]}
+                    </button>
+                  ))}
+                </div>
+                <label className="flex items-center gap-2 mt-2 text-xs text-slate-600 cursor-pointer select-none">
+                  <input type="checkbox" checked={onlyPreferredFormats} onChange={(e) => setOnlyPreferredFormats(e.target.checked)} disabled={isSubmitting} className="accent-teal-500" />
+                  Only these formats
+                </label>
+              </div>
+            </div>
+          )}
+        </div>
+
+        {/* Review Step */}
+        <label className="flex items-center gap-3 text-sm text-slate-700 font-medium cursor-pointer select-none">
+          <input
+            type="checkbox"
+            checked={reviewSyllabus}
+            onChange={(e) => setReviewSyllabus(e.target.checked)}
+            disabled={isSubmitting}
+            className="w-4 h-4 accent-teal-500"
+          />
+          <ClipboardList className="w-4 h-4 text-cyan-500" />
+          Review and edit the syllabus before resources are curated
+        </label>
+        <label className="flex items-center gap-3 text-sm text-slate-700 font-medium cursor-pointer select-none">
+          <input
+            type="checkbox"
+            checked={bypassCache}
+            onChange={(e) => setBypassCache(e.target.checked)}
+            disabled={isSubmitting}
+            className="w-4 h-4 accent-teal-500"
+          />
+          <DatabaseZap className="w-4 h-4 text-cyan-500" />
+          Search fresh resources for every topic (bypass cache)
+        </label>
+
         <div className="pt-4">
           <button
             type="submit"
@@ -121,6 +459,15 @@ const InputForm: React.FC<InputFormProps> = ({ onSubmit, isSubmitting }) => {
           </button>
         </div>
       </form>
+
+      {showAssessment && (
+        <AssessmentQuiz
+          goal={goal.trim()}
+          language={language.trim() || undefined}
+          onComplete={handleAssessmentComplete}
+          onClose={() => setShowAssessment(false)}
+        />
+      )}
     </div>
   );
 };
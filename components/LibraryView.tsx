@@ -0,0 +1,128 @@
+import React, { useState } from 'react';
+import { SavedCurriculum } from '../types';
+import { getUncuratedTopics } from '../services/curationScheduler';
+import { Library, FolderOpen, Pencil, Copy, Trash2, Check, X, Calendar, Hourglass } from 'lucide-react';
+
+interface LibraryViewProps {
+  entries: SavedCurriculum[];
+  onOpen: (entry: SavedCurriculum) => void;
+  onRename: (id: string, title: string) => void;
+  onDuplicate: (id: string) => void;
+  onDelete: (id: string) => void;
+}
+
+const LibraryView: React.FC<LibraryViewProps> = ({ entries, onOpen, onRename, onDuplicate, onDelete }) => {
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [draftTitle, setDraftTitle] = useState('');
+
+  const startRename = (entry: SavedCurriculum) => {
+    setEditingId(entry.curriculum.id);
+    setDraftTitle(entry.curriculum.title);
+  };
+
+  const commitRename = () => {
+    if (editingId && draftTitle.trim()) {
+      onRename(editingId, draftTitle.trim());
+    }
+    setEditingId(null);
+  };
+
+  const handleDelete = (entry: SavedCurriculum) => {
+    if (window.confirm(`Delete "${entry.curriculum.title}"? This cannot be undone.`)) {
+      onDelete(entry.curriculum.id);
+    }
+  };
+
+  if (entries.length === 0) {
+    return (
+      <div className="w-full max-w-4xl mx-auto bg-white/70 backdrop-blur-xl rounded-2xl shadow-xl border border-white/60 p-12 text-center">
+        <Library className="w-12 h-12 text-slate-300 mx-auto mb-4" />
+        <h2 className="text-xl font-bold text-slate-800 mb-2">Your library is empty</h2>
+        <p className="text-slate-500">Curricula you generate are saved here automatically.</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="w-full max-w-4xl mx-auto space-y-4">
+      {entries.map((entry) => {
+        const { curriculum } = entry;
+        const isEditing = editingId === curriculum.id;
+        const pendingCount = getUncuratedTopics(curriculum).length;
+
+        return (
+          <div
+            key={curriculum.id}
+            className="bg-white/80 backdrop-blur-md rounded-2xl shadow-lg border border-white/60 p-6 flex flex-col sm:flex-row sm:items-center gap-4"
+          >
+            <div className="flex-1 min-w-0">
+              {isEditing ? (
+                <div className="flex items-center gap-2 mb-1">
+                  <input
+                    autoFocus
+                    value={draftTitle}
+                    onChange={(e) => setDraftTitle(e.target.value)}
+                    onKeyDown={(e) => {
+                      if (e.key === 'Enter') commitRename();
+                      if (e.key === 'Escape') setEditingId(null);
+                    }}
+                    className="flex-1 px-3 py-1.5 rounded-lg border border-slate-300/60 bg-white focus:ring-2 focus:ring-cyan-400 outline-none text-lg font-bold text-slate-800"
+                  />
+                  <button onClick={commitRename} className="p-1.5 text-emerald-500 hover:bg-emerald-50 rounded-lg" aria-label="Save title">
+                    <Check className="w-5 h-5" />
+                  </button>
+                  <button onClick={() => setEditingId(null)} className="p-1.5 text-slate-400 hover:bg-slate-100 rounded-lg" aria-label="Cancel rename">
+                    <X className="w-5 h-5" />
+                  </button>
+                </div>
+              ) : (
+                <h3 className="text-lg font-bold text-slate-800 truncate mb-1">{curriculum.title}</h3>
+              )}
+              {curriculum.goal && (
+                <p className="text-sm text-slate-600 line-clamp-2 mb-2">{curriculum.goal}</p>
+              )}
+              <div className="flex items-center gap-4 text-xs text-slate-500 font-medium">
+                <span className="flex items-center gap-1">
+                  <Calendar className="w-3 h-3" />
+                  {new Date(curriculum.createdAt).toLocaleDateString()}
+                </span>
+                {pendingCount > 0 && (
+                  <span className="flex items-center gap-1 text-amber-600" title="Open to resume curation">
+                    <Hourglass className="w-3 h-3" />
+                    Incomplete ({pendingCount} topics left)
+                  </span>
+                )}
+                <div className="flex items-center gap-2 flex-1 max-w-[200px]">
+                  <div className="flex-1 bg-slate-200/60 rounded-full h-1.5 overflow-hidden">
+                    <div className="bg-teal-400 h-full rounded-full" style={{ width: `${entry.progress}%` }} />
+                  </div>
+                  <span className="text-teal-600 font-bold">{entry.progress}%</span>
+                </div>
+              </div>
+            </div>
+
+            <div className="flex items-center gap-1 shrink-0">
+              <button
+                onClick={() => onOpen(entry)}
+                className="flex items-center gap-1 bg-teal-400 hover:bg-teal-500 text-white px-3 py-2 rounded-lg font-medium text-sm transition-all shadow-sm"
+              >
+                <FolderOpen className="w-4 h-4" /> Open
+              </button>
+              <button onClick={() => startRename(entry)} className="p-2 text-slate-400 hover:text-cyan-600 hover:bg-cyan-50 rounded-lg transition-colors" aria-label="Rename">
+                <Pencil className="w-4 h-4" />
+              </button>
+              <button onClick={() => onDuplicate(curriculum.id)} className="p-2 text-slate-400 hover:text-cyan-600 hover:bg-cyan-50 rounded-lg transition-colors" aria-label="Duplicate">
+                <Copy className="w-4 h-4" />
+              </button>
+              <button onClick={() => handleDelete(entry)} className="p-2 text-slate-400 hover:text-red-500 hover:bg-red-50 rounded-lg transition-colors" aria-label="Delete">
+                <Trash2 className="w-4 h-4" />
+              </button>
+            </div>
+          </div>
+        );
+      })}
+    </div>
+  );
+};
+
+export default LibraryView;
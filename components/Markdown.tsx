@@ -0,0 +1,128 @@
+import React from 'react';
+
+// Renders the small subset of Markdown people write in notes: headings, lists, quotes, code,
+// bold, italics and links. Output is React elements, never raw HTML, so notes can't inject markup.
+
+const INLINE = /(`[^`]+`|\*\*[^*]+\*\*|\*[^*\s][^*]*\*|_[^_\s][^_]*_|\[[^\]]+\]\([^)\s]+\))/g;
+
+const isSafeUrl = (url: string) => /^(https?:|mailto:)/i.test(url);
+
+const renderInline = (text: string): React.ReactNode[] =>
+  text.split(INLINE).filter(Boolean).map((part, idx) => {
+    if (part.startsWith('`') && part.endsWith('`') && part.length > 2) {
+      return <code key={idx} className="px-1 py-0.5 rounded bg-slate-100 text-[0.85em] font-mono">{part.slice(1, -1)}</code>;
+    }
+    if (part.startsWith('**') && part.endsWith('**') && part.length > 4) {
+      return <strong key={idx}>{renderInline(part.slice(2, -2))}</strong>;
+    }
+    if ((part.startsWith('*') && part.endsWith('*')) || (part.startsWith('_') && part.endsWith('_'))) {
+      if (part.length > 2) return <em key={idx}>{renderInline(part.slice(1, -1))}</em>;
+    }
+    const link = part.match(/^\[([^\]]+)\]\(([^)\s]+)\)$/);
+    if (link && isSafeUrl(link[2])) {
+      return (
+        <a key={idx} href={link[2]} target="_blank" rel="noopener noreferrer" className="text-cyan-600 hover:underline">
+          {link[1]}
+        </a>
+      );
+    }
+    return <React.Fragment key={idx}>{part}</React.Fragment>;
+  });
+
+const HEADING_CLASSES = ['text-base font-bold', 'text-sm font-bold', 'text-sm font-semibold'];
+
+type Block =
+  | { kind: 'heading'; level: number; text: string }
+  | { kind: 'list'; ordered: boolean; items: string[] }
+  | { kind: 'quote'; lines: string[] }
+  | { kind: 'code'; lines: string[] }
+  | { kind: 'paragraph'; lines: string[] };
+
+const LIST_ITEM = /^\s*([-*+]|\d+[.)])\s+(.*)$/;
+
+const parseBlocks = (source: string): Block[] => {
+  const blocks: Block[] = [];
+  const lines = source.replace(/\r\n?/g, '\n').split('\n');
+  let i = 0;
+  while (i < lines.length) {
+    const line = lines[i];
+    if (!line.trim()) {
+      i++;
+      continue;
+    }
+    if (line.trim().startsWith('```')) {
+      const code: string[] = [];
+      i++;
+      while (i < lines.length && !lines[i].trim().startsWith('```')) code.push(lines[i++]);
+      i++; // Closing fence, if any
+      blocks.push({ kind: 'code', lines: code });
+      continue;
+    }
+    const heading = line.match(/^(#{1,6})\s+(.*)$/);
+    if (heading) {
+      blocks.push({ kind: 'heading', level: heading[1].length, text: heading[2] });
+      i++;
+      continue;
+    }
+    const item = line.match(LIST_ITEM);
+    if (item) {
+      const ordered = /\d/.test(item[1]);
+      const items: string[] = [];
+      let next: RegExpMatchArray | null;
+      while (i < lines.length && (next = lines[i].match(LIST_ITEM)) && /\d/.test(next[1]) === ordered) {
+        items.push(next[2]);
+        i++;
+      }
+      blocks.push({ kind: 'list', ordered, items });
+      continue;
+    }
+    if (line.startsWith('>')) {
+      const quote: string[] = [];
+      while (i < lines.length && lines[i].startsWith('>')) quote.push(lines[i++].replace(/^>\s?/, ''));
+      blocks.push({ kind: 'quote', lines: quote });
+      continue;
+    }
+    const paragraph: string[] = [];
+    while (
+      i < lines.length && lines[i].trim()
+      && !lines[i].trim().startsWith('```') && !/^#{1,6}\s/.test(lines[i]) && !LIST_ITEM.test(lines[i]) && !lines[i].startsWith('>')
+    ) {
+      paragraph.push(lines[i++]);
+    }
+    blocks.push({ kind: 'paragraph', lines: paragraph });
+  }
+  return blocks;
+};
+
+const withBreaks = (lines: string[]) =>
+  lines.map((line, idx) => (
+    <React.Fragment key={idx}>
+      {idx > 0 && <br />}
+      {renderInline(line)}
+    </React.Fragment>
+  ));
+
+const Markdown: React.FC<{ source: string; className?: string }> = ({ source, className = '' }) => (
+  <div className={`space-y-2 text-sm text-slate-700 leading-relaxed break-words ${className}`}>
+    {parseBlocks(source).map((block, idx) => {
+      switch (block.kind) {
+        case 'heading':
+          return <p key={idx} className={`${HEADING_CLASSES[Math.min(block.level, 3) - 1]} text-slate-800`}>{renderInline(block.text)}</p>;
+        case 'list': {
+          const items = block.items.map((text, iIdx) => <li key={iIdx}>{renderInline(text)}</li>);
+          return block.ordered
+            ? <ol key={idx} className="list-decimal pl-5 space-y-1">{items}</ol>
+            : <ul key={idx} className="list-disc pl-5 space-y-1">{items}</ul>;
+        }
+        case 'quote':
+          return <blockquote key={idx} className="border-l-4 border-slate-200 pl-3 text-slate-500">{withBreaks(block.lines)}</blockquote>;
+        case 'code':
+          return <pre key={idx} className="p-3 rounded-lg bg-slate-100 text-xs font-mono overflow-x-auto">{block.lines.join('\n')}</pre>;
+        case 'paragraph':
+          return <p key={idx}>{withBreaks(block.lines)}</p>;
+      }
+    })}
+  </div>
+);
+
+export default Markdown;
@@ -0,0 +1,87 @@
+import React, { useState, useEffect, useRef } from 'react';
+import Markdown from './Markdown';
+import { Check, Eye, Loader2, Pencil } from 'lucide-react';
+
+interface NoteEditorProps {
+  value: string;
+  onSave: (text: string) => void;
+  placeholder?: string;
+  rows?: number;
+  autoFocus?: boolean;
+}
+
+const AUTOSAVE_DELAY_MS = 800;
+
+// Markdown textarea with a preview toggle. Saves a moment after typing stops and when unmounted,
+// so switching topics never loses a note. Render with a key per note.
+const NoteEditor: React.FC<NoteEditorProps> = ({ value, onSave, placeholder, rows = 6, autoFocus }) => {
+  const [draft, setDraft] = useState(value);
+  const [previewing, setPreviewing] = useState(!!value.trim() && !autoFocus);
+  const [dirty, setDirty] = useState(false);
+  const timerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+  // Read by the unmount flush, which only sees the first render's closure
+  const pending = useRef<string | null>(null);
+  const onSaveRef = useRef(onSave);
+  onSaveRef.current = onSave;
+
+  const flush = () => {
+    if (timerRef.current) clearTimeout(timerRef.current);
+    timerRef.current = null;
+    if (pending.current !== null) {
+      onSaveRef.current(pending.current);
+      pending.current = null;
+      setDirty(false);
+    }
+  };
+
+  useEffect(() => () => {
+    if (timerRef.current) clearTimeout(timerRef.current);
+    if (pending.current !== null) onSaveRef.current(pending.current);
+  }, []);
+
+  const handleChange = (text: string) => {
+    setDraft(text);
+    setDirty(true);
+    pending.current = text;
+    if (timerRef.current) clearTimeout(timerRef.current);
+    timerRef.current = setTimeout(flush, AUTOSAVE_DELAY_MS);
+  };
+
+  return (
+    <div className="space-y-2">
+      {previewing ? (
+        <div
+          onClick={() => setPreviewing(false)}
+          className="min-h-[3rem] px-3 py-2 rounded-lg border border-slate-200 bg-white/60 cursor-text"
+          title="Click to edit"
+        >
+          {draft.trim() ? <Markdown source={draft} /> : <p className="text-sm text-slate-400">{placeholder}</p>}
+        </div>
+      ) : (
+        <textarea
+          value={draft}
+          onChange={(e) => handleChange(e.target.value)}
+          onBlur={flush}
+          rows={rows}
+          autoFocus={autoFocus}
+          placeholder={placeholder}
+          className="w-full px-3 py-2 rounded-lg border border-slate-300/60 bg-white/70 text-sm font-mono focus:ring-2 focus:ring-cyan-400 outline-none resize-y"
+        />
+      )}
+      <div className="flex items-center justify-between text-xs text-slate-400">
+        <span className="flex items-center gap-1">
+          {dirty ? <><Loader2 className="w-3 h-3 animate-spin" /> Saving...</> : <><Check className="w-3 h-3" /> Saved</>}
+          <span className="ml-2">Markdown supported</span>
+        </span>
+        <button
+          onClick={() => setPreviewing(!previewing)}
+          className="flex items-center gap-1 font-semibold text-slate-500 hover:text-cyan-600"
+        >
+          {previewing ? <><Pencil className="w-3 h-3" /> Edit</> : <><Eye className="w-3 h-3" /> Preview</>}
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default NoteEditor;
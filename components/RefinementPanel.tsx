@@ -0,0 +1,212 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { Curriculum, CurriculumPatch } from '../types';
+import { runRefinementAgent } from '../services/geminiService';
+import { applyPatch, describePatch, PatchDiffEntry } from '../services/curriculumPatch';
+import { UnparseableOutputError, isCancellation } from '../services/errors';
+import { MessageSquare, Send, Check, X, Loader2, Plus, Minus, PencilLine, Search } from 'lucide-react';
+
+interface RefinementPanelProps {
+  curriculum: Curriculum;
+  // Receives the patched curriculum; topics without curatedContent still need curating
+  onAccept: (updated: Curriculum) => void;
+}
+
+interface ChatMessage {
+  role: 'user' | 'agent';
+  text: string;
+  patch?: CurriculumPatch;
+  entries?: PatchDiffEntry[];
+  decision?: 'pending' | 'accepted' | 'rejected';
+}
+
+const EXAMPLES = [
+  'Make module 2 more hands-on',
+  'Add a topic on testing',
+  'I already know the basics, remove the intro topics'
+];
+
+const ENTRY_STYLES: Record<PatchDiffEntry['kind'], { icon: React.ReactNode; className: string }> = {
+  added: { icon: <Plus className="w-3 h-3" />, className: 'border-emerald-200 bg-emerald-50/60 text-emerald-700' },
+  removed: { icon: <Minus className="w-3 h-3" />, className: 'border-red-200 bg-red-50/60 text-red-700' },
+  changed: { icon: <PencilLine className="w-3 h-3" />, className: 'border-amber-200 bg-amber-50/60 text-amber-700' }
+};
+
+const DiffEntry: React.FC<{ entry: PatchDiffEntry }> = ({ entry }) => {
+  const style = ENTRY_STYLES[entry.kind];
+  return (
+    <div className={`rounded-lg border p-3 text-xs space-y-1 ${style.className}`}>
+      <div className="flex items-center gap-1 font-bold">
+        {style.icon}
+        <span className="uppercase tracking-wider">{entry.kind}</span>
+        <span className="text-slate-700 font-semibold normal-case">{entry.label}</span>
+        {entry.recurate && (
+          <span className="ml-auto flex items-center gap-1 text-cyan-600 font-medium" title="New resources will be curated">
+            <Search className="w-3 h-3" /> re-curate
+          </span>
+        )}
+      </div>
+      {entry.details.map((line, idx) => (
+        <p key={idx} className="text-slate-600">{line}</p>
+      ))}
+      {entry.changes.map((change, idx) => (
+        <div key={idx} className="text-slate-600">
+          <span className="font-semibold">{change.field}: </span>
+          <span className="line-through text-red-500/80">{change.before}</span>
+          {' → '}
+          <span className="text-emerald-700">{change.after}</span>
+        </div>
+      ))}
+    </div>
+  );
+};
+
+const RefinementPanel: React.FC<RefinementPanelProps> = ({ curriculum, onAccept }) => {
+  const [messages, setMessages] = useState<ChatMessage[]>([]);
+  const [draft, setDraft] = useState('');
+  const [isThinking, setIsThinking] = useState(false);
+  const abortRef = useRef<AbortController | null>(null);
+
+  // Drop the in-flight request when the panel goes away
+  useEffect(() => () => abortRef.current?.abort(), []);
+
+  const hasPending = messages.some(m => m.decision === 'pending');
+
+  const decide = (index: number, decision: 'accepted' | 'rejected') => {
+    const message = messages[index];
+    setMessages(prev => prev.map((m, i) => (i === index ? { ...m, decision } : m)));
+    if (decision === 'accepted' && message.patch) {
+      onAccept(applyPatch(curriculum, message.patch));
+    }
+  };
+
+  const send = async (instruction: string) => {
+    const text = instruction.trim();
+    if (!text || isThinking || hasPending) return;
+
+    const history = messages.filter(m => m.role === 'user').map(m => m.text);
+    setMessages(prev => [...prev, { role: 'user', text }]);
+    setDraft('');
+    setIsThinking(true);
+    const controller = new AbortController();
+    abortRef.current = controller;
+
+    try {
+      const patch = await runRefinementAgent(curriculum, text, { history, signal: controller.signal });
+      const agentMessage: ChatMessage = patch.operations.length > 0
+        ? { role: 'agent', text: patch.summary, patch, entries: describePatch(curriculum, patch), decision: 'pending' }
+        : { role: 'agent', text: patch.summary || 'No changes were needed for that request.' };
+      setMessages(prev => [...prev, agentMessage]);
+    } catch (error) {
+      if (isCancellation(error)) return;
+      console.error(error);
+      setMessages(prev => [...prev, {
+        role: 'agent',
+        text: error instanceof UnparseableOutputError && error.agent === 'refinement'
+          ? "I couldn't turn that into a valid change to this curriculum. Try naming the module or topic you mean."
+          : 'Something went wrong while contacting the model. Please try again.'
+      }]);
+    } finally {
+      setIsThinking(false);
+      abortRef.current = null;
+    }
+  };
+
+  return (
+    <div className="bg-white/80 backdrop-blur-md rounded-2xl shadow-lg border border-white/60 overflow-hidden">
+      <div className="p-6 border-b border-slate-100">
+        <h3 className="text-lg font-bold text-slate-800 flex items-center gap-2">
+          <MessageSquare className="w-5 h-5 text-cyan-500" />
+          Refine this curriculum
+        </h3>
+        <p className="text-sm text-slate-500 mt-1">
+          Describe what should change. You'll see the proposed edits before anything is applied, and your progress on unchanged topics is kept.
+        </p>
+      </div>
+
+      <div className="p-6 space-y-4 max-h-[60vh] overflow-y-auto">
+        {messages.length === 0 && (
+          <div className="flex flex-wrap gap-2">
+            {EXAMPLES.map(example => (
+              <button
+                key={example}
+                onClick={() => setDraft(example)}
+                className="text-xs px-3 py-1.5 rounded-full border border-cyan-200 text-cyan-700 bg-cyan-50/60 hover:bg-cyan-100 transition-colors"
+              >
+                {example}
+              </button>
+            ))}
+          </div>
+        )}
+
+        {messages.map((message, idx) => (
+          <div key={idx} className={`flex ${message.role === 'user' ? 'justify-end' : 'justify-start'}`}>
+            <div className={`max-w-[85%] rounded-2xl px-4 py-3 text-sm ${
+              message.role === 'user' ? 'bg-teal-400 text-white' : 'bg-slate-50 border border-slate-200 text-slate-700'
+            }`}>
+              <p>{message.text}</p>
+              {message.entries && (
+                <div className="mt-3 space-y-2">
+                  {message.entries.map((entry, eIdx) => <DiffEntry key={eIdx} entry={entry} />)}
+                </div>
+              )}
+              {message.decision === 'pending' && (
+                <div className="flex gap-2 mt-3">
+                  <button
+                    onClick={() => decide(idx, 'accepted')}
+                    className="flex items-center gap-1 bg-teal-400 hover:bg-teal-500 text-white px-3 py-1.5 rounded-lg font-medium text-xs transition-all shadow-sm"
+                  >
+                    <Check className="w-3 h-3" /> Accept
+                  </button>
+                  <button
+                    onClick={() => decide(idx, 'rejected')}
+                    className="flex items-center gap-1 bg-white hover:bg-slate-100 text-slate-600 border border-slate-200 px-3 py-1.5 rounded-lg font-medium text-xs transition-all"
+                  >
+                    <X className="w-3 h-3" /> Reject
+                  </button>
+                </div>
+              )}
+              {message.decision === 'accepted' && (
+                <p className="mt-2 text-xs font-semibold text-emerald-600">Applied.</p>
+              )}
+              {message.decision === 'rejected' && (
+                <p className="mt-2 text-xs font-semibold text-slate-400">Rejected.</p>
+              )}
+            </div>
+          </div>
+        ))}
+
+        {isThinking && (
+          <div className="flex items-center gap-2 text-sm text-slate-500">
+            <Loader2 className="w-4 h-4 animate-spin text-cyan-500" />
+            Refinement Agent is working on it...
+          </div>
+        )}
+      </div>
+
+      <form
+        onSubmit={(e) => {
+          e.preventDefault();
+          send(draft);
+        }}
+        className="p-4 border-t border-slate-100 flex gap-2"
+      >
+        <input
+          value={draft}
+          onChange={(e) => setDraft(e.target.value)}
+          disabled={isThinking || hasPending}
+          placeholder={hasPending ? 'Accept or reject the proposed changes first.' : 'e.g. Add a topic on testing'}
+          className="flex-1 px-4 py-2 rounded-lg border border-slate-300/60 bg-white/70 text-sm focus:bg-white focus:ring-2 focus:ring-cyan-400 outline-none transition-all disabled:opacity-60"
+        />
+        <button
+          type="submit"
+          disabled={!draft.trim() || isThinking || hasPending}
+          className="flex items-center gap-1 bg-teal-400 hover:bg-teal-500 disabled:bg-slate-400/50 disabled:cursor-not-allowed text-white px-4 py-2 rounded-lg font-medium text-sm transition-all shadow-sm"
+        >
+          <Send className="w-4 h-4" />
+        </button>
+      </form>
+    </div>
+  );
+};
+
+export default RefinementPanel;
@@ -0,0 +1,47 @@
+import React from 'react';
+import { ResourceKind, ResourceLink } from '../types';
+import { KIND_LABELS, getResourceKind, formatDuration } from '../services/resourceClassification';
+import { Youtube, FileText, Book, GraduationCap, MousePointerClick, GitBranch, BookOpen, Mic, Clock, Gauge } from 'lucide-react';
+
+export const KIND_STYLES: Record<ResourceKind, { icon: React.ReactNode; className: string }> = {
+  video: { icon: <Youtube className="w-3 h-3" />, className: 'text-red-500 bg-red-50' },
+  docs: { icon: <Book className="w-3 h-3" />, className: 'text-indigo-500 bg-indigo-50' },
+  course: { icon: <GraduationCap className="w-3 h-3" />, className: 'text-teal-600 bg-teal-50' },
+  interactive: { icon: <MousePointerClick className="w-3 h-3" />, className: 'text-fuchsia-500 bg-fuchsia-50' },
+  repository: { icon: <GitBranch className="w-3 h-3" />, className: 'text-slate-600 bg-slate-100' },
+  book: { icon: <BookOpen className="w-3 h-3" />, className: 'text-amber-600 bg-amber-50' },
+  podcast: { icon: <Mic className="w-3 h-3" />, className: 'text-purple-500 bg-purple-50' },
+  article: { icon: <FileText className="w-3 h-3" />, className: 'text-blue-500 bg-blue-50' }
+};
+
+const badgeClass = "flex items-center gap-1 text-[10px] font-bold uppercase tracking-wider px-2 py-0.5 rounded-full";
+
+// Kind, duration, cost and difficulty pills shown under each resource
+const ResourceBadges: React.FC<{ resource: ResourceLink }> = ({ resource }) => {
+  const kind = getResourceKind(resource);
+  const style = KIND_STYLES[kind];
+  return (
+    <>
+      <span className={`${badgeClass} ${style.className}`}>
+        {style.icon} {KIND_LABELS[kind]}
+      </span>
+      {resource.durationMinutes !== undefined && (
+        <span className={`${badgeClass} text-slate-500 bg-slate-100`}>
+          <Clock className="w-3 h-3" /> {formatDuration(resource.durationMinutes)}
+        </span>
+      )}
+      {resource.cost && (
+        <span className={`${badgeClass} ${resource.cost === 'free' ? 'text-emerald-600 bg-emerald-50' : resource.cost === 'paid' ? 'text-rose-600 bg-rose-50' : 'text-amber-600 bg-amber-50'}`}>
+          {resource.cost}
+        </span>
+      )}
+      {resource.difficulty && (
+        <span className={`${badgeClass} text-cyan-700 bg-cyan-50`}>
+          <Gauge className="w-3 h-3" /> {resource.difficulty}
+        </span>
+      )}
+    </>
+  );
+};
+
+export default ResourceBadges;
@@ -0,0 +1,169 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { Flashcard, ReviewRating, SavedCurriculum } from '../types';
+import { runFlashcardAgent } from '../services/geminiService';
+import {
+  getDueFlashcards,
+  listFlashcards,
+  addFlashcards,
+  recordReview,
+  scheduleReview,
+  findTopicsWithoutFlashcards
+} from '../services/flashcardService';
+import { isCancellation } from '../services/errors';
+import { Layers, Eye, PartyPopper, Sparkles, Loader2 } from 'lucide-react';
+
+interface ReviewViewProps {
+  entries: SavedCurriculum[]; // The library, for curriculum titles and completed topics
+  onCardsChange?: () => void; // After a rating or new cards, e.g. to refresh a due-count badge
+}
+
+const RATINGS: { rating: ReviewRating; label: string; className: string }[] = [
+  { rating: 'again', label: 'Again', className: 'bg-red-50 text-red-600 border-red-200 hover:bg-red-100' },
+  { rating: 'hard', label: 'Hard', className: 'bg-amber-50 text-amber-600 border-amber-200 hover:bg-amber-100' },
+  { rating: 'good', label: 'Good', className: 'bg-cyan-50 text-cyan-700 border-cyan-200 hover:bg-cyan-100' },
+  { rating: 'easy', label: 'Easy', className: 'bg-emerald-50 text-emerald-600 border-emerald-200 hover:bg-emerald-100' }
+];
+
+const formatInterval = (days: number) => (days === 1 ? 'tomorrow' : days < 30 ? `${days}d` : `${Math.round(days / 30)}mo`);
+
+// Daily review across every saved curriculum. The queue is taken once when the view opens;
+// cards created here are appended to it.
+const ReviewView: React.FC<ReviewViewProps> = ({ entries, onCardsChange }) => {
+  const [queue, setQueue] = useState<Flashcard[]>(() => getDueFlashcards());
+  const [position, setPosition] = useState(0);
+  const [revealed, setRevealed] = useState(false);
+  const [totalCards, setTotalCards] = useState(() => listFlashcards().length);
+  const [candidates, setCandidates] = useState(() => findTopicsWithoutFlashcards(entries));
+  const [generating, setGenerating] = useState<{ done: number; total: number } | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const abortRef = useRef<AbortController | null>(null);
+
+  useEffect(() => () => abortRef.current?.abort(), []);
+
+  const titles = new Map(entries.map(entry => [entry.curriculum.id, entry.curriculum.title]));
+  const card = queue[position];
+
+  const rate = (rating: ReviewRating) => {
+    if (!card) return;
+    recordReview(card.id, rating);
+    setRevealed(false);
+    setPosition(p => p + 1);
+    onCardsChange?.();
+  };
+
+  // One topic at a time; cards made before a failure or cancel are kept
+  const generateCards = async () => {
+    if (generating || candidates.length === 0) return;
+    const controller = new AbortController();
+    abortRef.current = controller;
+    setError(null);
+    setGenerating({ done: 0, total: candidates.length });
+    let failed = 0;
+    try {
+      for (const [index, { curriculum, topic }] of candidates.entries()) {
+        try {
+          const cards = await runFlashcardAgent(topic, { signal: controller.signal, language: curriculum.profile?.language });
+          const created = addFlashcards(curriculum.id, topic.id, topic.title, cards);
+          setQueue(prev => [...prev, ...created]);
+        } catch (e) {
+          if (isCancellation(e)) throw e;
+          console.error(e);
+          failed++;
+        }
+        setGenerating({ done: index + 1, total: candidates.length });
+      }
+      if (failed > 0) setError(`Couldn't create cards for ${failed} ${failed === 1 ? 'topic' : 'topics'}. Try again later.`);
+    } catch (e) {
+      if (!isCancellation(e)) throw e;
+    } finally {
+      setGenerating(null);
+      setCandidates(findTopicsWithoutFlashcards(entries));
+      setTotalCards(listFlashcards().length);
+      abortRef.current = null;
+      onCardsChange?.();
+    }
+  };
+
+  return (
+    <div className="max-w-2xl mx-auto space-y-6">
+      <div className="bg-white/80 backdrop-blur-md rounded-2xl shadow-lg border border-white/60 p-6 flex flex-col sm:flex-row sm:items-center gap-4">
+        <div className="flex-1">
+          <h2 className="text-lg font-bold text-slate-800 flex items-center gap-2">
+            <Layers className="w-5 h-5 text-cyan-500" />
+            Daily Review
+          </h2>
+          <p className="text-sm text-slate-500 font-medium mt-1">
+            {Math.max(0, queue.length - position)} due today · {totalCards} cards in total
+          </p>
+        </div>
+        {candidates.length > 0 && (
+          <button
+            onClick={generateCards}
+            disabled={!!generating}
+            className="flex items-center gap-2 bg-white/50 hover:bg-white/80 text-teal-600 hover:text-teal-800 px-4 py-2 rounded-lg font-medium text-sm transition-all border border-slate-200/60 shadow-sm disabled:opacity-60"
+          >
+            {generating ? <Loader2 className="w-4 h-4 animate-spin" /> : <Sparkles className="w-4 h-4" />}
+            {generating
+              ? `Creating cards ${generating.done}/${generating.total}...`
+              : `Create cards for ${candidates.length} completed ${candidates.length === 1 ? 'topic' : 'topics'}`}
+          </button>
+        )}
+      </div>
+
+      {error && (
+        <p className="text-sm text-red-600 bg-red-50/90 border border-red-200 rounded-xl px-4 py-3">{error}</p>
+      )}
+
+      {card ? (
+        <div className="bg-white/80 backdrop-blur-md rounded-2xl shadow-xl border border-white/60 overflow-hidden">
+          <div className="px-6 py-3 border-b border-slate-200/60 text-xs font-semibold text-slate-400 uppercase tracking-wider flex justify-between gap-4">
+            <span className="truncate">{titles.get(card.curriculumId) || 'Deleted curriculum'} · {card.topicTitle}</span>
+            <span className="shrink-0">{position + 1} / {queue.length}</span>
+          </div>
+          <div className="p-8 min-h-[12rem] flex flex-col justify-center gap-6">
+            <p className="text-xl font-bold text-slate-800 text-center">{card.front}</p>
+            {revealed && (
+              <p className="text-base text-slate-700 text-center border-t border-slate-200/60 pt-6">{card.back}</p>
+            )}
+          </div>
+          <div className="p-6 pt-0">
+            {revealed ? (
+              <div className="grid grid-cols-4 gap-2">
+                {RATINGS.map(({ rating, label, className }) => (
+                  <button
+                    key={rating}
+                    onClick={() => rate(rating)}
+                    className={`flex flex-col items-center py-2 rounded-lg border text-sm font-bold transition-all ${className}`}
+                  >
+                    {label}
+                    <span className="text-[10px] font-medium opacity-70">{formatInterval(scheduleReview(card, rating).interval)}</span>
+                  </button>
+                ))}
+              </div>
+            ) : (
+              <button
+                onClick={() => setRevealed(true)}
+                className="w-full flex items-center justify-center gap-2 bg-teal-400 hover:bg-teal-500 text-white py-3 rounded-lg font-medium text-sm shadow-sm transition-all"
+              >
+                <Eye className="w-4 h-4" />
+                Show answer
+              </button>
+            )}
+          </div>
+        </div>
+      ) : (
+        <div className="bg-white/80 backdrop-blur-md rounded-2xl shadow-lg border border-white/60 p-10 text-center">
+          <PartyPopper className="w-10 h-10 text-teal-400 mx-auto mb-3" />
+          <p className="font-bold text-slate-800">{position > 0 ? "All caught up for today!" : 'Nothing to review today.'}</p>
+          <p className="text-sm text-slate-500 mt-1">
+            {totalCards === 0
+              ? 'Cards are created from topics you have completed.'
+              : 'Come back tomorrow for the next cards.'}
+          </p>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ReviewView;
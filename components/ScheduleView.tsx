@@ -0,0 +1,159 @@
+import React, { useMemo } from 'react';
+import { Curriculum, CurriculumProgress, ScheduleSettings, Topic } from '../types';
+import { buildSchedule, getDefaultScheduleSettings, getScheduleStatus, startOfDay, addDays, toInputDate, fromInputDate } from '../services/scheduleService';
+import { getTopicCompletion } from '../services/progressService';
+import { toICS, downloadFile, toFileName } from '../services/exportService';
+import { CalendarDays, Clock, CalendarPlus, TrendingUp, TrendingDown, CheckCircle2, Circle } from 'lucide-react';
+
+interface ScheduleViewProps {
+  curriculum: Curriculum;
+  progress: CurriculumProgress;
+  onSettingsChange: (settings: ScheduleSettings) => void;
+  onSelectTopic: (topicId: string) => void;
+}
+
+const formatDate = (timestamp: number) =>
+  new Date(timestamp).toLocaleDateString(undefined, { month: 'short', day: 'numeric' });
+
+const ScheduleView: React.FC<ScheduleViewProps> = ({ curriculum, progress, onSettingsChange, onSelectTopic }) => {
+  const settings = curriculum.schedule || getDefaultScheduleSettings(curriculum);
+  const schedule = useMemo(() => buildSchedule(curriculum, settings), [curriculum, settings]);
+  const status = getScheduleStatus(curriculum, schedule, settings, progress);
+
+  const topicsById = useMemo(() => {
+    const map = new Map<string, Topic>();
+    curriculum.modules.forEach(mod => mod.topics.forEach(t => map.set(t.id, t)));
+    return map;
+  }, [curriculum]);
+
+  const today = startOfDay(Date.now());
+  const weeksOff = Math.abs(status.deltaWeeks).toFixed(1);
+
+  const statusBadge = {
+    'ahead': { className: 'bg-emerald-50 text-emerald-600 border-emerald-200', icon: <TrendingUp className="w-4 h-4" />, label: `Ahead by ${weeksOff} weeks` },
+    'behind': { className: 'bg-red-50 text-red-600 border-red-200', icon: <TrendingDown className="w-4 h-4" />, label: `Behind by ${weeksOff} weeks` },
+    'on-track': { className: 'bg-cyan-50 text-cyan-600 border-cyan-200', icon: <CheckCircle2 className="w-4 h-4" />, label: 'On track' },
+    'not-started': { className: 'bg-slate-50 text-slate-500 border-slate-200', icon: <CalendarDays className="w-4 h-4" />, label: `Starts ${formatDate(settings.startDate)}` },
+    'complete': { className: 'bg-emerald-50 text-emerald-600 border-emerald-200', icon: <CheckCircle2 className="w-4 h-4" />, label: 'Complete' }
+  }[status.state];
+
+  const finishDate = schedule.weeks.length > 0 ? schedule.weeks[schedule.weeks.length - 1].end : settings.startDate;
+  // Last millisecond of the learner's target day (see LearnerProfile.deadline)
+  const deadline = curriculum.profile?.deadline !== undefined ? addDays(curriculum.profile.deadline, 1) - 1 : undefined;
+
+  return (
+    <div className="bg-white/80 backdrop-blur-md rounded-2xl shadow-xl border border-white/60 overflow-hidden">
+      {/* Settings and summary */}
+      <div className="p-6 border-b border-slate-200/60 bg-slate-50/30 flex flex-col md:flex-row md:items-end gap-4">
+        <div className="flex-1">
+          <h2 className="text-lg font-bold text-slate-800 flex items-center gap-2">
+            <CalendarDays className="w-5 h-5 text-cyan-500" />
+            Study Schedule
+          </h2>
+          <p className="text-sm text-slate-500 font-medium mt-1">
+            {Math.round(schedule.totalHours)} hours over {schedule.weeks.length} weeks — finish by {new Date(finishDate - 1).toLocaleDateString()}
+          </p>
+          {deadline !== undefined && (
+            <p className={`text-xs font-semibold mt-1 ${finishDate - 1 > deadline ? 'text-red-500' : 'text-emerald-600'}`}>
+              Your target is {new Date(deadline).toLocaleDateString()}
+              {finishDate - 1 > deadline ? ' — add hours per week or start earlier to make it' : ' — on schedule to make it'}
+            </p>
+          )}
+        </div>
+
+        <label className="text-xs font-bold text-slate-600">
+          Start date
+          <input
+            type="date"
+            value={toInputDate(settings.startDate)}
+            onChange={(e) => e.target.value && onSettingsChange({ ...settings, startDate: fromInputDate(e.target.value) })}
+            className="block mt-1 px-3 py-2 rounded-lg border border-slate-300/60 bg-white/70 text-sm font-medium focus:ring-2 focus:ring-cyan-400 outline-none"
+          />
+        </label>
+        <label className="text-xs font-bold text-slate-600">
+          Hours / week
+          <input
+            type="number"
+            min={0.5}
+            step={0.5}
+            value={settings.hoursPerWeek}
+            onChange={(e) => {
+              const value = Number(e.target.value);
+              if (value > 0) onSettingsChange({ ...settings, hoursPerWeek: value });
+            }}
+            className="block mt-1 w-24 px-3 py-2 rounded-lg border border-slate-300/60 bg-white/70 text-sm font-medium focus:ring-2 focus:ring-cyan-400 outline-none"
+          />
+        </label>
+
+        <span className={`flex items-center gap-1 text-xs font-semibold px-3 py-2 rounded-full border ${statusBadge.className}`}>
+          {statusBadge.icon} {statusBadge.label}
+        </span>
+
+        <button
+          onClick={() => downloadFile(toFileName(curriculum.title, 'ics'), toICS(curriculum, schedule), 'text/calendar')}
+          className="flex items-center gap-2 bg-white/50 hover:bg-white/80 text-teal-600 hover:text-teal-800 px-4 py-2 rounded-lg font-medium text-sm transition-all border border-slate-200/60 shadow-sm"
+        >
+          <CalendarPlus className="w-4 h-4" />
+          Export .ics
+        </button>
+      </div>
+
+      {/* Module milestones */}
+      <div className="px-6 py-4 border-b border-slate-200/60 flex flex-wrap gap-2">
+        {curriculum.modules.map((mod, mIdx) => (
+          <span key={mIdx} className="text-xs font-medium px-2 py-1 rounded-lg bg-cyan-50 text-cyan-700 border border-cyan-100">
+            Module {mIdx + 1} done by {schedule.moduleEndDates[mIdx] ? formatDate(schedule.moduleEndDates[mIdx] - 1) : '—'}
+          </span>
+        ))}
+      </div>
+
+      {/* Timeline */}
+      <div className="p-6 space-y-4 max-h-[600px] overflow-y-auto">
+        {schedule.weeks.map(week => {
+          const isCurrent = today >= week.start && today < week.end;
+          const isPast = today >= week.end;
+          return (
+            <div key={week.index} className="flex gap-4">
+              <div className="w-28 shrink-0 pt-1">
+                <div className={`text-sm font-bold ${isCurrent ? 'text-teal-600' : 'text-slate-700'}`}>
+                  Week {week.index + 1}
+                  {isCurrent && <span className="ml-1 text-[10px] uppercase tracking-wider">(now)</span>}
+                </div>
+                <div className="text-xs text-slate-400">{formatDate(week.start)} – {formatDate(week.end - 1)}</div>
+              </div>
+              <div className={`flex-1 space-y-2 border-l-2 pl-4 ${isCurrent ? 'border-teal-400' : 'border-slate-200'}`}>
+                {week.items.map((item, idx) => {
+                  const topic = topicsById.get(item.topicId);
+                  const completion = topic ? getTopicCompletion(progress, topic) : 0;
+                  const isDone = completion >= 1;
+                  const isLate = isPast && !isDone;
+                  return (
+                    <button
+                      key={`${item.topicId}-${idx}`}
+                      onClick={() => onSelectTopic(item.topicId)}
+                      className={`w-full flex items-center gap-3 p-3 rounded-lg border text-left transition-all hover:border-cyan-300 ${
+                        isDone ? 'bg-emerald-50/40 border-emerald-100' : isLate ? 'bg-red-50/40 border-red-100' : 'bg-white border-slate-200'
+                      }`}
+                    >
+                      {isDone ? <CheckCircle2 className="w-4 h-4 text-emerald-500 shrink-0" /> : <Circle className="w-4 h-4 text-slate-300 shrink-0" />}
+                      <span className="w-6 h-6 flex items-center justify-center bg-cyan-100 text-cyan-700 rounded text-xs font-bold shrink-0">
+                        {item.moduleIndex + 1}
+                      </span>
+                      <span className="flex-1 text-sm font-medium text-slate-700 truncate">{item.title}</span>
+                      <span className="text-xs text-slate-400">{Math.round(completion * 100)}%</span>
+                      <span className="flex items-center gap-1 text-xs text-slate-500 shrink-0">
+                        <Clock className="w-3 h-3" /> {Number(item.hours.toFixed(1))}h
+                      </span>
+                    </button>
+                  );
+                })}
+              </div>
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
+
+export default ScheduleView;
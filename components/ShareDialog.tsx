@@ -0,0 +1,118 @@
+import React, { useState, useEffect } from 'react';
+import { Curriculum, CurriculumProgress } from '../types';
+import { createShareLink, ShareResult, MAX_SHARE_URL_LENGTH } from '../services/shareService';
+import { downloadFile } from '../services/exportService';
+import { Share2, X, Copy, Check, Download, Loader2 } from 'lucide-react';
+
+interface ShareDialogProps {
+  curriculum: Curriculum;
+  progress: CurriculumProgress;
+  onClose: () => void;
+}
+
+const ShareDialog: React.FC<ShareDialogProps> = ({ curriculum, progress, onClose }) => {
+  const [includeProgress, setIncludeProgress] = useState(true);
+  const [result, setResult] = useState<ShareResult | null>(null);
+  const [copied, setCopied] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    setResult(null);
+    setCopied(false);
+    setError(null);
+    createShareLink(curriculum, { progress: includeProgress ? progress : undefined })
+      .then(next => { if (!cancelled) setResult(next); })
+      .catch(e => {
+        console.error(e);
+        if (!cancelled) setError('This browser cannot create share links. Use Export > JSON document instead.');
+      });
+    return () => { cancelled = true; };
+  }, [curriculum, progress, includeProgress]);
+
+  const copyLink = async (url: string) => {
+    try {
+      await navigator.clipboard.writeText(url);
+      setCopied(true);
+    } catch {
+      setError("Couldn't copy automatically. Select the link and copy it instead.");
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-slate-900/30 backdrop-blur-sm p-4">
+      <div className="w-full max-w-lg bg-white/95 backdrop-blur-xl rounded-2xl shadow-xl border border-white/60 overflow-hidden">
+        <div className="flex items-center justify-between p-6 border-b border-slate-200/60">
+          <h2 className="text-xl font-bold text-slate-800 flex items-center gap-2">
+            <Share2 className="w-5 h-5 text-cyan-500" />
+            Share Curriculum
+          </h2>
+          <button onClick={onClose} className="p-1.5 text-slate-400 hover:bg-slate-100 rounded-lg" aria-label="Close">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="p-6 space-y-4">
+          <p className="text-sm text-slate-600">
+            Anyone with the link can view this curriculum read-only and save a copy to their own library.
+            Everything is stored in the link itself; nothing is uploaded.
+          </p>
+
+          <label className="flex items-center gap-2 text-sm text-slate-600 cursor-pointer select-none">
+            <input
+              type="checkbox"
+              checked={includeProgress}
+              onChange={(e) => setIncludeProgress(e.target.checked)}
+              className="accent-teal-500"
+            />
+            Include my progress
+          </label>
+
+          {!result && !error && (
+            <p className="flex items-center gap-2 text-sm text-slate-500">
+              <Loader2 className="w-4 h-4 animate-spin" /> Preparing link...
+            </p>
+          )}
+
+          {result?.kind === 'link' && (
+            <div className="flex gap-2">
+              <input
+                value={result.url}
+                readOnly
+                onFocus={(e) => e.target.select()}
+                className="flex-1 min-w-0 px-3 py-2 rounded-lg border border-slate-300/60 bg-white/70 text-xs font-mono text-slate-600 outline-none focus:ring-2 focus:ring-cyan-400"
+              />
+              <button
+                onClick={() => copyLink(result.url)}
+                className="flex items-center gap-2 bg-teal-400 hover:bg-teal-500 text-white px-4 py-2 rounded-lg font-medium text-sm shadow-sm transition-all"
+              >
+                {copied ? <Check className="w-4 h-4" /> : <Copy className="w-4 h-4" />}
+                {copied ? 'Copied' : 'Copy link'}
+              </button>
+            </div>
+          )}
+
+          {result?.kind === 'file' && (
+            <div className="space-y-3">
+              <p className="text-sm text-amber-800 bg-amber-50/90 border border-amber-200 rounded-lg px-3 py-2">
+                This curriculum is too large for a link ({result.urlLength.toLocaleString()} characters; links are kept under {MAX_SHARE_URL_LENGTH.toLocaleString()}).
+                {includeProgress && ' Leaving out your progress may make it fit.'} Send the file instead; it opens with "Import JSON" in the library.
+              </p>
+              <button
+                onClick={() => downloadFile(result.fileName, result.content, 'application/json')}
+                className="flex items-center gap-2 bg-teal-400 hover:bg-teal-500 text-white px-4 py-2 rounded-lg font-medium text-sm shadow-sm transition-all"
+              >
+                <Download className="w-4 h-4" />
+                Download file
+              </button>
+            </div>
+          )}
+
+          {error && <p className="text-xs text-red-600">{error}</p>}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ShareDialog;
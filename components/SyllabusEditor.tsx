@@ -0,0 +1,299 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { Curriculum } from '../types';
+import {
+  addModule,
+  renameModule,
+  deleteModule,
+  moveModule,
+  addTopic,
+  updateTopic,
+  deleteTopic,
+  moveTopic,
+  getSyllabusProblems
+} from '../services/syllabusEditing';
+import { GripVertical, Plus, Trash2, Undo2, Redo2, ChevronUp, ChevronDown, CheckCircle2, X, ClipboardList } from 'lucide-react';
+
+interface SyllabusEditorProps {
+  initialCurriculum: Curriculum;
+  onApprove: (curriculum: Curriculum) => void;
+  onCancel: () => void;
+}
+
+interface History {
+  past: Curriculum[];
+  present: Curriculum;
+  future: Curriculum[];
+  lastKey?: string; // Consecutive edits with the same key (typing in one field) share one undo step
+}
+
+type DragItem = { type: 'topic'; topicId: string } | { type: 'module'; index: number };
+
+const MAX_HISTORY = 100;
+
+const inputClass = "w-full px-3 py-2 rounded-lg border border-slate-300/60 bg-white/70 text-sm focus:bg-white focus:ring-2 focus:ring-cyan-400 outline-none transition-all";
+
+const SyllabusEditor: React.FC<SyllabusEditorProps> = ({ initialCurriculum, onApprove, onCancel }) => {
+  const [history, setHistory] = useState<History>({ past: [], present: initialCurriculum, future: [] });
+  const [dragging, setDragging] = useState<DragItem | null>(null);
+  const [dropTarget, setDropTarget] = useState<string | null>(null);
+  const curriculum = history.present;
+
+  const apply = (next: Curriculum, key?: string) => {
+    setHistory(prev => {
+      if (key && prev.lastKey === key) {
+        return { ...prev, present: next };
+      }
+      return {
+        past: [...prev.past, prev.present].slice(-MAX_HISTORY),
+        present: next,
+        future: [],
+        lastKey: key
+      };
+    });
+  };
+
+  const undo = () => setHistory(prev => prev.past.length === 0 ? prev : {
+    past: prev.past.slice(0, -1),
+    present: prev.past[prev.past.length - 1],
+    future: [prev.present, ...prev.future]
+  });
+
+  const redo = () => setHistory(prev => prev.future.length === 0 ? prev : {
+    past: [...prev.past, prev.present],
+    present: prev.future[0],
+    future: prev.future.slice(1)
+  });
+
+  // Ctrl/Cmd+Z and Ctrl/Cmd+Shift+Z outside of text fields (those keep native text undo)
+  const undoRef = useRef(undo);
+  const redoRef = useRef(redo);
+  undoRef.current = undo;
+  redoRef.current = redo;
+  useEffect(() => {
+    const onKeyDown = (e: KeyboardEvent) => {
+      const target = e.target as HTMLElement;
+      if (target.tagName === 'INPUT' || target.tagName === 'TEXTAREA') return;
+      if ((e.metaKey || e.ctrlKey) && e.key.toLowerCase() === 'z') {
+        e.preventDefault();
+        if (e.shiftKey) {
+          redoRef.current();
+        } else {
+          undoRef.current();
+        }
+      }
+    };
+    window.addEventListener('keydown', onKeyDown);
+    return () => window.removeEventListener('keydown', onKeyDown);
+  }, []);
+
+  const problems = getSyllabusProblems(curriculum);
+
+  // --- Drag and drop ---
+
+  const handleDrop = (e: React.DragEvent, moduleIndex: number, topicIndex?: number) => {
+    e.preventDefault();
+    e.stopPropagation();
+    if (!dragging) return;
+    if (dragging.type === 'topic') {
+      const toIndex = topicIndex ?? curriculum.modules[moduleIndex].topics.length;
+      apply(moveTopic(curriculum, dragging.topicId, moduleIndex, toIndex));
+    } else if (dragging.index !== moduleIndex) {
+      apply(moveModule(curriculum, dragging.index, moduleIndex));
+    }
+    setDragging(null);
+    setDropTarget(null);
+  };
+
+  const allowDrop = (e: React.DragEvent, target: string) => {
+    e.preventDefault();
+    e.stopPropagation();
+    if (dropTarget !== target) setDropTarget(target);
+  };
+
+  return (
+    <div className="w-full max-w-4xl mx-auto space-y-6">
+      {/* Header */}
+      <div className="bg-white/80 backdrop-blur-md rounded-2xl shadow-lg border border-white/60 p-6 space-y-4">
+        <div className="flex items-start justify-between gap-4">
+          <div>
+            <div className="flex items-center gap-2 text-cyan-600 text-xs font-bold tracking-wider uppercase mb-2">
+              <ClipboardList className="w-4 h-4" /> Review Syllabus
+            </div>
+            <p className="text-sm text-slate-600">
+              Adjust the plan before the Curator Agent starts searching. Drag topics and modules to reorder them.
+            </p>
+          </div>
+          <div className="flex items-center gap-1 shrink-0">
+            <button onClick={undo} disabled={history.past.length === 0} className="p-2 text-slate-500 hover:text-cyan-600 hover:bg-cyan-50 rounded-lg disabled:opacity-30 disabled:cursor-not-allowed" aria-label="Undo" title="Undo (Ctrl+Z)">
+              <Undo2 className="w-4 h-4" />
+            </button>
+            <button onClick={redo} disabled={history.future.length === 0} className="p-2 text-slate-500 hover:text-cyan-600 hover:bg-cyan-50 rounded-lg disabled:opacity-30 disabled:cursor-not-allowed" aria-label="Redo" title="Redo (Ctrl+Shift+Z)">
+              <Redo2 className="w-4 h-4" />
+            </button>
+          </div>
+        </div>
+        <input
+          value={curriculum.title}
+          onChange={(e) => apply({ ...curriculum, title: e.target.value }, 'title')}
+          className={`${inputClass} text-xl font-bold text-slate-800`}
+          aria-label="Curriculum title"
+        />
+        <textarea
+          value={curriculum.description}
+          onChange={(e) => apply({ ...curriculum, description: e.target.value }, 'description')}
+          rows={2}
+          className={`${inputClass} resize-none`}
+          aria-label="Curriculum description"
+        />
+      </div>
+
+      {/* Modules */}
+      {curriculum.modules.map((mod, mIdx) => (
+        <div
+          key={mIdx}
+          onDragOver={(e) => allowDrop(e, `module-${mIdx}`)}
+          onDrop={(e) => handleDrop(e, mIdx)}
+          className={`bg-white/80 backdrop-blur-md rounded-2xl shadow-lg border p-4 space-y-3 transition-colors ${
+            dropTarget === `module-${mIdx}` ? 'border-cyan-300 ring-2 ring-cyan-100' : 'border-white/60'
+          }`}
+        >
+          <div className="flex items-center gap-2">
+            <span
+              draggable
+              onDragStart={() => setDragging({ type: 'module', index: mIdx })}
+              onDragEnd={() => { setDragging(null); setDropTarget(null); }}
+              className="cursor-grab text-slate-400 hover:text-slate-600"
+              title="Drag to reorder module"
+            >
+              <GripVertical className="w-5 h-5" />
+            </span>
+            <span className="w-6 h-6 flex items-center justify-center bg-cyan-100 text-cyan-700 rounded text-xs font-bold shrink-0">
+              {mIdx + 1}
+            </span>
+            <input
+              value={mod.title}
+              onChange={(e) => apply(renameModule(curriculum, mIdx, e.target.value), `module-${mIdx}-title`)}
+              className={`${inputClass} font-semibold`}
+              aria-label={`Module ${mIdx + 1} title`}
+            />
+            <button onClick={() => apply(moveModule(curriculum, mIdx, mIdx - 1))} disabled={mIdx === 0} className="p-1.5 text-slate-400 hover:text-cyan-600 disabled:opacity-30" aria-label="Move module up">
+              <ChevronUp className="w-4 h-4" />
+            </button>
+            <button onClick={() => apply(moveModule(curriculum, mIdx, mIdx + 1))} disabled={mIdx === curriculum.modules.length - 1} className="p-1.5 text-slate-400 hover:text-cyan-600 disabled:opacity-30" aria-label="Move module down">
+              <ChevronDown className="w-4 h-4" />
+            </button>
+            <button onClick={() => apply(deleteModule(curriculum, mIdx))} className="p-1.5 text-slate-400 hover:text-red-500" aria-label="Delete module">
+              <Trash2 className="w-4 h-4" />
+            </button>
+          </div>
+
+          <div className="space-y-2 pl-7">
+            {mod.topics.map((topic, tIdx) => (
+              <div
+                key={topic.id}
+                draggable
+                onDragStart={(e) => {
+                  e.stopPropagation();
+                  setDragging({ type: 'topic', topicId: topic.id });
+                }}
+                onDragEnd={() => { setDragging(null); setDropTarget(null); }}
+                onDragOver={(e) => dragging?.type === 'topic' && allowDrop(e, topic.id)}
+                onDrop={(e) => dragging?.type === 'topic' && handleDrop(e, mIdx, tIdx)}
+                className={`flex gap-2 p-3 rounded-xl border bg-white transition-all ${
+                  dropTarget === topic.id ? 'border-cyan-400 border-t-4' : 'border-slate-200'
+                } ${dragging?.type === 'topic' && dragging.topicId === topic.id ? 'opacity-40' : ''}`}
+              >
+                <span className="cursor-grab text-slate-300 hover:text-slate-500 pt-2" title="Drag to move topic">
+                  <GripVertical className="w-4 h-4" />
+                </span>
+                <div className="flex-1 space-y-2">
+                  <div className="flex gap-2">
+                    <input
+                      value={topic.title}
+                      onChange={(e) => apply(updateTopic(curriculum, topic.id, { title: e.target.value }), `${topic.id}-title`)}
+                      placeholder="Topic title"
+                      className={`${inputClass} font-medium`}
+                      aria-label="Topic title"
+                    />
+                    <input
+                      type="number"
+                      min={0.5}
+                      step={0.5}
+                      value={topic.estimatedHours ?? ''}
+                      onChange={(e) => apply(updateTopic(curriculum, topic.id, { estimatedHours: e.target.value ? Number(e.target.value) : undefined }), `${topic.id}-hours`)}
+                      placeholder="Hours"
+                      className={`${inputClass} w-24`}
+                      aria-label="Estimated hours"
+                    />
+                  </div>
+                  <textarea
+                    value={topic.description}
+                    onChange={(e) => apply(updateTopic(curriculum, topic.id, { description: e.target.value }), `${topic.id}-description`)}
+                    placeholder="What will be learned"
+                    rows={2}
+                    className={`${inputClass} resize-none`}
+                    aria-label="Topic description"
+                  />
+                  <textarea
+                    value={topic.actionableStep}
+                    onChange={(e) => apply(updateTopic(curriculum, topic.id, { actionableStep: e.target.value }), `${topic.id}-step`)}
+                    placeholder="Actionable step"
+                    rows={2}
+                    className={`${inputClass} resize-none bg-cyan-50/40`}
+                    aria-label="Actionable step"
+                  />
+                </div>
+                <div className="flex flex-col gap-1">
+                  <button onClick={() => apply(moveTopic(curriculum, topic.id, mIdx, tIdx - 1))} disabled={tIdx === 0} className="p-1 text-slate-400 hover:text-cyan-600 disabled:opacity-30" aria-label="Move topic up">
+                    <ChevronUp className="w-4 h-4" />
+                  </button>
+                  <button onClick={() => apply(moveTopic(curriculum, topic.id, mIdx, tIdx + 2))} disabled={tIdx === mod.topics.length - 1} className="p-1 text-slate-400 hover:text-cyan-600 disabled:opacity-30" aria-label="Move topic down">
+                    <ChevronDown className="w-4 h-4" />
+                  </button>
+                  <button onClick={() => apply(deleteTopic(curriculum, topic.id))} className="p-1 text-slate-400 hover:text-red-500" aria-label="Delete topic">
+                    <Trash2 className="w-4 h-4" />
+                  </button>
+                </div>
+              </div>
+            ))}
+            <button
+              onClick={() => apply(addTopic(curriculum, mIdx))}
+              className="flex items-center gap-1 text-xs font-semibold text-teal-600 hover:text-teal-800 px-2 py-1"
+            >
+              <Plus className="w-3 h-3" /> Add topic
+            </button>
+          </div>
+        </div>
+      ))}
+
+      <button
+        onClick={() => apply(addModule(curriculum))}
+        className="w-full flex items-center justify-center gap-2 py-3 rounded-xl border-2 border-dashed border-slate-300 text-slate-500 hover:border-cyan-300 hover:text-cyan-600 transition-colors font-medium text-sm"
+      >
+        <Plus className="w-4 h-4" /> Add module
+      </button>
+
+      {/* Footer */}
+      <div className="sticky bottom-4 bg-white/90 backdrop-blur-md rounded-2xl shadow-xl border border-white/60 p-4 flex flex-col sm:flex-row sm:items-center gap-3">
+        <div className="flex-1 text-xs text-red-600">
+          {problems.slice(0, 2).join(' ')}
+        </div>
+        <button
+          onClick={onCancel}
+          className="flex items-center justify-center gap-1 px-4 py-2 rounded-lg font-medium text-sm text-slate-600 hover:bg-slate-100 transition-all"
+        >
+          <X className="w-4 h-4" /> Cancel
+        </button>
+        <button
+          onClick={() => onApprove(curriculum)}
+          disabled={problems.length > 0}
+          className="flex items-center justify-center gap-2 bg-teal-400 hover:bg-teal-500 disabled:bg-slate-400/50 disabled:cursor-not-allowed text-white px-5 py-2 rounded-lg font-bold text-sm shadow-lg shadow-teal-400/30 transition-all"
+        >
+          <CheckCircle2 className="w-4 h-4" /> Approve & start curation
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default SyllabusEditor;
@@ -0,0 +1,208 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { QuizScore, Topic, TopicQuiz } from '../types';
+import { runQuizAgent } from '../services/geminiService';
+import { isAnswerCorrect, QUIZ_PASS_SCORE } from '../services/topicQuiz';
+import { isCancellation } from '../services/errors';
+import { HelpCircle, Loader2, CheckCircle2, XCircle, RotateCcw, Sparkles } from 'lucide-react';
+
+interface TopicQuizPanelProps {
+  topic: Topic;
+  score?: QuizScore;
+  language?: string;
+  onQuizChange?: (quiz: TopicQuiz) => void; // Without it the quiz can be taken but not (re)generated
+  onScore: (score: number) => void; // Called once per attempt, after the last question, 0 to 1
+}
+
+interface GivenAnswer {
+  value: number | string;
+  correct: boolean;
+}
+
+const percent = (score: number) => `${Math.round(score * 100)}%`;
+
+// Self-check for the selected topic. Each answer is marked straight away with its explanation;
+// the score is recorded when the last question is answered. Render with key={topic.id}.
+const TopicQuizPanel: React.FC<TopicQuizPanelProps> = ({ topic, score, language, onQuizChange, onScore }) => {
+  const quiz = topic.quiz;
+  const [answers, setAnswers] = useState<Record<number, GivenAnswer>>({});
+  const [drafts, setDrafts] = useState<Record<number, string>>({});
+  const [isGenerating, setIsGenerating] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const abortRef = useRef<AbortController | null>(null);
+
+  useEffect(() => () => abortRef.current?.abort(), []);
+
+  // A new set of questions starts a new attempt
+  useEffect(() => {
+    setAnswers({});
+    setDrafts({});
+  }, [quiz?.createdAt]);
+
+  const generate = async () => {
+    if (!onQuizChange || isGenerating) return;
+    setIsGenerating(true);
+    setError(null);
+    const controller = new AbortController();
+    abortRef.current = controller;
+    try {
+      onQuizChange(await runQuizAgent(topic, { signal: controller.signal, language }));
+    } catch (e) {
+      if (isCancellation(e)) return;
+      console.error(e);
+      setError("Couldn't write a quiz for this topic. Please try again.");
+    } finally {
+      setIsGenerating(false);
+      abortRef.current = null;
+    }
+  };
+
+  const answer = (index: number, value: number | string) => {
+    if (!quiz || answers[index]) return;
+    const next = { ...answers, [index]: { value, correct: isAnswerCorrect(quiz.questions[index], value) } };
+    setAnswers(next);
+    const given = Object.values<GivenAnswer>(next);
+    if (given.length === quiz.questions.length) {
+      onScore(given.filter(a => a.correct).length / quiz.questions.length);
+    }
+  };
+
+  const answeredCount = Object.keys(answers).length;
+  const finished = !!quiz && answeredCount === quiz.questions.length;
+  const correctCount = Object.values<GivenAnswer>(answers).filter(a => a.correct).length;
+
+  return (
+    <div>
+      <div className="flex items-center justify-between mb-4">
+        <h3 className="text-lg font-bold text-slate-800 flex items-center gap-2">
+          <HelpCircle className="w-5 h-5 text-fuchsia-400" />
+          Check your understanding
+        </h3>
+        {score && (
+          <span className={`text-xs font-semibold px-2 py-1 rounded-full border ${
+            score.bestScore >= QUIZ_PASS_SCORE ? 'bg-emerald-50 text-emerald-600 border-emerald-200' : 'bg-slate-100/80 text-slate-600 border-slate-200'
+          }`}>
+            Best {percent(score.bestScore)} · {score.attempts} {score.attempts === 1 ? 'attempt' : 'attempts'}
+          </span>
+        )}
+      </div>
+
+      {!quiz ? (
+        <div className="p-6 text-center bg-slate-50/50 rounded-xl border border-dashed border-slate-300 space-y-3">
+          <p className="text-sm text-slate-500">
+            A short quiz on this topic. Scoring {percent(QUIZ_PASS_SCORE)} or more counts towards completing it.
+          </p>
+          {onQuizChange && (
+            <button
+              onClick={generate}
+              disabled={isGenerating || !topic.curatedContent}
+              className="inline-flex items-center gap-2 bg-teal-400 hover:bg-teal-500 disabled:bg-slate-400/50 disabled:cursor-not-allowed text-white px-4 py-2 rounded-lg font-medium text-sm shadow-sm transition-all"
+            >
+              {isGenerating ? <Loader2 className="w-4 h-4 animate-spin" /> : <Sparkles className="w-4 h-4" />}
+              {isGenerating ? 'Writing questions...' : 'Generate quiz'}
+            </button>
+          )}
+          {error && <p className="text-xs text-red-600">{error}</p>}
+        </div>
+      ) : (
+        <div className="space-y-4">
+          {quiz.questions.map((question, qIdx) => {
+            const given = answers[qIdx];
+            return (
+              <div key={qIdx} className="border border-slate-200 rounded-xl p-4 bg-white/60">
+                <p className="text-sm font-bold text-slate-800 mb-3">{qIdx + 1}. {question.question}</p>
+                {question.kind === 'multiple-choice' ? (
+                  <div className="space-y-2">
+                    {question.options.map((option, oIdx) => {
+                      const isRight = oIdx === question.correctIndex;
+                      const isChosen = given?.value === oIdx;
+                      return (
+                        <button
+                          key={oIdx}
+                          onClick={() => answer(qIdx, oIdx)}
+                          disabled={!!given}
+                          className={`w-full text-left px-3 py-2 rounded-lg border text-sm transition-all ${
+                            !given
+                              ? 'border-slate-200 bg-white hover:border-cyan-300 text-slate-700'
+                              : isRight
+                                ? 'border-emerald-300 bg-emerald-50 text-emerald-800'
+                                : isChosen
+                                  ? 'border-red-300 bg-red-50 text-red-700'
+                                  : 'border-slate-200 bg-white text-slate-400'
+                          }`}
+                        >
+                          {option}
+                        </button>
+                      );
+                    })}
+                  </div>
+                ) : (
+                  <form
+                    onSubmit={(e) => {
+                      e.preventDefault();
+                      if (drafts[qIdx]?.trim()) answer(qIdx, drafts[qIdx].trim());
+                    }}
+                    className="flex gap-2"
+                  >
+                    <input
+                      value={given ? String(given.value) : drafts[qIdx] || ''}
+                      onChange={(e) => setDrafts(prev => ({ ...prev, [qIdx]: e.target.value }))}
+                      disabled={!!given}
+                      placeholder="Your answer"
+                      className="flex-1 px-3 py-2 rounded-lg border border-slate-300/60 bg-white/70 text-sm focus:ring-2 focus:ring-cyan-400 outline-none disabled:text-slate-500"
+                    />
+                    {!given && (
+                      <button
+                        type="submit"
+                        disabled={!drafts[qIdx]?.trim()}
+                        className="bg-teal-400 hover:bg-teal-500 disabled:bg-slate-400/50 disabled:cursor-not-allowed text-white px-4 py-2 rounded-lg font-medium text-sm shadow-sm transition-all"
+                      >
+                        Check
+                      </button>
+                    )}
+                  </form>
+                )}
+                {given && (
+                  <div className={`mt-3 text-xs rounded-lg px-3 py-2 ${given.correct ? 'bg-emerald-50 text-emerald-800' : 'bg-red-50 text-red-800'}`}>
+                    <p className="flex items-center gap-1 font-bold">
+                      {given.correct ? <CheckCircle2 className="w-3 h-3" /> : <XCircle className="w-3 h-3" />}
+                      {given.correct ? 'Correct' : question.kind === 'short-answer' ? `Expected: ${question.acceptedAnswers[0]}` : 'Not quite'}
+                    </p>
+                    {question.explanation && <p className="mt-1">{question.explanation}</p>}
+                  </div>
+                )}
+              </div>
+            );
+          })}
+
+          <div className="flex flex-wrap items-center gap-3">
+            {finished && (
+              <span className={`text-sm font-bold ${correctCount / quiz.questions.length >= QUIZ_PASS_SCORE ? 'text-emerald-600' : 'text-amber-600'}`}>
+                {correctCount} of {quiz.questions.length} correct ({percent(correctCount / quiz.questions.length)})
+              </span>
+            )}
+            {answeredCount > 0 && (
+              <button
+                onClick={() => { setAnswers({}); setDrafts({}); }}
+                className="flex items-center gap-1 text-xs font-semibold px-3 py-1.5 rounded-full border bg-white border-slate-200 text-slate-600 hover:text-cyan-600 hover:border-cyan-300 transition-all"
+              >
+                <RotateCcw className="w-3 h-3" /> Retake
+              </button>
+            )}
+            {onQuizChange && (
+              <button
+                onClick={generate}
+                disabled={isGenerating}
+                className="flex items-center gap-1 text-xs font-semibold px-3 py-1.5 rounded-full border bg-white border-slate-200 text-slate-600 hover:text-cyan-600 hover:border-cyan-300 disabled:opacity-50 disabled:cursor-not-allowed transition-all"
+              >
+                {isGenerating ? <Loader2 className="w-3 h-3 animate-spin" /> : <Sparkles className="w-3 h-3" />} New questions
+              </button>
+            )}
+            {error && <span className="text-xs text-red-600">{error}</span>}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default TopicQuizPanel;
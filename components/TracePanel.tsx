@@ -0,0 +1,145 @@
+import React, { useState, useEffect } from 'react';
+import { AgentTrace, TraceCall, TraceOutcome, listTraces, subscribeTraces, clearTraces, tracesToJSON, totalTokens } from '../services/agentTrace';
+import { downloadFile } from '../services/exportService';
+import { Bug, ChevronDown, ChevronRight, Download, Trash2 } from 'lucide-react';
+
+const OUTCOME_STYLES: Record<TraceOutcome, string> = {
+  running: 'bg-cyan-50 text-cyan-700 border-cyan-200',
+  success: 'bg-emerald-50 text-emerald-700 border-emerald-200',
+  fallback: 'bg-amber-50 text-amber-700 border-amber-200',
+  failed: 'bg-red-50 text-red-700 border-red-200',
+  cancelled: 'bg-slate-100 text-slate-600 border-slate-200'
+};
+
+const formatDuration = (ms?: number) => (ms === undefined ? '…' : ms < 1000 ? `${ms} ms` : `${(ms / 1000).toFixed(1)} s`);
+
+const Block: React.FC<{ label: string; children: React.ReactNode }> = ({ label, children }) => (
+  <div>
+    <p className="text-[10px] font-bold uppercase tracking-wide text-slate-400 mb-1">{label}</p>
+    <pre className="max-h-64 overflow-auto whitespace-pre-wrap break-words rounded-lg bg-slate-900/90 text-slate-100 text-[11px] leading-relaxed p-3">{children}</pre>
+  </div>
+);
+
+const CallDetails: React.FC<{ call: TraceCall }> = ({ call }) => (
+  <div className="space-y-3 border-l-2 border-slate-200 pl-3">
+    <div className="flex flex-wrap gap-3 text-xs text-slate-500">
+      <span className="font-semibold text-slate-700">Attempt {call.attempt}</span>
+      <span>{call.config.provider} · {call.config.model}</span>
+      <span>{formatDuration(call.durationMs)}</span>
+      {call.usage?.totalTokens !== undefined && (
+        <span>{call.usage.promptTokens ?? '?'} in / {call.usage.outputTokens ?? '?'} out tokens</span>
+      )}
+      {call.parse && (
+        <span className={call.parse.ok ? 'text-emerald-600' : 'text-red-600'}>
+          {call.parse.ok ? 'Parsed' : 'Parse failed'}
+        </span>
+      )}
+    </div>
+
+    {call.retries.length > 0 && (
+      <ul className="text-xs text-amber-700 space-y-0.5">
+        {call.retries.map((retry, i) => (
+          <li key={i}>Retry after {formatDuration(retry.delayMs)}: {retry.error}</li>
+        ))}
+      </ul>
+    )}
+    {call.error && <p className="text-xs text-red-600">{call.error}</p>}
+    {call.parse?.issues && (
+      <ul className="text-xs text-red-600 list-disc pl-4">
+        {call.parse.issues.map((issue, i) => <li key={i}>{issue}</li>)}
+      </ul>
+    )}
+    {call.parse?.fixes && (
+      <ul className="text-xs text-amber-700 list-disc pl-4">
+        {call.parse.fixes.map((fix, i) => <li key={i}>Fixed: {fix}</li>)}
+      </ul>
+    )}
+
+    <Block label="Prompt">{call.prompt.trim()}</Block>
+    <Block label="Config">{JSON.stringify(call.config, null, 2)}</Block>
+    {call.rawText !== undefined && <Block label="Raw response">{call.rawText || '(empty)'}</Block>}
+    {call.groundingSources && call.groundingSources.length > 0 && (
+      <Block label={`Grounding sources (${call.groundingSources.length})`}>
+        {call.groundingSources.map(source => `${source.title || '(untitled)'}\n  ${source.uri}`).join('\n')}
+      </Block>
+    )}
+  </div>
+);
+
+// Collapsible debug panel listing every agent run this session, newest first
+const TracePanel: React.FC = () => {
+  const [traces, setTraces] = useState<AgentTrace[]>(listTraces);
+  const [open, setOpen] = useState(false);
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+
+  useEffect(() => subscribeTraces(setTraces), []);
+
+  const download = () => {
+    const stamp = new Date().toISOString().replace(/[:.]/g, '-');
+    downloadFile(`agent-traces-${stamp}.json`, tracesToJSON(), 'application/json');
+  };
+
+  return (
+    <div className="w-full max-w-2xl mx-auto mb-8 bg-white/60 backdrop-blur-xl rounded-2xl shadow-sm border border-white/60 overflow-hidden">
+      <div className="flex items-center justify-between px-5 py-3">
+        <button
+          onClick={() => setOpen(!open)}
+          className="flex items-center gap-2 text-sm font-semibold text-slate-600 hover:text-slate-800"
+          aria-expanded={open}
+        >
+          {open ? <ChevronDown className="w-4 h-4" /> : <ChevronRight className="w-4 h-4" />}
+          <Bug className="w-4 h-4 text-slate-400" />
+          Agent traces ({traces.length})
+        </button>
+        {open && traces.length > 0 && (
+          <div className="flex items-center gap-2">
+            <button onClick={download} className="flex items-center gap-1 text-xs font-semibold px-3 py-1.5 rounded-full border bg-white border-slate-200 text-teal-600 hover:border-teal-300 transition-all">
+              <Download className="w-3 h-3" /> Download JSON
+            </button>
+            <button onClick={clearTraces} className="flex items-center gap-1 text-xs font-semibold px-3 py-1.5 rounded-full border bg-white border-slate-200 text-slate-500 hover:border-red-300 hover:text-red-500 transition-all">
+              <Trash2 className="w-3 h-3" /> Clear
+            </button>
+          </div>
+        )}
+      </div>
+
+      {open && (
+        <div className="border-t border-slate-200/60 max-h-[70vh] overflow-y-auto">
+          {traces.length === 0 && (
+            <p className="px-5 py-4 text-sm text-slate-500">No agent calls yet this session.</p>
+          )}
+          {[...traces].reverse().map(trace => {
+            const expanded = expandedId === trace.id;
+            const tokens = totalTokens(trace);
+            return (
+              <div key={trace.id} className="border-b border-slate-100 last:border-b-0">
+                <button
+                  onClick={() => setExpandedId(expanded ? null : trace.id)}
+                  className="w-full flex items-center gap-3 px-5 py-2.5 text-left hover:bg-white/60"
+                >
+                  {expanded ? <ChevronDown className="w-3.5 h-3.5 text-slate-400 shrink-0" /> : <ChevronRight className="w-3.5 h-3.5 text-slate-400 shrink-0" />}
+                  <span className="text-xs font-bold uppercase text-slate-500 w-20 shrink-0">{trace.agent}</span>
+                  <span className="flex-1 min-w-0 truncate text-sm text-slate-700" title={trace.label}>{trace.label}</span>
+                  <span className={`text-[10px] font-semibold px-2 py-0.5 rounded-full border ${OUTCOME_STYLES[trace.outcome]}`}>{trace.outcome}</span>
+                  <span className="text-xs text-slate-400 w-14 text-right shrink-0">{formatDuration(trace.durationMs)}</span>
+                  <span className="text-xs text-slate-400 w-20 text-right shrink-0">{tokens > 0 ? `${tokens.toLocaleString()} tok` : ''}</span>
+                </button>
+                {expanded && (
+                  <div className="px-5 pb-4 space-y-4">
+                    <p className="text-xs text-slate-500">
+                      Started {new Date(trace.startedAt).toLocaleTimeString()} · {trace.calls.length} call{trace.calls.length === 1 ? '' : 's'}
+                    </p>
+                    {trace.note && <p className="text-xs text-amber-700">{trace.note}</p>}
+                    {trace.calls.map(call => <CallDetails key={call.attempt} call={call} />)}
+                  </div>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default TracePanel;
@@ -0,0 +1,172 @@
+import type { GenerateRequest, GenerateResult, GroundingSource, LLMProvider, SchemaNode, TokenUsage } from "./llmProvider";
+import { isCancellation } from "./errors";
+
+// In-memory record of every agent run in this session: what each model call was sent, what came
+// back, how it parsed, rate-limit retries, token usage and timings. Shown in the debug panel and
+// downloadable as JSON. Nothing is persisted; prompts and responses can be large.
+
+export type AgentName = 'planner' | 'curator' | 'assessment' | 'quiz' | 'flashcard' | 'refinement';
+
+// 'fallback': the agent returned placeholder output instead of failing (e.g. curator search links)
+export type TraceOutcome = 'running' | 'success' | 'fallback' | 'failed' | 'cancelled';
+
+export interface TraceRetry {
+  at: number;
+  delayMs: number; // Wait before the next try
+  error: string;
+}
+
+export interface TraceCall {
+  attempt: number; // 1-based; later attempts are repair prompts
+  prompt: string;
+  config: {
+    provider: string;
+    model: string;
+    systemInstruction?: string;
+    responseSchema?: SchemaNode;
+    jsonOutput?: boolean;
+    useSearch?: boolean;
+  };
+  startedAt: number;
+  durationMs?: number; // Including rate-limit waits
+  retries: TraceRetry[];
+  rawText?: string;
+  groundingSources?: GroundingSource[];
+  usage?: TokenUsage;
+  parse?: { ok: boolean; issues?: string[]; fixes?: string[] };
+  error?: string;
+}
+
+export interface AgentTrace {
+  id: string;
+  agent: AgentName;
+  label: string; // Goal or topic the run was for
+  startedAt: number;
+  durationMs?: number;
+  outcome: TraceOutcome;
+  note?: string; // Why the run failed or fell back
+  calls: TraceCall[];
+}
+
+export interface CallRecorder {
+  recordRetry: (error: any, delayMs: number) => void;
+  recordResponse: (result: GenerateResult) => void;
+  recordParse: (result: { ok: boolean; issues?: string[]; fixes?: string[] }) => void;
+  recordError: (error: unknown) => void;
+}
+
+export interface TraceRecorder {
+  beginCall: (request: GenerateRequest, provider: LLMProvider) => CallRecorder;
+  setFallback: (note: string) => void;
+}
+
+// Oldest runs are dropped beyond this, so a long session can't grow memory without bound
+const MAX_TRACES = 100;
+
+let traces: AgentTrace[] = [];
+const listeners = new Set<(traces: AgentTrace[]) => void>();
+
+const errorText = (error: unknown): string =>
+  error instanceof Error ? `${error.name}: ${error.message}` : String(error);
+
+// Listeners get a new array on every change; the trace objects inside are updated in place
+const notify = () => {
+  const snapshot = [...traces];
+  listeners.forEach(listener => listener(snapshot));
+};
+
+export const listTraces = (): AgentTrace[] => [...traces];
+
+export const subscribeTraces = (listener: (traces: AgentTrace[]) => void): (() => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+export const clearTraces = () => {
+  traces = [];
+  notify();
+};
+
+export const tracesToJSON = (): string =>
+  JSON.stringify({ exportedAt: Date.now(), traces }, null, 2);
+
+export const totalTokens = (trace: AgentTrace): number =>
+  trace.calls.reduce((sum, call) => sum + (call.usage?.totalTokens || 0), 0);
+
+// Wraps one agent run. The outcome follows from how `run` settles, unless it reports a fallback.
+export const traceAgent = async <T>(agent: AgentName, label: string, run: (trace: TraceRecorder) => Promise<T>): Promise<T> => {
+  const trace: AgentTrace = {
+    id: crypto.randomUUID(),
+    agent,
+    label,
+    startedAt: Date.now(),
+    outcome: 'running',
+    calls: []
+  };
+  traces = [...traces, trace].slice(-MAX_TRACES);
+  notify();
+
+  const recorder: TraceRecorder = {
+    beginCall: (request, provider) => {
+      const call: TraceCall = {
+        attempt: trace.calls.length + 1,
+        prompt: request.prompt,
+        config: {
+          provider: provider.name,
+          model: provider.model,
+          systemInstruction: request.systemInstruction,
+          responseSchema: request.responseSchema,
+          jsonOutput: request.jsonOutput,
+          useSearch: request.useSearch
+        },
+        startedAt: Date.now(),
+        retries: []
+      };
+      trace.calls.push(call);
+      notify();
+      const finish = () => {
+        call.durationMs = Date.now() - call.startedAt;
+        notify();
+      };
+      return {
+        recordRetry: (error, delayMs) => {
+          call.retries.push({ at: Date.now(), delayMs, error: errorText(error) });
+          notify();
+        },
+        recordResponse: result => {
+          call.rawText = result.text;
+          call.groundingSources = result.groundingSources;
+          call.usage = result.usage;
+          finish();
+        },
+        recordParse: result => {
+          call.parse = { ok: result.ok, issues: result.issues, fixes: result.fixes?.length ? result.fixes : undefined };
+          notify();
+        },
+        recordError: error => {
+          call.error = errorText(error);
+          finish();
+        }
+      };
+    },
+    setFallback: note => {
+      trace.outcome = 'fallback';
+      trace.note = note;
+    }
+  };
+
+  try {
+    const result = await run(recorder);
+    if (trace.outcome === 'running') trace.outcome = 'success';
+    return result;
+  } catch (error) {
+    trace.outcome = isCancellation(error) ? 'cancelled' : 'failed';
+    trace.note = errorText(error);
+    throw error;
+  } finally {
+    trace.durationMs = Date.now() - trace.startedAt;
+    notify();
+  }
+};
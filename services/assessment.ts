@@ -0,0 +1,165 @@
+import { AssessmentAnswer, AssessmentQuestion, AssessmentResult, SkillLevel } from "../types";
+
+// Placement quiz: validation of the Assessment Agent's question pool, adaptive question order,
+// scoring into a recommended SkillLevel, and how the result reads in the planner prompt.
+
+export type AssessmentValidationResult =
+  | { ok: true; value: AssessmentQuestion[]; fixes: string[] }
+  | { ok: false; issues: string[] };
+
+// Questions asked per quiz; the agent is asked for a larger pool so the order can adapt
+export const QUIZ_LENGTH = 6;
+export const POOL_SIZE = 9;
+
+const LEVELS: SkillLevel[] = [SkillLevel.Beginner, SkillLevel.Intermediate, SkillLevel.Advanced];
+
+const MIN_OPTIONS = 3;
+const MAX_OPTIONS = 5;
+
+const isObject = (value: unknown): value is Record<string, any> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const nonEmpty = (value: unknown): value is string => typeof value === 'string' && value.trim().length > 0;
+
+const parseLevel = (value: unknown): SkillLevel | undefined =>
+  typeof value === 'string' ? LEVELS.find(level => level.toLowerCase() === value.trim().toLowerCase()) : undefined;
+
+// Broken questions are dropped as fixes; only a pool too small for a quiz is an issue
+export const validateAssessmentOutput = (raw: unknown): AssessmentValidationResult => {
+  const fixes: string[] = [];
+  if (!isObject(raw) || !Array.isArray(raw.questions)) {
+    return { ok: false, issues: ['Top-level value must be an object with a "questions" array.'] };
+  }
+
+  const questions: AssessmentQuestion[] = [];
+  const seen = new Set<string>();
+  raw.questions.forEach((q: unknown, idx: number) => {
+    const path = `questions[${idx}]`;
+    if (!isObject(q) || !nonEmpty(q.question)) {
+      fixes.push(`${path} dropped: missing question text`);
+      return;
+    }
+    const text = q.question.trim();
+    if (seen.has(text.toLowerCase())) {
+      fixes.push(`${path} dropped: duplicate question`);
+      return;
+    }
+    const options = Array.isArray(q.options) ? q.options.filter(nonEmpty).map((o: string) => o.trim()) : [];
+    if (options.length < MIN_OPTIONS || options.length > MAX_OPTIONS) {
+      fixes.push(`${path} dropped: needs ${MIN_OPTIONS}-${MAX_OPTIONS} options, got ${options.length}`);
+      return;
+    }
+    const correctIndex = Number(q.correctIndex);
+    if (!Number.isInteger(correctIndex) || correctIndex < 0 || correctIndex >= options.length) {
+      fixes.push(`${path} dropped: correctIndex ${q.correctIndex} is not one of its options`);
+      return;
+    }
+    let level = parseLevel(q.level);
+    if (!level) {
+      fixes.push(`${path}.level "${q.level}" replaced with ${SkillLevel.Intermediate}`);
+      level = SkillLevel.Intermediate;
+    }
+    seen.add(text.toLowerCase());
+    questions.push({
+      id: `q${questions.length}`,
+      subtopic: nonEmpty(q.subtopic) ? q.subtopic.trim() : 'General',
+      level,
+      question: text,
+      options,
+      correctIndex
+    });
+  });
+
+  if (questions.length < QUIZ_LENGTH) {
+    return { ok: false, issues: [`Only ${questions.length} usable questions; at least ${QUIZ_LENGTH} are needed.`, ...fixes] };
+  }
+  return { ok: true, value: questions, fixes };
+};
+
+// Models tend to put the right answer first; shuffle the options of each question
+export const shuffleOptions = <T extends { options: string[]; correctIndex: number }>(question: T): T => {
+  const order = question.options.map((_, idx) => idx);
+  for (let i = order.length - 1; i > 0; i--) {
+    const j = Math.floor(Math.random() * (i + 1));
+    [order[i], order[j]] = [order[j], order[i]];
+  }
+  return {
+    ...question,
+    options: order.map(idx => question.options[idx]),
+    correctIndex: order.indexOf(question.correctIndex)
+  };
+};
+
+export const isCorrect = (question: AssessmentQuestion, answer: AssessmentAnswer): boolean =>
+  answer.choice === question.correctIndex;
+
+// Staircase: start at Intermediate, go up a level after a right answer and down after a wrong one.
+// Prefers subtopics not asked yet, then the nearest level that still has questions. Undefined when done.
+export const pickNextQuestion = (questions: AssessmentQuestion[], answers: AssessmentAnswer[]): AssessmentQuestion | undefined => {
+  if (answers.length >= QUIZ_LENGTH) return undefined;
+  const byId = new Map(questions.map(q => [q.id, q]));
+  let target = 1;
+  answers.forEach(answer => {
+    const question = byId.get(answer.questionId);
+    if (!question) return;
+    target = Math.max(0, Math.min(LEVELS.length - 1, target + (isCorrect(question, answer) ? 1 : -1)));
+  });
+
+  const asked = new Set(answers.map(a => a.questionId));
+  const askedSubtopics = new Set(answers.map(a => byId.get(a.questionId)?.subtopic.toLowerCase()));
+  const remaining = questions.filter(q => !asked.has(q.id));
+  const distance = (q: AssessmentQuestion) => Math.abs(LEVELS.indexOf(q.level) - target);
+
+  return remaining
+    .map((q, index) => ({ q, index, rank: distance(q) * 2 + (askedSubtopics.has(q.subtopic.toLowerCase()) ? 1 : 0) }))
+    .sort((a, b) => a.rank - b.rank || a.index - b.index)[0]?.q;
+};
+
+// Recommended level is the highest one where strictly more than half of the questions were right
+export const scoreAssessment = (goal: string, questions: AssessmentQuestion[], answers: AssessmentAnswer[]): AssessmentResult => {
+  const byId = new Map(questions.map(q => [q.id, q]));
+  const perLevel = new Map<SkillLevel, { asked: number; correct: number }>();
+  const perSubtopic = new Map<string, { name: string; asked: number; correct: number }>();
+  let correct = 0;
+
+  answers.forEach(answer => {
+    const question = byId.get(answer.questionId);
+    if (!question) return;
+    const right = isCorrect(question, answer);
+    if (right) correct++;
+
+    const level = perLevel.get(question.level) || { asked: 0, correct: 0 };
+    perLevel.set(question.level, { asked: level.asked + 1, correct: level.correct + (right ? 1 : 0) });
+
+    const key = question.subtopic.toLowerCase();
+    const subtopic = perSubtopic.get(key) || { name: question.subtopic, asked: 0, correct: 0 };
+    perSubtopic.set(key, { ...subtopic, asked: subtopic.asked + 1, correct: subtopic.correct + (right ? 1 : 0) });
+  });
+
+  const passed = (stats?: { asked: number; correct: number }) => !!stats && stats.correct * 2 > stats.asked;
+  const recommendedLevel = [...LEVELS].reverse().find(level => passed(perLevel.get(level))) || SkillLevel.Beginner;
+  const subtopics = [...perSubtopic.values()];
+
+  return {
+    goal: goal.trim(),
+    recommendedLevel,
+    correct,
+    total: answers.length,
+    knownSubtopics: subtopics.filter(s => passed(s)).map(s => s.name),
+    unknownSubtopics: subtopics.filter(s => !passed(s)).map(s => s.name),
+    takenAt: Date.now()
+  };
+};
+
+// Lines for the planner prompt; empty when there is no result
+export const describeAssessmentForPlanner = (result?: AssessmentResult): string[] => {
+  if (!result) return [];
+  const lines = [`Placement quiz: ${result.correct}/${result.total} correct, placed at ${result.recommendedLevel}.`];
+  if (result.knownSubtopics.length > 0) {
+    lines.push(`Already demonstrated: ${result.knownSubtopics.join(', ')}. Skip these or condense them into a short review; do not give them full topics.`);
+  }
+  if (result.unknownSubtopics.length > 0) {
+    lines.push(`Gaps found: ${result.unknownSubtopics.join(', ')}. Cover these properly.`);
+  }
+  return lines;
+};
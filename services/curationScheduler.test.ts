@@ -0,0 +1,127 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { CuratedContent } from '../types';
+import { runCuratorAgent } from './geminiService';
+import { lookupCuratorCache, storeCuratorResult } from './curatorCache';
+import { curateTopics, CurationTask } from './curationScheduler';
+
+vi.mock('./geminiService', () => ({ runCuratorAgent: vi.fn() }));
+vi.mock('./curatorCache', () => ({ lookupCuratorCache: vi.fn(() => null), storeCuratorResult: vi.fn() }));
+
+const curator = vi.mocked(runCuratorAgent);
+
+const content = (title: string): CuratedContent => ({
+  summary: title,
+  resources: [{ title, uri: `https://example.com/${encodeURIComponent(title)}` }]
+});
+
+const tasks = (...titles: string[]): CurationTask[] => titles.map(topicTitle => ({ topicTitle, context: 'Rust' }));
+
+// The curator answers each topic after the given delay, remembering when each call started
+const answerAfter = (delays: Record<string, number>) => {
+  const started: Record<string, number> = {};
+  curator.mockImplementation((topicTitle: string) => {
+    started[topicTitle] = Date.now();
+    return new Promise(resolve => setTimeout(() => resolve(content(topicTitle)), delays[topicTitle] ?? 0));
+  });
+  return started;
+};
+
+beforeEach(() => {
+  vi.useFakeTimers();
+  vi.setSystemTime(0);
+  vi.mocked(lookupCuratorCache).mockReturnValue(null);
+  vi.spyOn(console, 'warn').mockImplementation(() => {});
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+  vi.restoreAllMocks();
+  vi.resetAllMocks();
+});
+
+describe('curateTopics', () => {
+  it('reports results in task order when workers finish out of order', async () => {
+    answerAfter({ a: 3000, b: 100, c: 200, d: 50 });
+    const emitted: [number, string, number][] = [];
+    const run = curateTopics(tasks('a', 'b', 'c', 'd'), {
+      onResult: (index, result) => emitted.push([index, result.summary, Date.now()]),
+      onProgress: () => {}
+    }, { config: { concurrency: 3, requestsPerMinute: 600 } });
+
+    await vi.advanceTimersByTimeAsync(5000);
+    await run;
+
+    expect(emitted.map(([index, summary]) => [index, summary])).toEqual([[0, 'a'], [1, 'b'], [2, 'c'], [3, 'd']]);
+    // b, c and d finished long before a, but were held back until a was done
+    expect(emitted.every(([, , at]) => at === 3000)).toBe(true);
+  });
+
+  it('never runs more curator calls at once than the configured concurrency', async () => {
+    answerAfter({ a: 1000, b: 1000, c: 1000, d: 1000 });
+    const inFlight: number[] = [];
+    const run = curateTopics(tasks('a', 'b', 'c', 'd'), {
+      onResult: () => {},
+      onProgress: (_completed, _total, titles) => inFlight.push(titles.length)
+    }, { config: { concurrency: 2, requestsPerMinute: 600 } });
+
+    await vi.advanceTimersByTimeAsync(3000);
+    await run;
+
+    expect(Math.max(...inFlight)).toBe(2);
+    expect(curator).toHaveBeenCalledTimes(4);
+  });
+
+  it('holds back the next topic after a 429', async () => {
+    const started = answerAfter({});
+    curator.mockImplementationOnce((topicTitle, _context, options) => {
+      started[topicTitle] = Date.now();
+      options?.onRateLimit?.(Object.assign(new Error('Resource exhausted'), { status: 429 }));
+      return Promise.resolve(content(topicTitle));
+    });
+    const run = curateTopics(tasks('a', 'b', 'c'), { onResult: () => {}, onProgress: () => {} }, {
+      config: { concurrency: 1, requestsPerMinute: 60 }
+    });
+
+    await vi.advanceTimersByTimeAsync(10_000);
+    await run;
+
+    // 60 RPM would start one call a second; after the 429 the rate is 30 RPM
+    expect(started).toEqual({ a: 0, b: 2000, c: 4000 });
+  });
+
+  it('serves cached topics without calling the curator', async () => {
+    answerAfter({});
+    vi.mocked(lookupCuratorCache).mockImplementation(task => (task.topicTitle === 'a' ? { content: content('cached a'), stale: false } : null));
+    const results: string[] = [];
+    const progress: number[] = [];
+    const run = curateTopics(tasks('a', 'b'), {
+      onResult: (_index, result) => results.push(result.summary),
+      onProgress: (_completed, _total, _inFlight, cacheHits) => progress.push(cacheHits)
+    }, { config: { concurrency: 1, requestsPerMinute: 600 } });
+
+    await vi.advanceTimersByTimeAsync(1000);
+    await run;
+
+    expect(results).toEqual(['cached a', 'b']);
+    expect(curator.mock.calls.map(([topicTitle]) => topicTitle)).toEqual(['b']);
+    expect(vi.mocked(storeCuratorResult)).toHaveBeenCalledWith(tasks('b')[0], content('b'));
+    expect(progress.at(-1)).toBe(1);
+  });
+
+  it('asks the curator despite a cached result when bypassing the cache, and refreshes the entry', async () => {
+    answerAfter({});
+    vi.mocked(lookupCuratorCache).mockReturnValue({ content: content('cached a'), stale: false });
+    const results: string[] = [];
+    const run = curateTopics(tasks('a'), {
+      onResult: (_index, result) => results.push(result.summary),
+      onProgress: () => {}
+    }, { config: { concurrency: 1, requestsPerMinute: 600 }, bypassCache: true });
+
+    await vi.advanceTimersByTimeAsync(1000);
+    await run;
+
+    expect(results).toEqual(['a']);
+    expect(vi.mocked(lookupCuratorCache)).not.toHaveBeenCalled();
+    expect(vi.mocked(storeCuratorResult)).toHaveBeenCalledWith(tasks('a')[0], content('a'));
+  });
+});
@@ -0,0 +1,154 @@
+import { CuratedContent, Curriculum, Topic } from "../types";
+import { runCuratorAgent } from "./geminiService";
+import { createRateLimiter } from "./rateLimiter";
+import { GenerationController } from "./generationControl";
+import { lookupCuratorCache, storeCuratorResult, CuratorCacheKey } from "./curatorCache";
+import { throwIfAborted } from "./errors";
+
+export interface CurationConfig {
+  concurrency: number;
+  requestsPerMinute: number;
+}
+
+// Defaults suit the Gemini free tier (~10 RPM for flash models); raise them on paid quotas.
+// Values are injected at build time by vite.config.ts from .env.local
+export const getCurationConfig = (): CurationConfig => ({
+  concurrency: Number(process.env.CURATOR_CONCURRENCY) || 3,
+  requestsPerMinute: Number(process.env.CURATOR_RPM) || 10
+});
+
+// Topic, context, skill level and source rules: the curator's input and the cache key
+export type CurationTask = CuratorCacheKey;
+
+export interface PendingTopic {
+  topic: Topic;
+  moduleIndex: number;
+  topicIndex: number;
+}
+
+// Topics the curator hasn't reached yet; resuming a paused or interrupted run only curates these
+export const getUncuratedTopics = (curriculum: Curriculum): PendingTopic[] => {
+  const pending: PendingTopic[] = [];
+  curriculum.modules.forEach((mod, mIdx) => {
+    mod.topics.forEach((topic, tIdx) => {
+      if (!topic.curatedContent) {
+        pending.push({ topic, moduleIndex: mIdx, topicIndex: tIdx });
+      }
+    });
+  });
+  return pending;
+};
+
+export interface CurationCallbacks {
+  // Called in task order, even when calls finish out of order
+  onResult: (index: number, content: CuratedContent) => void;
+  // Called whenever a task starts or finishes; cacheHits counts tasks served from the curator cache
+  onProgress: (completed: number, total: number, inFlight: string[], cacheHits: number) => void;
+}
+
+export interface CurationOptions {
+  config?: CurationConfig;
+  control?: GenerationController;
+  bypassCache?: boolean; // Always ask the curator; fresh results still refresh the cache
+}
+
+// Curate all tasks with bounded concurrency behind an adaptive rate limiter.
+// Cached results skip the limiter; stale ones are served at once and refreshed in the background.
+// Rejects with GenerationCancelledError when the controller cancels, or with the first curator error
+// (only run-wide failures such as a bad key reach here); other workers then stop starting topics
+// and results finishing afterwards are cached but not reported.
+export const curateTopics = async (
+  tasks: CurationTask[],
+  callbacks: CurationCallbacks,
+  options: CurationOptions = {}
+): Promise<void> => {
+  const { config = getCurationConfig(), control, bypassCache = false } = options;
+  const signal = control?.signal;
+  const limiter = createRateLimiter({
+    requestsPerMinute: config.requestsPerMinute,
+    burst: Math.min(config.concurrency, config.requestsPerMinute)
+  });
+
+  const results = new Map<number, CuratedContent>();
+  const inFlight = new Map<number, string>();
+  let nextToStart = 0;
+  let nextToEmit = 0;
+  let completed = 0;
+  let cacheHits = 0;
+  let failed = false;
+
+  const reportProgress = () => {
+    if (failed) return;
+    callbacks.onProgress(completed, tasks.length, [...inFlight.values()], cacheHits);
+  };
+
+  const curate = (task: CurationTask) => runCuratorAgent(task.topicTitle, task.context, {
+    onRateLimit: () => limiter.reportRateLimited(),
+    signal,
+    sources: task.sources,
+    profile: task.profile
+  });
+
+  // Fire-and-forget: the run already has the stale result, this only updates the cache
+  const revalidate = (task: CurationTask) => {
+    limiter.acquire(signal)
+      .then(() => curate(task))
+      .then(content => {
+        limiter.reportSuccess();
+        storeCuratorResult(task, content);
+      })
+      .catch(() => { /* Cancelled or failed; the stale entry stays until next time */ });
+  };
+
+  // Release every finished result that no longer has an unfinished predecessor
+  const flush = () => {
+    while (!failed && results.has(nextToEmit)) {
+      callbacks.onResult(nextToEmit, results.get(nextToEmit)!);
+      results.delete(nextToEmit);
+      nextToEmit++;
+    }
+  };
+
+  const worker = async () => {
+    while (!failed && nextToStart < tasks.length) {
+      // Hold here while paused, before claiming the next task
+      await control?.waitIfPaused();
+      throwIfAborted(signal);
+      if (failed || nextToStart >= tasks.length) break;
+
+      const index = nextToStart++;
+      const task = tasks[index];
+
+      const cached = bypassCache ? null : lookupCuratorCache(task);
+      if (cached) {
+        if (cached.stale) revalidate(task);
+        results.set(index, cached.content);
+        cacheHits++;
+        completed++;
+        flush();
+        reportProgress();
+        continue;
+      }
+
+      await limiter.acquire(signal);
+      inFlight.set(index, task.topicTitle);
+      reportProgress();
+
+      const content = await curate(task);
+      limiter.reportSuccess();
+      storeCuratorResult(task, content);
+
+      inFlight.delete(index);
+      results.set(index, content);
+      completed++;
+      flush();
+      reportProgress();
+    }
+  };
+
+  const workerCount = Math.max(1, Math.min(config.concurrency, tasks.length));
+  await Promise.all(Array.from({ length: workerCount }, () => worker().catch(error => {
+    failed = true;
+    throw error;
+  })));
+};
@@ -0,0 +1,97 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { CuratedContent, SkillLevel, SourcePreferences } from '../types';
+import { getCuratorCacheKey, lookupCuratorCache, storeCuratorResult, CuratorCacheConfig, CuratorCacheKey } from './curatorCache';
+
+const CONFIG: CuratorCacheConfig = { ttlMs: 1000, maxEntries: 10 };
+
+const content: CuratedContent = {
+  summary: 'Ownership basics',
+  resources: [{ title: 'The Book', uri: 'https://doc.rust-lang.org/book/ch04-00.html' }]
+};
+
+const key: CuratorCacheKey = { topicTitle: 'Ownership', context: 'Learning Rust', skillLevel: SkillLevel.Beginner };
+
+const sources = (blockedDomains: string[]): SourcePreferences => ({
+  preferredDomains: [], blockedDomains, preferredFormats: []
+});
+
+// In-memory localStorage; the tests run in Node
+const storage = new Map<string, string>();
+
+beforeEach(() => {
+  storage.clear();
+  vi.stubGlobal('localStorage', {
+    getItem: (name: string) => storage.get(name) ?? null,
+    setItem: (name: string, value: string) => { storage.set(name, value); }
+  });
+  vi.useFakeTimers();
+  vi.setSystemTime(0);
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+  vi.unstubAllGlobals();
+});
+
+describe('getCuratorCacheKey', () => {
+  it('ignores case and whitespace in the topic and context', () => {
+    expect(getCuratorCacheKey({ ...key, topicTitle: '  ownership ', context: 'learning   RUST' })).toBe(getCuratorCacheKey(key));
+  });
+
+  it('changes with the skill level, source rules and profile language', () => {
+    const base = getCuratorCacheKey(key);
+    expect(getCuratorCacheKey({ ...key, skillLevel: SkillLevel.Advanced })).not.toBe(base);
+    expect(getCuratorCacheKey({ ...key, sources: sources(['w3schools.com']) })).not.toBe(base);
+    expect(getCuratorCacheKey({ ...key, profile: { language: 'Spanish' } })).not.toBe(base);
+    expect(getCuratorCacheKey({ ...key, profile: { language: 'Spanish' } })).not.toBe(getCuratorCacheKey({ ...key, profile: { language: 'German' } }));
+  });
+
+  it('matches entries stored before source rules and profiles existed', () => {
+    const base = getCuratorCacheKey(key);
+    expect(getCuratorCacheKey({ ...key, sources: sources([]) })).toBe(base);
+    expect(getCuratorCacheKey({ ...key, profile: { background: 'Knows Python', learningStyle: 'balanced' } })).toBe(base);
+  });
+});
+
+describe('curator cache', () => {
+  it('serves a stored result for the same key only', () => {
+    storeCuratorResult(key, content, CONFIG);
+    expect(lookupCuratorCache({ ...key, topicTitle: 'OWNERSHIP' }, CONFIG)).toEqual({ content, stale: false });
+    expect(lookupCuratorCache({ ...key, skillLevel: SkillLevel.Advanced }, CONFIG)).toBeNull();
+    expect(lookupCuratorCache({ ...key, profile: { language: 'Spanish' } }, CONFIG)).toBeNull();
+  });
+
+  it('marks entries older than the TTL as stale', () => {
+    storeCuratorResult(key, content, CONFIG);
+    vi.setSystemTime(1001);
+    expect(lookupCuratorCache(key, CONFIG)).toEqual({ content, stale: true });
+  });
+
+  it('does not store empty results or search-link fallbacks', () => {
+    storeCuratorResult(key, { summary: '', resources: [] }, CONFIG);
+    storeCuratorResult(key, {
+      summary: 'Nothing found',
+      resources: [
+        { title: 'Search Google', uri: 'https://www.google.com/search?q=rust+ownership' },
+        { title: 'Search YouTube', uri: 'https://www.youtube.com/results?search_query=rust+ownership' }
+      ],
+      fallbackReason: 'No results'
+    }, CONFIG);
+    expect(lookupCuratorCache(key, CONFIG)).toBeNull();
+  });
+
+  it('evicts the least recently used entries beyond the limit', () => {
+    const config = { ...CONFIG, maxEntries: 2 };
+    const topic = (topicTitle: string) => ({ ...key, topicTitle });
+    storeCuratorResult(topic('a'), content, config);
+    vi.setSystemTime(1);
+    storeCuratorResult(topic('b'), content, config);
+    vi.setSystemTime(2);
+    lookupCuratorCache(topic('a'), config);
+    vi.setSystemTime(3);
+    storeCuratorResult(topic('c'), content, config);
+
+    expect([lookupCuratorCache(topic('a'), config), lookupCuratorCache(topic('b'), config), lookupCuratorCache(topic('c'), config)]
+      .map(hit => !!hit)).toEqual([true, false, true]);
+  });
+});
@@ -0,0 +1,131 @@
+import { CuratedContent, LearnerProfile, SkillLevel, SourcePreferences } from "../types";
+import { isSearchFallback } from "./topicCuration";
+import { sourceRulesSignature } from "./sourcePolicy";
+import { curatorProfileSignature } from "./profileService";
+
+// Persistent cache of Curator Agent results backed by localStorage, shared by every curriculum.
+// Entries are addressed by a hash of the normalized topic, context, skill level, source rules and
+// the learner's language and style, so the same topic in another curriculum with the same context
+// is served without an API call.
+const CACHE_KEY = 'skillscout.curatorCache.v1';
+
+export interface CuratorCacheConfig {
+  ttlMs: number; // After this an entry is stale: still served, but refreshed in the background
+  maxEntries: number; // Least recently used entries are evicted beyond this
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Values are injected at build time by vite.config.ts from .env.local
+export const getCuratorCacheConfig = (): CuratorCacheConfig => ({
+  ttlMs: (Number(process.env.CURATOR_CACHE_TTL_DAYS) || 7) * DAY_MS,
+  maxEntries: Number(process.env.CURATOR_CACHE_MAX_ENTRIES) || 200
+});
+
+interface CacheEntry {
+  key: string; // Normalized input, kept to rule out hash collisions
+  content: CuratedContent;
+  storedAt: number;
+  lastUsedAt: number;
+}
+
+export interface CacheLookup {
+  content: CuratedContent;
+  stale: boolean;
+}
+
+const normalize = (value: string) => value.toLowerCase().replace(/\s+/g, ' ').trim();
+
+// cyrb53: fast 53-bit string hash, plenty for a few hundred entries
+const hash = (value: string): string => {
+  let h1 = 0xdeadbeef;
+  let h2 = 0x41c6ce57;
+  for (let i = 0; i < value.length; i++) {
+    const ch = value.charCodeAt(i);
+    h1 = Math.imul(h1 ^ ch, 2654435761);
+    h2 = Math.imul(h2 ^ ch, 1597334677);
+  }
+  h1 = Math.imul(h1 ^ (h1 >>> 16), 2246822507) ^ Math.imul(h2 ^ (h2 >>> 13), 3266489909);
+  h2 = Math.imul(h2 ^ (h2 >>> 16), 2246822507) ^ Math.imul(h1 ^ (h1 >>> 13), 3266489909);
+  return (4294967296 * (2097151 & h2) + (h1 >>> 0)).toString(36);
+};
+
+// Everything that changes what the curator would return
+export interface CuratorCacheKey {
+  topicTitle: string;
+  context: string;
+  skillLevel?: SkillLevel;
+  sources?: SourcePreferences;
+  profile?: LearnerProfile;
+}
+
+// The profile part is only appended when set, so entries stored before profiles existed still match
+const cacheInput = ({ topicTitle, context, skillLevel, sources, profile }: CuratorCacheKey) => {
+  const parts = [normalize(topicTitle), normalize(context), skillLevel ? normalize(skillLevel) : '', sourceRulesSignature(sources)];
+  const profileSignature = curatorProfileSignature(profile);
+  return (profileSignature ? [...parts, profileSignature] : parts).join('|');
+};
+
+export const getCuratorCacheKey = (key: CuratorCacheKey): string => hash(cacheInput(key));
+
+const readCache = (): Record<string, CacheEntry> => {
+  try {
+    const raw = localStorage.getItem(CACHE_KEY);
+    if (!raw) return {};
+    const parsed = JSON.parse(raw);
+    return parsed && typeof parsed === 'object' && !Array.isArray(parsed) ? parsed : {};
+  } catch (e) {
+    console.error("Failed to read curator cache:", e);
+    return {};
+  }
+};
+
+// Keep the most recently used entries; a quota error halves the cache and tries once more
+const writeCache = (entries: Record<string, CacheEntry>, maxEntries: number) => {
+  const keep = (limit: number) => Object.fromEntries(
+    Object.entries(entries)
+      .sort(([, a], [, b]) => b.lastUsedAt - a.lastUsedAt)
+      .slice(0, limit)
+  );
+  try {
+    localStorage.setItem(CACHE_KEY, JSON.stringify(keep(maxEntries)));
+  } catch (e) {
+    try {
+      localStorage.setItem(CACHE_KEY, JSON.stringify(keep(Math.floor(maxEntries / 2))));
+    } catch (retryError) {
+      // The cache is an optimisation; never let it break curation
+      console.error("Failed to write curator cache:", retryError);
+    }
+  }
+};
+
+export const lookupCuratorCache = (
+  key: CuratorCacheKey,
+  config: CuratorCacheConfig = getCuratorCacheConfig()
+): CacheLookup | null => {
+  const entries = readCache();
+  const entry = entries[getCuratorCacheKey(key)];
+  if (!entry || entry.key !== cacheInput(key)) return null;
+
+  entry.lastUsedAt = Date.now();
+  writeCache(entries, config.maxEntries);
+  return { content: entry.content, stale: Date.now() - entry.storedAt > config.ttlMs };
+};
+
+// Search-link fallbacks mean the curator found nothing; caching them would hide real results
+export const storeCuratorResult = (
+  key: CuratorCacheKey,
+  content: CuratedContent,
+  config: CuratorCacheConfig = getCuratorCacheConfig()
+) => {
+  if (content.resources.length === 0 || content.resources.every(isSearchFallback)) return;
+  const entries = readCache();
+  const now = Date.now();
+  entries[getCuratorCacheKey(key)] = {
+    key: cacheInput(key),
+    content,
+    storedAt: now,
+    lastUsedAt: now
+  };
+  writeCache(entries, config.maxEntries);
+};
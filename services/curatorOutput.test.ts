@@ -0,0 +1,54 @@
+import { describe, it, expect } from 'vitest';
+import { parseCuratorItems, findCuratorItem } from './curatorOutput';
+
+const item = { Title: 'The Book', URI: 'https://doc.rust-lang.org/book/', Type: 'Official Docs' };
+const expected = [{ title: 'The Book', uri: 'https://doc.rust-lang.org/book/', type: 'Official Docs' }];
+
+describe('parseCuratorItems', () => {
+  it('reads the wrapped object that JSON mode produces', () => {
+    expect(parseCuratorItems(JSON.stringify({ resources: [item] }))).toEqual({ ok: true, value: expected });
+    expect(parseCuratorItems(JSON.stringify({ Resources: [item] }))).toEqual({ ok: true, value: expected });
+  });
+
+  it('still accepts a bare array, also inside a code fence', () => {
+    expect(parseCuratorItems(`\`\`\`json\n${JSON.stringify([item])}\n\`\`\``)).toEqual({ ok: true, value: expected });
+  });
+
+  it('skips entries that are not objects', () => {
+    expect(parseCuratorItems(JSON.stringify({ resources: [null, 'x', item] }))).toEqual({ ok: true, value: expected });
+  });
+
+  it('reports other shapes and invalid JSON', () => {
+    expect(parseCuratorItems('{"items": []}')).toEqual({ ok: false, issue: 'Expected a JSON object with a "resources" array.' });
+    expect(parseCuratorItems('Here are some links').ok).toBe(false);
+  });
+});
+
+describe('findCuratorItem', () => {
+  const REDIRECT = 'https://vertexaisearch.cloud.google.com/grounding-api-redirect/AbCdEf123';
+  const docs = { title: 'Ownership - The Book', uri: 'https://doc.rust-lang.org/book/ch04-00.html' };
+  const video = { title: 'Rust ownership explained', uri: 'https://youtube.com/watch?v=dQw4w9WgXcQ' };
+  const other = { title: 'Borrowing in depth', uri: 'https://youtube.com/watch?v=aaaaaaaaaaa' };
+
+  it('matches ordinary links by canonical URL', () => {
+    const resource = { title: 'x', uri: 'https://www.youtube.com/watch?v=dQw4w9WgXcQ&utm_source=x' };
+    expect(findCuratorItem(resource, [docs, video])).toBe(video);
+    expect(findCuratorItem({ title: 'Ownership - The Book', uri: 'https://elsewhere.example' }, [docs])).toBeUndefined();
+  });
+
+  it('matches a grounded link by its site', () => {
+    expect(findCuratorItem({ title: 'x', uri: REDIRECT, source: 'doc.rust-lang.org' }, [docs, video])).toBe(docs);
+    expect(findCuratorItem({ title: 'x', uri: REDIRECT, source: 'rust-lang.org' }, [docs, video])).toBe(docs);
+  });
+
+  it('tells several pages of one site apart by title', () => {
+    const items = [video, other];
+    expect(findCuratorItem({ title: 'Borrowing in Depth', uri: REDIRECT, source: 'youtube.com' }, items)).toBe(other);
+    expect(findCuratorItem({ title: 'Something else', uri: REDIRECT, source: 'youtube.com' }, items)).toBeUndefined();
+  });
+
+  it('falls back to the title when no item is on the site', () => {
+    expect(findCuratorItem({ title: 'rust ownership explained', uri: REDIRECT, source: 'example.com' }, [docs, video])).toBe(video);
+    expect(findCuratorItem({ title: 'x', uri: REDIRECT }, [docs])).toBeUndefined();
+  });
+});
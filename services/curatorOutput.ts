@@ -0,0 +1,46 @@
+// Parsing of the Curator Agent's JSON answer. With search grounding it only adds descriptions and
+// classification to the grounded links; without grounding its links are the resources.
+
+import { ResourceLink } from "../types";
+import { isGroundingRedirect, isOnSite, isSameResource } from "./resourceIdentity";
+
+// One resource as the model described it, keys lower-cased ("Type" and "type" vary between models)
+export type CuratorItem = Record<string, any>;
+
+const isObject = (value: unknown): value is Record<string, any> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const lowerCaseKeys = (item: Record<string, any>): CuratorItem =>
+  Object.fromEntries(Object.entries(item).map(([key, value]) => [key.toLowerCase(), value]));
+
+// JSON mode of OpenAI-compatible servers only allows an object, so the prompt asks for
+// { "resources": [...] }; a bare array is still accepted from models that send one anyway
+export const parseCuratorItems = (text: string): { ok: true; value: CuratorItem[] } | { ok: false; issue: string } => {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text.replace(/```json|```/g, '').trim());
+  } catch (e: any) {
+    return { ok: false, issue: `Response is not valid JSON: ${e.message}` };
+  }
+  const list = Array.isArray(parsed) ? parsed : isObject(parsed) ? lowerCaseKeys(parsed).resources : undefined;
+  if (!Array.isArray(list)) {
+    return { ok: false, issue: 'Expected a JSON object with a "resources" array.' };
+  }
+  return { ok: true, value: list.filter(isObject).map(lowerCaseKeys) };
+};
+
+const normalizeTitle = (title: string): string => title.toLowerCase().replace(/[^\p{L}\p{N}]+/gu, ' ').trim();
+
+// The model's item for a resource. Grounded links are redirects the model never saw, so they are
+// matched by site, and by title when the model named several pages of that site (or none).
+export const findCuratorItem = (resource: ResourceLink, items: CuratorItem[]): CuratorItem | undefined => {
+  const linked = items.filter(item => typeof item.uri === 'string');
+  const exact = linked.find(item => isSameResource(item.uri, resource.uri));
+  if (exact || !isGroundingRedirect(resource.uri)) return exact;
+
+  const sameTitle = (item: CuratorItem) =>
+    typeof item.title === 'string' && normalizeTitle(item.title) === normalizeTitle(resource.title);
+  const onSite = resource.source ? linked.filter(item => isOnSite(item.uri, resource.source!)) : [];
+  if (onSite.length === 1) return onSite[0];
+  return (onSite.length > 1 ? onSite : items).find(sameTitle);
+};
@@ -0,0 +1,85 @@
+import { describe, it, expect } from 'vitest';
+import { Curriculum, CurriculumPatch, Topic } from '../types';
+import { applyPatch } from './curriculumPatch';
+
+const topic = (id: string, extra: Partial<Topic> = {}): Topic => ({
+  id, title: id, description: `${id} description`, actionableStep: `${id} step`, ...extra
+});
+
+const curriculum: Curriculum = {
+  id: 'c1',
+  createdAt: 1,
+  title: 'T',
+  description: '',
+  modules: [
+    { title: 'M1', topics: [topic('m0-t0'), topic('m0-t1'), topic('m0-t2')] },
+    { title: 'M2', topics: [topic('m1-t0')] },
+    { title: 'M3', topics: [topic('m2-t0')] }
+  ]
+};
+
+const newTopic = { title: 'New', description: 'New topic', actionableStep: 'Do it' };
+const patch = (operations: CurriculumPatch['operations']): CurriculumPatch => ({ summary: '', operations });
+const ids = (c: Curriculum) => c.modules.map(mod => mod.topics.map(t => t.id));
+
+describe('applyPatch', () => {
+  it('gives an added topic a fresh id, not the id of a topic removed in the same patch', () => {
+    const next = applyPatch(curriculum, patch([
+      { op: 'removeTopic', topicId: 'm0-t2' },
+      { op: 'addTopic', moduleIndex: 0, topic: newTopic }
+    ]));
+    const added = next.modules[0].topics.find(t => t.title === 'New')!;
+    expect(added.id).not.toBe('m0-t2');
+    expect(ids(next)[0]).toEqual(['m0-t0', 'm0-t1', added.id]);
+  });
+
+  it('gives a topic added after an earlier removal a fresh id', () => {
+    const removed = applyPatch(curriculum, patch([{ op: 'removeTopic', topicId: 'm0-t2' }]));
+    const next = applyPatch(removed, patch([{ op: 'addTopic', moduleIndex: 0, topic: newTopic }]));
+    expect(next.modules[0].topics.map(t => t.id)).not.toContain('m0-t2');
+  });
+
+  it('places an added topic after its anchor', () => {
+    const next = applyPatch(curriculum, patch([{ op: 'addTopic', moduleIndex: 0, afterTopicId: 'm0-t0', topic: newTopic }]));
+    expect(next.modules[0].topics.map(t => t.title)).toEqual(['m0-t0', 'New', 'm0-t1', 'm0-t2']);
+  });
+
+  it('drops resources and the quiz when a topic\'s subject changes', () => {
+    const curated = {
+      ...curriculum,
+      modules: [{ title: 'M1', topics: [topic('m0-t0', { curatedContent: { summary: '', resources: [] }, quiz: { questions: [], createdAt: 1 } })] }]
+    };
+    const retitled = applyPatch(curated, patch([{ op: 'updateTopic', topicId: 'm0-t0', changes: { title: 'Other' } }]));
+    expect(retitled.modules[0].topics[0]).toMatchObject({ id: 'm0-t0', title: 'Other', curatedContent: undefined, quiz: undefined });
+    const hours = applyPatch(curated, patch([{ op: 'updateTopic', topicId: 'm0-t0', changes: { estimatedHours: 3 } }]));
+    expect(hours.modules[0].topics[0].curatedContent).toBeDefined();
+  });
+
+  it('removes modules by their original index, highest first', () => {
+    const next = applyPatch(curriculum, patch([
+      { op: 'removeModule', moduleIndex: 0 },
+      { op: 'removeModule', moduleIndex: 2 }
+    ]));
+    expect(next.modules.map(mod => mod.title)).toEqual(['M2']);
+  });
+
+  it('drops modules emptied by topic removals', () => {
+    const next = applyPatch(curriculum, patch([{ op: 'removeTopic', topicId: 'm1-t0' }]));
+    expect(next.modules.map(mod => mod.title)).toEqual(['M1', 'M3']);
+  });
+
+  it('appends new modules with their topics', () => {
+    const next = applyPatch(curriculum, patch([{ op: 'addModule', title: 'M4', topics: [newTopic] }]));
+    expect(next.modules[3]).toMatchObject({ title: 'M4', topics: [{ title: 'New' }] });
+  });
+});
+
+describe('applyPatch: duplicate removals', () => {
+  it('removes a module named twice only once', () => {
+    const next = applyPatch(curriculum, patch([
+      { op: 'removeModule', moduleIndex: 1 },
+      { op: 'removeModule', moduleIndex: 1 }
+    ]));
+    expect(next.modules.map(mod => mod.title)).toEqual(['M1', 'M3']);
+  });
+});
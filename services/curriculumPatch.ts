@@ -0,0 +1,161 @@
+import { Curriculum, CurriculumPatch, PatchOperation, TopicFields } from "../types";
+import {
+  newTopicId,
+  findTopicLocation,
+  addModule,
+  renameModule,
+  deleteModule,
+  addTopic,
+  updateTopic,
+  deleteTopic,
+  moveTopic
+} from "./syllabusEditing";
+
+// Applying and previewing Refinement Agent patches. Existing topics keep their ids, so progress
+// survives; topics whose subject changed lose their curated resources and are curated again.
+
+// Fields the curator's search depends on; changing them makes the old resources stale
+const CURATION_FIELDS = ['title', 'description'] as const;
+
+// The self-check quiz also tests the actionable step
+const QUIZ_FIELDS = ['title', 'description', 'actionableStep'] as const;
+
+const changesAny = (fields: readonly (keyof TopicFields)[], before: TopicFields, changes: Partial<TopicFields>) =>
+  fields.some(key => changes[key] !== undefined && changes[key] !== before[key]);
+
+const needsRecuration = (before: TopicFields, changes: Partial<TopicFields>) => changesAny(CURATION_FIELDS, before, changes);
+
+const insertTopic = (curriculum: Curriculum, moduleIndex: number, fields: TopicFields, afterTopicId?: string): Curriculum => {
+  const id = newTopicId();
+  let next = updateTopic(addTopic(curriculum, moduleIndex, id), id, fields);
+  const anchor = afterTopicId ? findTopicLocation(next, afterTopicId) : null;
+  if (anchor) {
+    next = moveTopic(next, id, anchor.moduleIndex, anchor.topicIndex + 1);
+  }
+  return next;
+};
+
+// Order matters: operations address the original curriculum, so edits in place run first,
+// additions next (new modules are appended), and removals last, highest module index first.
+export const applyPatch = (curriculum: Curriculum, patch: CurriculumPatch): Curriculum => {
+  const ofKind = <K extends PatchOperation['op']>(op: K) =>
+    patch.operations.filter((o): o is Extract<PatchOperation, { op: K }> => o.op === op);
+
+  let next = curriculum;
+
+  ofKind('updateTopic').forEach(({ topicId, changes }) => {
+    const location = findTopicLocation(next, topicId);
+    if (!location) return;
+    const before = next.modules[location.moduleIndex].topics[location.topicIndex];
+    next = updateTopic(next, topicId, {
+      ...changes,
+      ...(needsRecuration(before, changes) ? { curatedContent: undefined } : {}),
+      ...(changesAny(QUIZ_FIELDS, before, changes) ? { quiz: undefined } : {})
+    });
+  });
+  ofKind('renameModule').forEach(({ moduleIndex, title }) => {
+    next = renameModule(next, moduleIndex, title);
+  });
+
+  ofKind('addTopic').forEach(({ moduleIndex, afterTopicId, topic }) => {
+    next = insertTopic(next, moduleIndex, topic, afterTopicId);
+  });
+  ofKind('addModule').forEach(({ title, topics }) => {
+    next = addModule(next, title);
+    const moduleIndex = next.modules.length - 1;
+    topics.forEach(topic => {
+      next = insertTopic(next, moduleIndex, topic);
+    });
+  });
+
+  ofKind('removeTopic').forEach(({ topicId }) => {
+    next = deleteTopic(next, topicId);
+  });
+  // Deduped: each index addresses the original curriculum, so a repeat would hit the next module
+  [...new Set(ofKind('removeModule').map(op => op.moduleIndex))]
+    .sort((a, b) => b - a)
+    .forEach(moduleIndex => {
+      next = deleteModule(next, moduleIndex);
+    });
+
+  // A module emptied by topic removals would break the syllabus; drop it
+  return { ...next, modules: next.modules.filter(mod => mod.topics.length > 0) };
+};
+
+// --- Preview ---
+
+export interface PatchFieldChange {
+  field: string;
+  before: string;
+  after: string;
+}
+
+export interface PatchDiffEntry {
+  kind: 'added' | 'removed' | 'changed';
+  label: string; // e.g. "Module 2 · Testing basics"
+  details: string[]; // Extra lines for additions (description, topics, ...)
+  changes: PatchFieldChange[]; // Field-level before/after for edits
+  recurate: boolean; // Accepting will curate fresh resources for this item
+}
+
+const FIELD_LABELS: Record<keyof TopicFields, string> = {
+  title: 'Title',
+  description: 'Description',
+  actionableStep: 'Actionable step',
+  estimatedHours: 'Estimated hours'
+};
+
+const formatField = (value: unknown) => (value === undefined || value === null ? '—' : String(value));
+
+// One human-readable entry per operation, in the order the agent proposed them
+export const describePatch = (curriculum: Curriculum, patch: CurriculumPatch): PatchDiffEntry[] =>
+  patch.operations.map((op): PatchDiffEntry => {
+    const entry = (kind: PatchDiffEntry['kind'], label: string, extra: Partial<PatchDiffEntry> = {}): PatchDiffEntry => ({
+      kind, label, details: [], changes: [], recurate: false, ...extra
+    });
+
+    switch (op.op) {
+      case 'updateTopic': {
+        const location = findTopicLocation(curriculum, op.topicId)!;
+        const topic = curriculum.modules[location.moduleIndex].topics[location.topicIndex];
+        const changes = (Object.keys(op.changes) as (keyof TopicFields)[])
+          .filter(key => op.changes[key] !== topic[key])
+          .map(key => ({ field: FIELD_LABELS[key], before: formatField(topic[key]), after: formatField(op.changes[key]) }));
+        return entry('changed', `Module ${location.moduleIndex + 1} · ${topic.title}`, {
+          changes,
+          recurate: needsRecuration(topic, op.changes)
+        });
+      }
+      case 'addTopic': {
+        const anchor = op.afterTopicId ? findTopicLocation(curriculum, op.afterTopicId) : null;
+        const after = anchor ? curriculum.modules[anchor.moduleIndex].topics[anchor.topicIndex].title : null;
+        return entry('added', `Module ${op.moduleIndex + 1} · ${op.topic.title}`, {
+          details: [
+            op.topic.description,
+            `Actionable step: ${op.topic.actionableStep}`,
+            ...(after ? [`Placed after "${after}"`] : [])
+          ],
+          recurate: true
+        });
+      }
+      case 'removeTopic': {
+        const location = findTopicLocation(curriculum, op.topicId)!;
+        return entry('removed', `Module ${location.moduleIndex + 1} · ${curriculum.modules[location.moduleIndex].topics[location.topicIndex].title}`);
+      }
+      case 'addModule':
+        return entry('added', `New module · ${op.title}`, {
+          details: op.topics.map(t => `Topic: ${t.title}`),
+          recurate: true
+        });
+      case 'renameModule':
+        return entry('changed', `Module ${op.moduleIndex + 1}`, {
+          changes: [{ field: 'Title', before: curriculum.modules[op.moduleIndex].title, after: op.title }]
+        });
+      case 'removeModule': {
+        const mod = curriculum.modules[op.moduleIndex];
+        return entry('removed', `Module ${op.moduleIndex + 1} · ${mod.title}`, {
+          details: [`${mod.topics.length} topic(s) will be removed`]
+        });
+      }
+    }
+  });
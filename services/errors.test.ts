@@ -0,0 +1,70 @@
+import { describe, it, expect } from 'vitest';
+import {
+  classifyError, describeError, isRunFatal, DEFAULT_QUOTA_WAIT_MS,
+  QuotaExceededError, InvalidApiKeyError, OfflineError, GroundingUnavailableError,
+  MissingApiKeyError, SafetyBlockError, UnparseableOutputError, GenerationCancelledError
+} from './errors';
+
+const withStatus = (status: number | string, message = '') => Object.assign(new Error(message), { status });
+
+describe('classifyError', () => {
+  it('reads the retry hint from a Gemini 429 body', () => {
+    const error = classifyError(withStatus(429, 'Resource exhausted. Please retry in 37.4s.'));
+    expect(error).toBeInstanceOf(QuotaExceededError);
+    expect((error as QuotaExceededError).retryAfterMs).toBe(38_000);
+    expect((classifyError(withStatus(429, '{"retryDelay": "12s"}')) as QuotaExceededError).retryAfterMs).toBe(12_000);
+  });
+
+  it('uses a retryAfterMs already on the error, and a default without any hint', () => {
+    const fromHeader = Object.assign(withStatus(429), { retryAfterMs: 4_500 });
+    expect((classifyError(fromHeader) as QuotaExceededError).retryAfterMs).toBe(4_500);
+    expect((classifyError(withStatus('RESOURCE_EXHAUSTED')) as QuotaExceededError).retryAfterMs).toBe(DEFAULT_QUOTA_WAIT_MS);
+  });
+
+  it('recognises rejected keys, missing grounding and network failures', () => {
+    expect(classifyError(withStatus(403))).toBeInstanceOf(InvalidApiKeyError);
+    expect(classifyError(new Error('API key not valid. Please pass a valid API key.'))).toBeInstanceOf(InvalidApiKeyError);
+    expect(classifyError(withStatus(400, 'google_search is not supported for this model'))).toBeInstanceOf(GroundingUnavailableError);
+    expect(classifyError(new TypeError('Failed to fetch'))).toBeInstanceOf(OfflineError);
+  });
+
+  it('returns typed, cancelled and unrecognised errors unchanged', () => {
+    const typed = new SafetyBlockError('SAFETY');
+    const cancelled = new GenerationCancelledError();
+    const other = withStatus(500, 'Internal error');
+    expect(classifyError(typed)).toBe(typed);
+    expect(classifyError(cancelled)).toBe(cancelled);
+    expect(classifyError(other)).toBe(other);
+  });
+});
+
+describe('isRunFatal', () => {
+  it('stops a run only for failures every call would hit', () => {
+    expect(isRunFatal(new MissingApiKeyError('GEMINI_API_KEY'))).toBe(true);
+    expect(isRunFatal(new QuotaExceededError(1000))).toBe(true);
+    expect(isRunFatal(new OfflineError())).toBe(true);
+    expect(isRunFatal(new UnparseableOutputError('quiz', [], '', 2))).toBe(false);
+    expect(isRunFatal(new Error('boom'))).toBe(false);
+  });
+});
+
+describe('describeError', () => {
+  it('offers a countdown for quota errors', () => {
+    expect(describeError(new QuotaExceededError(30_000))).toMatchObject({ actions: ['wait'], retryAfterMs: 30_000 });
+  });
+
+  it('offers the actions that can fix each failure', () => {
+    expect(describeError(new InvalidApiKeyError()).actions).toEqual([]);
+    expect(describeError(new SafetyBlockError('SAFETY')).actions).toEqual(['edit-goal']);
+    expect(describeError(new UnparseableOutputError('planner', ['x'], '', 3)).actions).toEqual(['retry', 'edit-goal']);
+    expect(describeError(new UnparseableOutputError('quiz', ['x'], '', 2)).actions).toEqual(['retry']);
+  });
+
+  it('falls back to a generic retry with the message', () => {
+    expect(describeError(new Error('boom'))).toEqual({
+      title: 'Something went wrong',
+      message: 'An unexpected error occurred: boom',
+      actions: ['retry']
+    });
+  });
+});
@@ -0,0 +1,189 @@
+import type { AgentName } from "./agentTrace";
+
+// Typed errors raised by the agent layer so the UI can react to specific failures
+
+export type AgentErrorKind = 'missing-key' | 'invalid-key' | 'quota' | 'offline' | 'safety' | 'unparseable' | 'grounding-unavailable';
+
+// Base for failures with a known cause. `retryable`: sending the same request again can succeed;
+// `retryAfterMs`: how long to wait first, when the backend said so.
+export class AgentError extends Error {
+  kind: AgentErrorKind;
+  retryable: boolean;
+  retryAfterMs?: number;
+
+  constructor(kind: AgentErrorKind, message: string, retry: { retryable: boolean; retryAfterMs?: number }) {
+    super(message);
+    this.name = 'AgentError';
+    this.kind = kind;
+    this.retryable = retry.retryable;
+    this.retryAfterMs = retry.retryAfterMs;
+  }
+}
+
+export class MissingApiKeyError extends AgentError {
+  envVar: string; // The .env.local variable to set
+
+  constructor(envVar: string) {
+    super('missing-key', `No API key is configured. Set ${envVar} in .env.local and restart the dev server.`, { retryable: false });
+    this.name = 'MissingApiKeyError';
+    this.envVar = envVar;
+  }
+}
+
+export class InvalidApiKeyError extends AgentError {
+  constructor() {
+    super('invalid-key', 'The API rejected the configured key. Check the key in .env.local and restart the dev server.', { retryable: false });
+    this.name = 'InvalidApiKeyError';
+  }
+}
+
+// Rate limit or quota still exhausted after retryWithBackoff gave up
+export class QuotaExceededError extends AgentError {
+  constructor(retryAfterMs: number) {
+    super('quota', `The API quota is used up. Try again in ${Math.ceil(retryAfterMs / 1000)} seconds.`, { retryable: true, retryAfterMs });
+    this.name = 'QuotaExceededError';
+  }
+}
+
+export class OfflineError extends AgentError {
+  constructor() {
+    super('offline', "Couldn't reach the model API. Check your internet connection (or that your local model server is running).", { retryable: true });
+    this.name = 'OfflineError';
+  }
+}
+
+// The model or its safety filters refused the prompt; the same request will be refused again
+export class SafetyBlockError extends AgentError {
+  reason: string; // Provider's block or finish reason, e.g. "SAFETY"
+
+  constructor(reason: string) {
+    super('safety', `The model declined this request (${reason}).`, { retryable: false });
+    this.name = 'SafetyBlockError';
+    this.reason = reason;
+  }
+}
+
+// An agent kept answering with something that doesn't parse or validate, through every repair attempt.
+// Retryable: output varies between runs.
+export class UnparseableOutputError extends AgentError {
+  agent: AgentName; // The agent that gave up
+  issues: string[]; // Validation problems from the last attempt
+  rawText: string; // Last raw model response, for debugging
+  attempts: number;
+
+  constructor(agent: AgentName, issues: string[], rawText: string, attempts: number) {
+    const label = `${agent[0].toUpperCase()}${agent.slice(1)} Agent`;
+    super('unparseable', `${label} returned unusable output after ${attempts} attempt(s): ${issues.slice(0, 3).join('; ')}`, { retryable: true });
+    this.name = 'UnparseableOutputError';
+    this.agent = agent;
+    this.issues = issues;
+    this.rawText = rawText;
+    this.attempts = attempts;
+  }
+}
+
+// Web search grounding is not available for the configured model or key
+export class GroundingUnavailableError extends AgentError {
+  constructor() {
+    super('grounding-unavailable', 'Web search is not available for the configured model, so resources could not be looked up.', { retryable: false });
+    this.name = 'GroundingUnavailableError';
+  }
+}
+
+// Raised when the user cancels generation; never shown as a failure
+export class GenerationCancelledError extends Error {
+  constructor() {
+    super('Generation was cancelled.');
+    this.name = 'GenerationCancelledError';
+  }
+}
+
+// True for our own cancellation error and for the AbortError thrown by fetch / the SDK
+export const isCancellation = (error: any): boolean =>
+  error instanceof GenerationCancelledError || error?.name === 'AbortError';
+
+export const throwIfAborted = (signal?: AbortSignal) => {
+  if (signal?.aborted) throw new GenerationCancelledError();
+};
+
+// Used when a 429 carries no retry hint
+export const DEFAULT_QUOTA_WAIT_MS = 60_000;
+
+// Rate limit (429) or quota exceeded, as reported by the Gemini SDK or an OpenAI-compatible server
+export const isRateLimitError = (error: any): boolean => (
+  error?.status === 429 ||
+  error?.code === 429 ||
+  error?.message?.includes('429') ||
+  error?.status === 'RESOURCE_EXHAUSTED'
+);
+
+// Retry-After header (OpenAI-compatible) or the retryDelay / "retry in 37s" hint in Gemini's error body
+const parseRetryAfter = (error: any): number => {
+  if (typeof error?.retryAfterMs === 'number') return error.retryAfterMs;
+  const match = String(error?.message || '').match(/retry(?:Delay)?\W*(?:in\s+)?([\d.]+)\s*s\b/i);
+  return match ? Math.ceil(Number(match[1])) * 1000 : DEFAULT_QUOTA_WAIT_MS;
+};
+
+// Maps raw SDK, HTTP and fetch errors onto the typed errors above; anything unrecognised is returned unchanged
+export const classifyError = (error: any): unknown => {
+  if (error instanceof AgentError || isCancellation(error)) return error;
+  const message = String(error?.message || '');
+  const status = typeof error?.status === 'number' ? error.status : error?.code;
+
+  if (isRateLimitError(error)) return new QuotaExceededError(parseRetryAfter(error));
+  if (status === 401 || status === 403 || /API_KEY_INVALID|API key not valid|invalid api key|incorrect api key/i.test(message)) {
+    return new InvalidApiKeyError();
+  }
+  if (status === 400 && /google_?search|search grounding/i.test(message)) return new GroundingUnavailableError();
+  if ((typeof navigator !== 'undefined' && navigator.onLine === false)
+    || /failed to fetch|networkerror|network request failed|fetch failed|ERR_INTERNET_DISCONNECTED|ECONNREFUSED|ENOTFOUND/i.test(message)) {
+    return new OfflineError();
+  }
+  return error;
+};
+
+// Failures that every remaining call would hit too, so a multi-topic run stops instead of falling back topic by topic
+export const isRunFatal = (error: unknown): boolean =>
+  error instanceof MissingApiKeyError
+  || error instanceof InvalidApiKeyError
+  || error instanceof QuotaExceededError
+  || error instanceof OfflineError;
+
+// --- Recovery advice for the UI ---
+
+export type RecoveryAction = 'retry' | 'wait' | 'edit-goal';
+
+export interface ErrorAdvice {
+  title: string;
+  message: string;
+  actions: RecoveryAction[]; // Empty when only a configuration change helps
+  retryAfterMs?: number; // With 'wait': countdown before retrying
+}
+
+export const describeError = (error: unknown): ErrorAdvice => {
+  if (error instanceof MissingApiKeyError) return { title: 'No API key', message: error.message, actions: [] };
+  if (error instanceof InvalidApiKeyError) return { title: 'API key rejected', message: error.message, actions: [] };
+  if (error instanceof QuotaExceededError) {
+    return { title: 'Quota exhausted', message: 'The API rate limit or quota is used up for now.', actions: ['wait'], retryAfterMs: error.retryAfterMs };
+  }
+  if (error instanceof OfflineError) return { title: 'No connection', message: error.message, actions: ['retry'] };
+  if (error instanceof SafetyBlockError) {
+    return { title: 'Request blocked', message: `${error.message} Rephrase your goal and generate again.`, actions: ['edit-goal'] };
+  }
+  if (error instanceof UnparseableOutputError && error.agent === 'planner') {
+    return {
+      title: 'No valid syllabus',
+      message: 'The Planner Agent could not produce a valid syllabus for this goal. Retry, or rephrase your goal.',
+      actions: ['retry', 'edit-goal']
+    };
+  }
+  if (error instanceof UnparseableOutputError) {
+    return { title: 'Unusable response', message: 'The model returned a response that could not be used. Retry, it often works the second time.', actions: ['retry'] };
+  }
+  if (error instanceof GroundingUnavailableError) return { title: 'Web search unavailable', message: error.message, actions: [] };
+  return {
+    title: 'Something went wrong',
+    message: `An unexpected error occurred${error instanceof Error && error.message ? `: ${error.message}` : '.'}`,
+    actions: ['retry']
+  };
+};
@@ -0,0 +1,251 @@
+import { Curriculum, CurriculumExport, CurriculumProgress, Schedule } from "../types";
+import { isResourceCompleted } from "./progressService";
+import { KIND_LABELS, formatDuration, getResourceKind } from "./resourceClassification";
+import { getResourceNote } from "./notes";
+
+// Bump when the exported JSON shape changes; importers migrate older versions
+export const CURRICULUM_SCHEMA_VERSION = 1;
+
+export interface ExportOptions {
+  progress?: CurriculumProgress; // When given, completed items are marked in the output
+}
+
+const checkbox = (done: boolean) => (done ? '[x]' : '[ ]');
+
+const escapeHtml = (value: string) =>
+  value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+
+// Keep file names portable across operating systems
+export const toFileName = (title: string, extension: string) => {
+  const slug = title.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || 'curriculum';
+  return `${slug}.${extension}`;
+};
+
+// --- Markdown ---
+
+export const toMarkdown = (curriculum: Curriculum, options: ExportOptions = {}): string => {
+  const { progress } = options;
+  const lines: string[] = [`# ${curriculum.title}`, '', curriculum.description, ''];
+
+  if (curriculum.goal) {
+    lines.push(`**Goal:** ${curriculum.goal}`, '');
+  }
+
+  curriculum.modules.forEach((mod, mIdx) => {
+    lines.push(`## Module ${mIdx + 1}: ${mod.title}`, '');
+
+    mod.topics.forEach((topic, tIdx) => {
+      lines.push(`### ${mIdx + 1}.${tIdx + 1} ${topic.title}`, '', topic.description, '');
+
+      const stepPrefix = progress ? `${checkbox(!!progress.completedSteps[topic.id])} ` : '';
+      lines.push(`- ${stepPrefix}**Actionable step:** ${topic.actionableStep}`, '');
+
+      const resources = topic.curatedContent?.resources || [];
+      if (resources.length > 0) {
+        lines.push('**Resources:**', '');
+        resources.forEach(res => {
+          const prefix = progress ? `${checkbox(isResourceCompleted(progress, res.uri))} ` : '';
+          const description = res.description ? ` — ${res.description}` : '';
+          const facts = [
+            KIND_LABELS[getResourceKind(res)],
+            res.durationMinutes !== undefined ? formatDuration(res.durationMinutes) : null,
+            res.cost,
+            res.difficulty
+          ].filter(Boolean).join(' · ');
+          lines.push(`- ${prefix}[${res.title}](${res.uri}) _(${facts})_${description}`);
+          // The learner's note on the resource, quoted under its list item
+          const note = getResourceNote(topic, res.uri).trim();
+          if (note) {
+            lines.push(...note.split('\n').map(line => `  > ${line}`));
+          }
+        });
+        lines.push('');
+      }
+
+      // Notes are Markdown already and go in as written
+      if (topic.notes?.trim()) {
+        lines.push('**My notes:**', '', topic.notes.trim(), '');
+      }
+    });
+  });
+
+  return lines.join('\n');
+};
+
+// --- JSON ---
+
+export const toJSONDocument = (curriculum: Curriculum, options: ExportOptions = {}): string => {
+  const doc: CurriculumExport = {
+    schemaVersion: CURRICULUM_SCHEMA_VERSION,
+    exportedAt: Date.now(),
+    curriculum,
+    progress: options.progress
+  };
+  return JSON.stringify(doc, null, 2);
+};
+
+// --- Printable HTML ---
+
+export const toPrintableHtml = (curriculum: Curriculum, options: ExportOptions = {}): string => {
+  const { progress } = options;
+  const mark = (done: boolean) => (progress ? `<span class="check">${done ? '&#9745;' : '&#9744;'}</span> ` : '');
+
+  const modulesHtml = curriculum.modules.map((mod, mIdx) => {
+    const topicsHtml = mod.topics.map((topic, tIdx) => {
+      const resources = topic.curatedContent?.resources || [];
+      const resourcesHtml = resources.length > 0
+        ? `<ul class="resources">${resources.map(res => `
+            <li>${mark(!!progress && isResourceCompleted(progress, res.uri))}<a href="${escapeHtml(res.uri)}">${escapeHtml(res.title)}</a>
+              <div class="uri">${escapeHtml(res.uri)}</div>
+              ${res.description ? `<div class="desc">${escapeHtml(res.description)}</div>` : ''}
+              ${getResourceNote(topic, res.uri).trim() ? `<div class="notes">${escapeHtml(getResourceNote(topic, res.uri).trim())}</div>` : ''}
+            </li>`).join('')}
+          </ul>`
+        : '';
+
+      return `
+        <section class="topic">
+          <h3>${mIdx + 1}.${tIdx + 1} ${escapeHtml(topic.title)}</h3>
+          <p>${escapeHtml(topic.description)}</p>
+          <p class="step">${mark(!!progress?.completedSteps[topic.id])}<strong>Actionable step:</strong> ${escapeHtml(topic.actionableStep)}</p>
+          ${resourcesHtml}
+          ${topic.notes?.trim() ? `<div class="notes"><strong>My notes</strong>\n${escapeHtml(topic.notes.trim())}</div>` : ''}
+        </section>`;
+    }).join('');
+
+    return `
+      <section class="module">
+        <h2>Module ${mIdx + 1}: ${escapeHtml(mod.title)}</h2>
+        ${topicsHtml}
+      </section>`;
+  }).join('');
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="UTF-8" />
+  <title>${escapeHtml(curriculum.title)}</title>
+  <style>
+    body { font-family: 'Inter', Arial, sans-serif; color: #0f172a; max-width: 800px; margin: 2rem auto; padding: 0 1rem; line-height: 1.5; }
+    h1 { font-size: 1.8rem; margin-bottom: 0.25rem; }
+    h2 { font-size: 1.3rem; border-bottom: 2px solid #2dd4bf; padding-bottom: 0.25rem; margin-top: 2rem; }
+    h3 { font-size: 1.05rem; margin-bottom: 0.25rem; }
+    .goal { color: #475569; }
+    .step { background: #ecfeff; border-left: 3px solid #22d3ee; padding: 0.5rem 0.75rem; }
+    .resources { padding-left: 1.25rem; }
+    .resources li { margin-bottom: 0.5rem; }
+    .uri { font-size: 0.75rem; color: #64748b; word-break: break-all; }
+    .desc { font-size: 0.85rem; color: #334155; }
+    .check { font-size: 1.1rem; }
+    .notes { white-space: pre-wrap; font-size: 0.85rem; background: #fffbeb; border-left: 3px solid #fbbf24; padding: 0.5rem 0.75rem; margin-top: 0.5rem; }
+    a { color: #0e7490; }
+    .topic { page-break-inside: avoid; }
+    @media print {
+      body { margin: 0; }
+      .module { page-break-before: auto; }
+    }
+  </style>
+</head>
+<body>
+  <h1>${escapeHtml(curriculum.title)}</h1>
+  <p>${escapeHtml(curriculum.description)}</p>
+  ${curriculum.goal ? `<p class="goal"><strong>Goal:</strong> ${escapeHtml(curriculum.goal)}</p>` : ''}
+  ${modulesHtml}
+</body>
+</html>`;
+};
+
+// --- iCalendar ---
+
+const icsDate = (timestamp: number) => {
+  const d = new Date(timestamp);
+  const pad = (n: number) => String(n).padStart(2, '0');
+  return `${d.getFullYear()}${pad(d.getMonth() + 1)}${pad(d.getDate())}`;
+};
+
+const icsStamp = (timestamp: number) => new Date(timestamp).toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+
+// RFC 5545 text escaping
+const icsText = (value: string) =>
+  value.replace(/\\/g, '\\\\').replace(/;/g, '\\;').replace(/,/g, '\\,').replace(/\r?\n/g, '\\n');
+
+// One all-day event per topic spanning its scheduled weeks, plus a milestone at the end of each module
+export const toICS = (curriculum: Curriculum, schedule: Schedule): string => {
+  const stamp = icsStamp(Date.now());
+  const events: string[] = [];
+
+  curriculum.modules.forEach((mod, mIdx) => {
+    mod.topics.forEach(topic => {
+      const dates = schedule.topicDates[topic.id];
+      if (!dates) return;
+      events.push([
+        'BEGIN:VEVENT',
+        `UID:${curriculum.id}-${topic.id}@skillscout.ai`,
+        `DTSTAMP:${stamp}`,
+        `DTSTART;VALUE=DATE:${icsDate(dates.start)}`,
+        `DTEND;VALUE=DATE:${icsDate(dates.end)}`,
+        `SUMMARY:${icsText(`${topic.title} (Module ${mIdx + 1})`)}`,
+        `DESCRIPTION:${icsText(`${topic.description}\n\nActionable step: ${topic.actionableStep}`)}`,
+        'TRANSP:TRANSPARENT',
+        'END:VEVENT'
+      ].join('\r\n'));
+    });
+
+    const moduleEnd = schedule.moduleEndDates[mIdx];
+    if (moduleEnd !== undefined) {
+      const lastDay = new Date(moduleEnd);
+      lastDay.setDate(lastDay.getDate() - 1);
+      events.push([
+        'BEGIN:VEVENT',
+        `UID:${curriculum.id}-module-${mIdx}@skillscout.ai`,
+        `DTSTAMP:${stamp}`,
+        `DTSTART;VALUE=DATE:${icsDate(lastDay.getTime())}`,
+        `DTEND;VALUE=DATE:${icsDate(moduleEnd)}`,
+        `SUMMARY:${icsText(`Finish Module ${mIdx + 1}: ${mod.title}`)}`,
+        'END:VEVENT'
+      ].join('\r\n'));
+    }
+  });
+
+  return [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    'PRODID:-//SkillScout.ai//Study Schedule//EN',
+    'CALSCALE:GREGORIAN',
+    `X-WR-CALNAME:${icsText(curriculum.title)}`,
+    ...events,
+    'END:VCALENDAR'
+  ].join('\r\n');
+};
+
+// --- Browser helpers ---
+
+export const downloadFile = (fileName: string, content: string, mimeType: string) => {
+  const blob = new Blob([content], { type: mimeType });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  URL.revokeObjectURL(url);
+};
+
+// Opens the HTML in a new window and triggers the print dialog ("Save as PDF" lives there)
+export const openPrintWindow = (html: string) => {
+  const printWindow = window.open('', '_blank');
+  if (!printWindow) {
+    throw new Error("Pop-up blocked. Allow pop-ups to print the curriculum.");
+  }
+  printWindow.document.open();
+  printWindow.document.write(html);
+  printWindow.document.close();
+  printWindow.focus();
+  printWindow.print();
+};
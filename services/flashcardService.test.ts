@@ -0,0 +1,78 @@
+import { describe, it, expect } from 'vitest';
+import { Flashcard, ReviewRating } from '../types';
+import { scheduleReview, daysUntilDue, validateFlashcardOutput } from './flashcardService';
+
+const NOW = new Date(2026, 0, 10, 15, 30).getTime();
+
+const card: Flashcard = {
+  id: 'f1',
+  curriculumId: 'c1',
+  topicId: 't1',
+  topicTitle: 'Ownership',
+  front: 'What is a move?',
+  back: 'Transfer of ownership',
+  createdAt: NOW,
+  easiness: 2.5,
+  interval: 0,
+  repetitions: 0,
+  due: NOW,
+  history: []
+};
+
+const review = (ratings: ReviewRating[]) => ratings.reduce((c, rating) => scheduleReview(c, rating, NOW), card);
+
+describe('scheduleReview', () => {
+  it('follows the SM-2 intervals 1, 6, then interval times easiness', () => {
+    const first = review(['good']);
+    const second = review(['good', 'good']);
+    const third = review(['good', 'good', 'good']);
+    expect([first.interval, second.interval, third.interval]).toEqual([1, 6, 15]);
+    expect(third.repetitions).toBe(3);
+    expect(third.easiness).toBeCloseTo(2.5);
+  });
+
+  it('adjusts easiness by rating', () => {
+    expect(review(['easy']).easiness).toBeCloseTo(2.6);
+    expect(review(['hard']).easiness).toBeCloseTo(2.36);
+    expect(review(['again']).easiness).toBeCloseTo(1.96);
+  });
+
+  it('never lets easiness drop below 1.3', () => {
+    expect(review(['again', 'again', 'again', 'again']).easiness).toBe(1.3);
+  });
+
+  it('starts a failed card over and brings it back tomorrow', () => {
+    const failed = review(['good', 'good', 'good', 'again']);
+    expect(failed.repetitions).toBe(0);
+    expect(failed.interval).toBe(1);
+    expect(daysUntilDue(failed, NOW)).toBe(1);
+  });
+
+  it('schedules from the start of today and records the review', () => {
+    const reviewed = review(['good', 'good']);
+    expect(daysUntilDue(reviewed, NOW)).toBe(6);
+    expect(new Date(reviewed.due).getHours()).toBe(0);
+    expect(reviewed.history).toEqual([
+      { reviewedAt: NOW, rating: 'good', interval: 1 },
+      { reviewedAt: NOW, rating: 'good', interval: 6 }
+    ]);
+    expect(card.history).toEqual([]);
+  });
+});
+
+describe('validateFlashcardOutput', () => {
+  const cards = (n: number) => Array.from({ length: n }, (_, i) => ({ front: `Q${i}`, back: `A${i}` }));
+
+  it('drops incomplete and duplicate cards as fixes', () => {
+    const result = validateFlashcardOutput({ cards: [...cards(3), { front: ' q0 ', back: 'again' }, { front: 'x' }] });
+    if (!('value' in result)) throw new Error(result.issues.join('; '));
+    expect(result.value).toHaveLength(3);
+    expect(result.fixes).toEqual(['cards[3] dropped: duplicate front', 'cards[4] dropped: needs a front and a back']);
+  });
+
+  it('caps the deck and rejects one that is too small', () => {
+    const capped = validateFlashcardOutput({ cards: cards(12) });
+    expect('value' in capped && capped.value).toHaveLength(10);
+    expect(validateFlashcardOutput({ cards: cards(2) }).ok).toBe(false);
+  });
+});
@@ -0,0 +1,170 @@
+import { Curriculum, Flashcard, ReviewRating, SavedCurriculum, Topic } from "../types";
+import { addDays, startOfDay } from "./scheduleService";
+import { getTopicCompletion, loadProgress } from "./progressService";
+
+// Spaced-repetition flashcards backed by localStorage, shared by every curriculum in the library.
+// Scheduling follows SM-2: each card keeps an easiness factor, an interval and a repetition count.
+const FLASHCARDS_KEY = 'skillscout.flashcards.v1';
+
+export type FlashcardValidationResult =
+  | { ok: true; value: { front: string; back: string }[]; fixes: string[] }
+  | { ok: false; issues: string[] };
+
+const MIN_CARDS = 3;
+const MAX_CARDS = 10;
+
+const INITIAL_EASINESS = 2.5;
+const MIN_EASINESS = 1.3;
+
+const QUALITY: Record<ReviewRating, number> = { again: 1, hard: 3, good: 4, easy: 5 };
+
+const readCards = (): Flashcard[] => {
+  try {
+    const raw = localStorage.getItem(FLASHCARDS_KEY);
+    if (!raw) return [];
+    const parsed = JSON.parse(raw);
+    return Array.isArray(parsed) ? parsed : [];
+  } catch (e) {
+    console.error("Failed to read flashcards:", e);
+    return [];
+  }
+};
+
+const writeCards = (cards: Flashcard[]) => {
+  try {
+    localStorage.setItem(FLASHCARDS_KEY, JSON.stringify(cards));
+  } catch (e) {
+    console.error("Failed to write flashcards:", e);
+  }
+};
+
+export const listFlashcards = (): Flashcard[] => readCards();
+
+export const getTopicFlashcards = (curriculumId: string, topicId: string): Flashcard[] =>
+  readCards().filter(card => card.curriculumId === curriculumId && card.topicId === topicId);
+
+// Due today or overdue, most overdue first
+export const getDueFlashcards = (now = Date.now()): Flashcard[] => {
+  const today = startOfDay(now);
+  return readCards().filter(card => card.due <= today).sort((a, b) => a.due - b.due || a.createdAt - b.createdAt);
+};
+
+// New cards are due straight away
+export const addFlashcards = (
+  curriculumId: string,
+  topicId: string,
+  topicTitle: string,
+  cards: { front: string; back: string }[]
+): Flashcard[] => {
+  const now = Date.now();
+  const created: Flashcard[] = cards.map(card => ({
+    id: crypto.randomUUID(),
+    curriculumId,
+    topicId,
+    topicTitle,
+    front: card.front,
+    back: card.back,
+    createdAt: now,
+    easiness: INITIAL_EASINESS,
+    interval: 0,
+    repetitions: 0,
+    due: startOfDay(now),
+    history: []
+  }));
+  writeCards([...readCards(), ...created]);
+  return created;
+};
+
+export const deleteCurriculumFlashcards = (curriculumId: string) => {
+  writeCards(readCards().filter(card => card.curriculumId !== curriculumId));
+};
+
+export interface CardCandidate {
+  curriculum: Curriculum;
+  topic: Topic;
+}
+
+// Completed topics across the library that have no cards yet, in syllabus order
+export const findTopicsWithoutFlashcards = (entries: SavedCurriculum[]): CardCandidate[] => {
+  const withCards = new Set(readCards().map(card => `${card.curriculumId}/${card.topicId}`));
+  return entries.flatMap(({ curriculum }) => {
+    const progress = loadProgress(curriculum.id);
+    return curriculum.modules.flatMap(mod => mod.topics)
+      .filter(topic => !withCards.has(`${curriculum.id}/${topic.id}`) && getTopicCompletion(progress, topic) >= 1)
+      .map(topic => ({ curriculum, topic }));
+  });
+};
+
+// Pure SM-2 step. A failed card starts over and comes back tomorrow.
+export const scheduleReview = (card: Flashcard, rating: ReviewRating, now = Date.now()): Flashcard => {
+  const quality = QUALITY[rating];
+  const easiness = Math.max(MIN_EASINESS, card.easiness + (0.1 - (5 - quality) * (0.08 + (5 - quality) * 0.02)));
+
+  let repetitions: number;
+  let interval: number;
+  if (quality < 3) {
+    repetitions = 0;
+    interval = 1;
+  } else {
+    repetitions = card.repetitions + 1;
+    interval = repetitions === 1 ? 1 : repetitions === 2 ? 6 : Math.round(card.interval * easiness);
+  }
+
+  return {
+    ...card,
+    easiness,
+    repetitions,
+    interval,
+    due: addDays(startOfDay(now), interval),
+    history: [...card.history, { reviewedAt: now, rating, interval }]
+  };
+};
+
+export const recordReview = (cardId: string, rating: ReviewRating): Flashcard | undefined => {
+  const cards = readCards();
+  const index = cards.findIndex(card => card.id === cardId);
+  if (index < 0) return undefined;
+  cards[index] = scheduleReview(cards[index], rating);
+  writeCards(cards);
+  return cards[index];
+};
+
+// Days from today until the card is due; 0 or less means due now
+export const daysUntilDue = (card: Flashcard, now = Date.now()): number =>
+  Math.round((card.due - startOfDay(now)) / (24 * 60 * 60 * 1000));
+
+const isObject = (value: unknown): value is Record<string, any> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const nonEmpty = (value: unknown): value is string => typeof value === 'string' && value.trim().length > 0;
+
+// Incomplete and duplicate cards are dropped as fixes; only too few cards is an issue
+export const validateFlashcardOutput = (raw: unknown): FlashcardValidationResult => {
+  const fixes: string[] = [];
+  if (!isObject(raw) || !Array.isArray(raw.cards)) {
+    return { ok: false, issues: ['Top-level value must be an object with a "cards" array.'] };
+  }
+  const seen = new Set<string>();
+  const cards: { front: string; back: string }[] = [];
+  raw.cards.forEach((card: unknown, idx: number) => {
+    if (!isObject(card) || !nonEmpty(card.front) || !nonEmpty(card.back)) {
+      fixes.push(`cards[${idx}] dropped: needs a front and a back`);
+      return;
+    }
+    const key = card.front.trim().toLowerCase();
+    if (seen.has(key)) {
+      fixes.push(`cards[${idx}] dropped: duplicate front`);
+      return;
+    }
+    seen.add(key);
+    cards.push({ front: card.front.trim(), back: card.back.trim() });
+  });
+
+  if (cards.length < MIN_CARDS) {
+    return { ok: false, issues: [`Only ${cards.length} usable cards; at least ${MIN_CARDS} are needed.`, ...fixes] };
+  }
+  if (cards.length > MAX_CARDS) {
+    fixes.push(`Kept the first ${MAX_CARDS} of ${cards.length} cards`);
+  }
+  return { ok: true, value: cards.slice(0, MAX_CARDS), fixes };
+};
@@ -1,39 +1,23 @@
-import { GoogleGenAI, Type, GenerateContentResponse } from "@google/genai";
-import { Curriculum, UserPreferences, CuratedContent, ResourceLink } from "../types";
-
-// Initialize the client. API_KEY is injected by the environment.
-const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
+import { Curriculum, CurriculumPatch, UserPreferences, CuratedContent, ResourceLink, SourcePreferences, LearnerProfile, AssessmentQuestion, Topic, TopicQuiz } from "../types";
+import { getProvider, GenerateRequest, GenerateResult, SchemaNode } from "./llmProvider";
+import { traceAgent, TraceRecorder, CallRecorder, AgentName } from "./agentTrace";
+import { validatePlannerOutput } from "./plannerValidation";
+import { validatePatchOutput } from "./patchValidation";
+import { UnparseableOutputError, GenerationCancelledError, AgentError, isCancellation, isRateLimitError, isRunFatal, classifyError, throwIfAborted } from "./errors";
+import { canonicalizeUrl, dedupeResources, getYouTubeThumbnail, groundedSiteDomain, isWebUrl } from "./resourceIdentity";
+import { classifyResource } from "./resourceClassification";
+import { parseCuratorItems, findCuratorItem, CuratorItem } from "./curatorOutput";
+import { applySourcePolicy, describeSourceRules, hasSourceRules } from "./sourcePolicy";
+import { describeProfileForPlanner, describeProfileForCurator } from "./profileService";
+import { validateQuizOutput } from "./topicQuiz";
+import { validateFlashcardOutput } from "./flashcardService";
+import { validateAssessmentOutput, shuffleOptions, describeAssessmentForPlanner, POOL_SIZE } from "./assessment";
 
 // --- Helper Functions ---
 
-const getYouTubeVideoId = (url: string): string | undefined => {
-  if (!url) return undefined;
-  // Robust regex to handle standard watch URLs, shorts, embeds, and youtu.be shortlinks
-  const regExp = /^.*(youtu.be\/|v\/|u\/\w\/|embed\/|watch\?v=|&v=|shorts\/)([^#&?]*).*/;
-  const match = url.match(regExp);
-  return (match && match[2].length === 11) ? match[2] : undefined;
-};
-
-const getYouTubeThumbnail = (url: string): string | undefined => {
-  const id = getYouTubeVideoId(url);
-  // 'mqdefault.jpg' is 320x180 and very reliable. 'hqdefault.jpg' is 480x360.
-  return id ? `https://img.youtube.com/vi/${id}/hqdefault.jpg` : undefined;
-};
-
-// Simple normalization to help match URLs (ignores protocol and www)
-const normalizeUrl = (url: string) => {
-  try {
-    // Basic cleanup
-    let clean = url.replace(/^(https?:\/\/)?(www\.)?/, '').replace(/\/$/, '').toLowerCase();
-    return clean;
-  } catch (e) {
-    return url;
-  }
-};
-
 // Intelligent title cleaner to prevent "youtube.com" or generic titles
 const cleanTitle = (title: string | undefined, uri: string, topicTitle: string): string => {
-  const cleanUri = normalizeUrl(uri);
+  const cleanUri = canonicalizeUrl(uri);
   
   // Fallback for missing title
   if (!title || !title.trim()) {
@@ -64,49 +48,182 @@ const cleanTitle = (title: string | undefined, uri: string, topicTitle: string):
   return clean;
 };
 
+// Host without "www.", or null when the model made up something that isn't a URL
+const hostnameOf = (uri: string): string | null => {
+  try {
+    return new URL(uri).hostname.replace('www.', '');
+  } catch {
+    return null;
+  }
+};
+
 // Robust Retry Logic for Rate Limits
-const retryWithBackoff = async <T>(fn: () => Promise<T>, retries = 3, delay = 2000): Promise<T> => {
+interface RetryOptions {
+  retries?: number;
+  delay?: number;
+  onRateLimit?: (error: any) => void; // Lets callers (e.g. the curation scheduler) react to 429s as they happen
+  onRetry?: (error: any, delay: number) => void; // Called before each wait, e.g. to record it on the agent trace
+  signal?: AbortSignal; // Stops waiting and retrying once generation is cancelled
+}
+
+const retryWithBackoff = async <T>(fn: () => Promise<T>, options: RetryOptions = {}): Promise<T> => {
+  const { retries = 3, delay = 2000, onRateLimit, signal } = options;
+  throwIfAborted(signal);
   try {
     return await fn();
   } catch (error: any) {
+    if (signal?.aborted || isCancellation(error)) {
+      throw new GenerationCancelledError();
+    }
     // Check for Rate Limit (429) or Quota Exceeded errors
-    if (retries > 0 && (
-        error?.status === 429 || 
-        error?.code === 429 || 
-        error?.message?.includes('429') || 
-        error?.status === 'RESOURCE_EXHAUSTED'
-    )) {
+    const isRateLimit = isRateLimitError(error);
+    if (isRateLimit) {
+      onRateLimit?.(error);
+    }
+    if (retries > 0 && isRateLimit) {
       console.warn(`Rate limit hit. Retrying in ${delay}ms...`);
+      options.onRetry?.(error, delay);
       await new Promise(resolve => setTimeout(resolve, delay));
-      return retryWithBackoff(fn, retries - 1, delay * 2);
+      return retryWithBackoff(fn, { ...options, retries: retries - 1, delay: delay * 2 });
     }
     throw error;
   }
 };
 
+// One provider call with rate-limit retries, recorded on the agent's trace.
+// Failures leave as the typed errors from errors.ts where the cause is recognised.
+const tracedGenerate = async (
+  trace: TraceRecorder,
+  request: GenerateRequest,
+  options: RetryOptions = {}
+): Promise<{ response: GenerateResult; call: CallRecorder }> => {
+  const provider = getProvider();
+  const call = trace.beginCall(request, provider);
+  try {
+    const response = await retryWithBackoff<GenerateResult>(() => provider.generate(request), { ...options, onRetry: call.recordRetry });
+    call.recordResponse(response);
+    return { response, call };
+  } catch (error) {
+    const typed = classifyError(error);
+    call.recordError(typed);
+    throw typed;
+  }
+};
+
+// --- Validated Generation ---
+
+// Strip code fences and surrounding prose, then parse
+const parseJsonObject = (text: string): { ok: true; value: unknown } | { ok: false; issue: string } => {
+  const cleanText = text.replace(/```json|```/g, '').trim();
+  const start = cleanText.indexOf('{');
+  const end = cleanText.lastIndexOf('}');
+  if (start < 0 || end <= start) {
+    return { ok: false, issue: 'Response does not contain a JSON object.' };
+  }
+  try {
+    return { ok: true, value: JSON.parse(cleanText.slice(start, end + 1)) };
+  } catch (e: any) {
+    return { ok: false, issue: `Response is not valid JSON: ${e.message}` };
+  }
+};
+
+type ValidationResult<T> = { ok: true; value: T; fixes: string[] } | { ok: false; issues: string[] };
+
+interface RepairRequest<T> {
+  agent: AgentName;
+  prompt: string;
+  responseSchema: SchemaNode;
+  systemInstruction: string;
+  signal?: AbortSignal;
+  maxAttempts: number; // 1 initial attempt + repairs
+  expected: string; // What the repair prompt asks for again, e.g. "the complete quiz"
+  validate: (raw: unknown) => ValidationResult<T>;
+}
+
+// Ask the model to fix its own output, quoting exactly what was wrong
+const buildRepairPrompt = (originalPrompt: string, previousText: string, issues: string[], expected: string) => `
+    ${originalPrompt.trim()}
+
+    Your previous response could not be used because of these problems:
+    ${issues.slice(0, 20).map(issue => `- ${issue}`).join('\n    ')}
+
+    Previous response:
+    ${previousText.slice(0, 4000) || '(empty)'}
+
+    Return ${expected} as a single JSON object that matches the schema. Do not add commentary.
+  `;
+
+// Structured output that must pass the agent's validator. Invalid output goes back to the model
+// with its problems until the attempts run out; the schema is only a hint to the model.
+const generateWithRepair = async <T>(trace: TraceRecorder, request: RepairRequest<T>): Promise<T> => {
+  let currentPrompt = request.prompt;
+  let lastText = '';
+  let issues: string[] = [];
+
+  for (let attempt = 1; attempt <= request.maxAttempts; attempt++) {
+    // Model and backend come from the configured provider (see llmProvider.ts)
+    const { response, call } = await tracedGenerate(trace, {
+      prompt: currentPrompt,
+      responseSchema: request.responseSchema,
+      systemInstruction: request.systemInstruction,
+      signal: request.signal
+    }, { signal: request.signal });
+
+    lastText = response.text;
+    const parsed = parseJsonObject(lastText);
+    const result: ValidationResult<T> = 'value' in parsed
+      ? request.validate(parsed.value)
+      : { ok: false, issues: [parsed.issue] };
+    call.recordParse(result);
+
+    if ('value' in result) {
+      if (result.fixes.length > 0) {
+        console.warn(`${request.agent} output normalized:`, result.fixes);
+      }
+      return result.value;
+    }
+
+    issues = result.issues;
+    console.warn(`${request.agent} output invalid (attempt ${attempt}/${request.maxAttempts}):`, issues);
+    currentPrompt = buildRepairPrompt(request.prompt, lastText, issues, request.expected);
+  }
+
+  throw new UnparseableOutputError(request.agent, issues, lastText, request.maxAttempts);
+};
+
 // --- Planner Agent ---
 
-const plannerSchema = {
-  type: Type.OBJECT,
+// Topic ids are positional ("m{module}-t{topic}"); importers reuse this to fill missing ids
+export const makeTopicId = (moduleIndex: number, topicIndex: number) => `m${moduleIndex}-t${topicIndex}`;
+
+const plannerSchema: SchemaNode = {
+  type: 'object',
   properties: {
-    title: { type: Type.STRING, description: "A catchy title for the curriculum" },
-    description: { type: Type.STRING, description: "A brief overview of the learning path" },
+    title: { type: 'string', description: "A catchy title for the curriculum" },
+    description: { type: 'string', description: "A brief overview of the learning path" },
     modules: {
-      type: Type.ARRAY,
+      type: 'array',
       items: {
-        type: Type.OBJECT,
+        type: 'object',
         properties: {
-          title: { type: Type.STRING, description: "Name of the module" },
+          title: { type: 'string', description: "Name of the module" },
           topics: {
-            type: Type.ARRAY,
+            type: 'array',
             items: {
-              type: Type.OBJECT,
+              type: 'object',
               properties: {
-                title: { type: Type.STRING, description: "Specific topic name" },
-                description: { type: Type.STRING, description: "What will be learned" },
-                actionableStep: { type: Type.STRING, description: "A concrete task or project to complete" }
+                title: { type: 'string', description: "Specific topic name" },
+                description: { type: 'string', description: "What will be learned" },
+                actionableStep: { type: 'string', description: "A concrete task or project to complete" },
+                estimatedHours: { type: 'number', description: "Realistic hours of study needed, including the actionable step" },
+                id: { type: 'string', description: "Short unique slug for this topic, e.g. \"react-hooks\"" },
+                prerequisites: {
+                  type: 'array',
+                  items: { type: 'string' },
+                  description: "Ids of the topics that must be completed before this one; empty when none"
+                }
               },
-              required: ["title", "description", "actionableStep"]
+              required: ["title", "description", "actionableStep", "estimatedHours", "id", "prerequisites"]
             }
           }
         },
@@ -117,48 +234,61 @@ const plannerSchema = {
   required: ["title", "description", "modules"]
 };
 
-export const runPlannerAgent = async (prefs: UserPreferences): Promise<Curriculum> => {
+// 1 initial attempt + 2 repairs
+const MAX_PLANNER_ATTEMPTS = 3;
+
+
+export interface PlannerOptions {
+  signal?: AbortSignal;
+}
+
+export const runPlannerAgent = (prefs: UserPreferences, options: PlannerOptions = {}): Promise<Curriculum> =>
+  traceAgent('planner', prefs.goal, trace => plannerAgent(prefs, options, trace));
+
+const plannerAgent = async (prefs: UserPreferences, options: PlannerOptions, trace: TraceRecorder): Promise<Curriculum> => {
   const prompt = `
     You are an expert Educational Curriculum Planner.
     Create a detailed, step-by-step learning curriculum for a user with the following profile:
     - Goal: ${prefs.goal}
     - Current Skill Level: ${prefs.skillLevel}
     - Time Commitment: ${prefs.timeCommitment}
+    ${describeProfileForPlanner(prefs.profile).map(line => `- ${line}`).join('\n    ')}
+    ${describeAssessmentForPlanner(prefs.assessment).map(line => `- ${line}`).join('\n    ')}
 
     Structure the curriculum into logical sequential Modules.
     Each Module should have specific Topics.
     Each Topic MUST have a clear Description and a concrete Actionable Step (e.g., "Build a Hello World app", "Write a 500-word essay", "Configure a router").
+    Each Topic MUST also have an Estimated Hours value: the realistic study time for a learner at this skill level, including the actionable step.
+    The total across all topics should fit a sensible course length for the stated time commitment.
+    Give each Topic a short unique id and list the ids of the topics it genuinely builds on as its prerequisites.
+    Only name direct prerequisites, never the topic itself, and never create circular dependencies.
     
     Keep the number of modules reasonable (3-5) for a focused start.
   `;
 
-  try {
-    // Using gemini-2.5-flash for better quota management
-    const response = await retryWithBackoff<GenerateContentResponse>(() => ai.models.generateContent({
-      model: 'gemini-2.5-flash',
-      contents: prompt,
-      config: {
-        responseMimeType: 'application/json',
-        responseSchema: plannerSchema,
-        systemInstruction: "You are a precise, structured educational planner."
-      }
-    }));
+  const systemInstruction = "You are a precise, structured educational planner.";
 
-    const text = response.text;
-    if (!text) throw new Error("No response from Planner Agent");
-    
-    // Clean potential Markdown formatting before parsing
-    const cleanText = text.replace(/```json|```/g, '').trim();
-
-    // Explicitly define structure to avoid assuming missing properties exist on the parsed object
-    const data = JSON.parse(cleanText) as { title: string; description: string; modules: any[] };
+  try {
+    const data = await generateWithRepair(trace, {
+      agent: 'planner',
+      prompt,
+      responseSchema: plannerSchema,
+      systemInstruction,
+      signal: options.signal,
+      maxAttempts: MAX_PLANNER_ATTEMPTS,
+      expected: 'the complete corrected curriculum',
+      validate: validatePlannerOutput
+    });
 
-    // Post-process to add IDs for React keys
+    // Post-process to add IDs for React keys, then point prerequisites at those IDs
+    const idsByKey = new Map<string, string>();
+    data.modules.forEach((mod, mIdx) => mod.topics.forEach((top, tIdx) => idsByKey.set(top.key, makeTopicId(mIdx, tIdx))));
     const processedModules = data.modules.map((mod, mIdx) => ({
       ...mod,
-      topics: mod.topics.map((top: any, tIdx: number) => ({
+      topics: mod.topics.map(({ key: _key, prerequisites, ...top }, tIdx) => ({
         ...top,
-        id: `m${mIdx}-t${tIdx}` // Generate ID for state management
+        id: makeTopicId(mIdx, tIdx), // Generate ID for state management
+        ...(prerequisites.length > 0 ? { prerequisites: prerequisites.map(key => idsByKey.get(key)!) } : {})
       }))
     }));
 
@@ -167,18 +297,327 @@ export const runPlannerAgent = async (prefs: UserPreferences): Promise<Curriculu
       ...data,
       id: crypto.randomUUID(),
       createdAt: Date.now(),
+      goal: prefs.goal,
+      timeCommitment: prefs.timeCommitment,
+      skillLevel: prefs.skillLevel,
+      sources: prefs.sources,
+      profile: prefs.profile,
       modules: processedModules
     };
-
   } catch (error) {
+    if (isCancellation(error)) throw error;
     console.error("Planner Agent Error:", error);
     throw error;
   }
 };
 
+// --- Assessment Agent ---
+
+const assessmentSchema: SchemaNode = {
+  type: 'object',
+  properties: {
+    questions: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          subtopic: { type: 'string', description: "Short name of the sub-skill this question checks" },
+          level: { type: 'string', enum: ['Beginner', 'Intermediate', 'Advanced'] },
+          question: { type: 'string' },
+          options: { type: 'array', items: { type: 'string' }, description: "3 to 5 answer options" },
+          correctIndex: { type: 'integer', description: "0-based index of the correct option" }
+        },
+        required: ["subtopic", "level", "question", "options", "correctIndex"]
+      }
+    }
+  },
+  required: ["questions"]
+};
+
+// 1 initial attempt + 1 repair
+const MAX_ASSESSMENT_ATTEMPTS = 2;
+
+export interface AssessmentOptions {
+  signal?: AbortSignal;
+  language?: string; // Learner's output language, from the profile
+}
+
+// Question pool for the placement quiz; the order is chosen adaptively in assessment.ts
+export const runAssessmentAgent = (goal: string, options: AssessmentOptions = {}): Promise<AssessmentQuestion[]> =>
+  traceAgent('assessment', goal, trace => assessmentAgent(goal, options, trace));
+
+const assessmentAgent = async (goal: string, options: AssessmentOptions, trace: TraceRecorder): Promise<AssessmentQuestion[]> => {
+  const perLevel = Math.ceil(POOL_SIZE / 3);
+  const prompt = `
+    You are an expert examiner writing a short placement quiz for a learner.
+    The learner's goal: ${goal}
+
+    Write ${perLevel} Beginner, ${perLevel} Intermediate and ${perLevel} Advanced multiple-choice questions.
+    - Each question checks one sub-skill the goal needs; name it in "subtopic" (2-4 words) and spread the questions over different sub-skills.
+    - Beginner questions check foundations, Advanced ones check things only an experienced practitioner knows.
+    - Give 4 options with exactly one correct answer, and plausible wrong answers.
+    - Questions must be answerable without running code or looking anything up.
+    ${options.language ? `Write the questions and options in ${options.language}.` : ''}
+  `;
+
+  const systemInstruction = "You are a fair, precise examiner. You write unambiguous questions with a single correct answer.";
+
+  const questions = await generateWithRepair(trace, {
+    agent: 'assessment',
+    prompt,
+    responseSchema: assessmentSchema,
+    systemInstruction,
+    signal: options.signal,
+    maxAttempts: MAX_ASSESSMENT_ATTEMPTS,
+    expected: 'the complete quiz',
+    validate: validateAssessmentOutput
+  });
+  return questions.map(shuffleOptions);
+};
+
+// --- Quiz Agent ---
+
+const quizSchema: SchemaNode = {
+  type: 'object',
+  properties: {
+    questions: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          kind: { type: 'string', enum: ['multiple-choice', 'short-answer'] },
+          question: { type: 'string' },
+          options: { type: 'array', items: { type: 'string' }, description: "Multiple choice only: 4 answer options" },
+          correctIndex: { type: 'integer', description: "Multiple choice only: 0-based index of the correct option" },
+          acceptedAnswers: { type: 'array', items: { type: 'string' }, description: "Short answer only: 1-4 word answers that count as correct, with common synonyms" },
+          explanation: { type: 'string', description: "Why the answer is right, shown after answering" }
+        },
+        required: ["kind", "question", "explanation"]
+      }
+    }
+  },
+  required: ["questions"]
+};
+
+// 1 initial attempt + 1 repair
+const MAX_QUIZ_ATTEMPTS = 2;
+
+export interface QuizOptions {
+  signal?: AbortSignal;
+  language?: string; // Learner's output language, from the profile
+}
+
+// Self-check questions built from the topic and what its curated resources cover
+export const runQuizAgent = (topic: Topic, options: QuizOptions = {}): Promise<TopicQuiz> =>
+  traceAgent('quiz', topic.title, trace => quizAgent(topic, options, trace));
+
+const quizAgent = async (topic: Topic, options: QuizOptions, trace: TraceRecorder): Promise<TopicQuiz> => {
+  const resources = topic.curatedContent?.resources || [];
+  const prompt = `
+    You are an expert teacher writing a short self-check quiz for one topic of a course.
+    Topic: ${topic.title}
+    What the learner studied: ${topic.description}
+    Their hands-on task: ${topic.actionableStep}
+    ${resources.length ? `Resources they used:\n    ${resources.map(r => `- ${r.title}${r.description ? `: ${r.description}` : ''}`).join('\n    ')}` : ''}
+
+    Write 5 questions: 3 or 4 multiple-choice and 1 or 2 short-answer.
+    - Test understanding of the key ideas, not trivia about the resources themselves.
+    - Multiple choice: 4 options, exactly one correct.
+    - Short answer: the answer must be a term or short phrase of 1-4 words; list every wording that should count as correct.
+    - Each question needs a 1-2 sentence explanation of the right answer.
+    ${options.language ? `Write everything in ${options.language}.` : ''}
+  `;
+
+  const systemInstruction = "You are a fair, precise teacher. You write unambiguous questions that check real understanding.";
+
+  const quiz = await generateWithRepair(trace, {
+    agent: 'quiz',
+    prompt,
+    responseSchema: quizSchema,
+    systemInstruction,
+    signal: options.signal,
+    maxAttempts: MAX_QUIZ_ATTEMPTS,
+    expected: 'the complete quiz',
+    validate: validateQuizOutput
+  });
+  return {
+    ...quiz,
+    questions: quiz.questions.map(q => (q.kind === 'multiple-choice' ? shuffleOptions(q) : q))
+  };
+};
+
+// --- Flashcard Agent ---
+
+const flashcardSchema: SchemaNode = {
+  type: 'object',
+  properties: {
+    cards: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          front: { type: 'string', description: "A question or prompt that has one clear answer" },
+          back: { type: 'string', description: "The answer, at most 2 sentences" }
+        },
+        required: ["front", "back"]
+      }
+    }
+  },
+  required: ["cards"]
+};
+
+// 1 initial attempt + 1 repair
+const MAX_FLASHCARD_ATTEMPTS = 2;
+
+export interface FlashcardOptions {
+  signal?: AbortSignal;
+  language?: string; // Learner's output language, from the profile
+}
+
+// Review cards for a finished topic: the facts and ideas worth remembering a month from now
+export const runFlashcardAgent = (topic: Topic, options: FlashcardOptions = {}): Promise<{ front: string; back: string }[]> =>
+  traceAgent('flashcard', topic.title, trace => flashcardAgent(topic, options, trace));
+
+const flashcardAgent = async (topic: Topic, options: FlashcardOptions, trace: TraceRecorder): Promise<{ front: string; back: string }[]> => {
+  const resources = topic.curatedContent?.resources || [];
+  const prompt = `
+    You are an expert teacher writing spaced-repetition flashcards for a learner who just finished a topic.
+    Topic: ${topic.title}
+    What they studied: ${topic.description}
+    Their hands-on task: ${topic.actionableStep}
+    ${resources.length ? `Resources they used:\n    ${resources.map(r => `- ${r.title}`).join('\n    ')}` : ''}
+
+    Write 5 to 8 cards covering the key concepts, terms and techniques of the topic.
+    - One idea per card; the front asks, the back answers in at most 2 sentences.
+    - Prefer "why" and "when would you use" prompts over pure definitions.
+    ${options.language ? `Write the cards in ${options.language}.` : ''}
+  `;
+
+  const systemInstruction = "You write concise, unambiguous flashcards that test one idea each.";
+
+  return generateWithRepair(trace, {
+    agent: 'flashcard',
+    prompt,
+    responseSchema: flashcardSchema,
+    systemInstruction,
+    signal: options.signal,
+    maxAttempts: MAX_FLASHCARD_ATTEMPTS,
+    expected: 'all cards',
+    validate: validateFlashcardOutput
+  });
+};
+
+// --- Refinement Agent ---
+
+const refinementSchema: SchemaNode = {
+  type: 'object',
+  properties: {
+    summary: { type: 'string', description: "One sentence telling the learner what you changed and why" },
+    operations: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          op: { type: 'string', enum: ['updateTopic', 'addTopic', 'removeTopic', 'addModule', 'renameModule', 'removeModule'] },
+          topicId: { type: 'string', description: "Existing topic id, for updateTopic and removeTopic" },
+          moduleNumber: { type: 'integer', description: "1-based module number, for addTopic, renameModule and removeModule" },
+          afterTopicId: { type: 'string', description: "For addTopic: insert after this existing topic; omit to append" },
+          title: { type: 'string' },
+          description: { type: 'string' },
+          actionableStep: { type: 'string' },
+          estimatedHours: { type: 'number' },
+          topics: {
+            type: 'array',
+            description: "For addModule: the new module's topics",
+            items: {
+              type: 'object',
+              properties: {
+                title: { type: 'string' },
+                description: { type: 'string' },
+                actionableStep: { type: 'string' },
+                estimatedHours: { type: 'number' }
+              },
+              required: ["title", "description", "actionableStep", "estimatedHours"]
+            }
+          }
+        },
+        required: ["op"]
+      }
+    }
+  },
+  required: ["summary", "operations"]
+};
+
+// 1 initial attempt + 1 repair
+const MAX_REFINEMENT_ATTEMPTS = 2;
+
+// Compact outline with the ids and numbers the agent must use to address things
+const describeSyllabus = (curriculum: Curriculum) => curriculum.modules.map((mod, mIdx) => [
+  `Module ${mIdx + 1}: ${mod.title}`,
+  ...mod.topics.map(t => `  - [${t.id}] ${t.title} (${t.estimatedHours ?? '?'}h): ${t.description} Actionable step: ${t.actionableStep}`)
+].join('\n')).join('\n');
+
+export interface RefinementOptions {
+  signal?: AbortSignal;
+  history?: string[]; // Earlier instructions in this conversation, oldest first
+}
+
+// Turn a learner's instruction into a patch against the current curriculum; nothing is applied here
+export const runRefinementAgent = (curriculum: Curriculum, instruction: string, options: RefinementOptions = {}): Promise<CurriculumPatch> =>
+  traceAgent('refinement', instruction, trace => refinementAgent(curriculum, instruction, options, trace));
+
+const refinementAgent = async (curriculum: Curriculum, instruction: string, options: RefinementOptions, trace: TraceRecorder): Promise<CurriculumPatch> => {
+  const prompt = `
+    You are an expert Educational Curriculum Planner refining an existing curriculum.
+    Course: ${curriculum.title}
+    Goal: ${curriculum.goal || curriculum.description}
+
+    Current syllabus (topic ids in brackets):
+    ${describeSyllabus(curriculum)}
+    ${options.history?.length ? `\n    Earlier requests from the learner (already handled):\n    ${options.history.map(h => `- ${h}`).join('\n    ')}\n` : ''}
+    The learner asks: "${instruction}"
+
+    Respond with the smallest set of operations that fulfils the request:
+    - updateTopic: change fields of an existing topic (only include the fields that change).
+    - addTopic: add a new topic to a module, optionally after a given topic.
+    - removeTopic / removeModule: delete an existing topic or module.
+    - addModule: append a new module with its topics.
+    - renameModule: change a module's title.
+    New topics MUST have a title, description, concrete actionable step and estimated hours.
+    Refer to existing topics only by the ids shown above, and to modules by their number.
+    If the request cannot be done, return no operations and explain why in the summary.
+    ${curriculum.profile?.language ? `Write new and changed text in ${curriculum.profile.language}, like the rest of the syllabus.` : ''}
+  `;
+
+  const systemInstruction = "You are a precise, structured educational planner. You edit curricula surgically and never rewrite what the learner did not ask to change.";
+
+  return generateWithRepair(trace, {
+    agent: 'refinement',
+    prompt,
+    responseSchema: refinementSchema,
+    systemInstruction,
+    signal: options.signal,
+    maxAttempts: MAX_REFINEMENT_ATTEMPTS,
+    expected: 'the corrected patch',
+    validate: raw => validatePatchOutput(raw, curriculum)
+  });
+};
+
 // --- Curator Agent ---
 
-export const runCuratorAgent = async (topicTitle: string, context: string): Promise<CuratedContent> => {
+export interface CuratorOptions {
+  onRateLimit?: (error: any) => void;
+  signal?: AbortSignal;
+  hint?: string; // Learner's steer, e.g. "prefer official docs"
+  excludeUris?: string[]; // Resources the topic already has
+  sources?: SourcePreferences; // Learner's domain and format rules, enforced after grounding
+  profile?: LearnerProfile; // Learning style and language steer which resources fit
+}
+
+export const runCuratorAgent = (topicTitle: string, context: string, options: CuratorOptions = {}): Promise<CuratedContent> =>
+  traceAgent('curator', topicTitle, trace => curatorAgent(topicTitle, context, options, trace));
+
+const curatorAgent = async (topicTitle: string, context: string, options: CuratorOptions, trace: TraceRecorder): Promise<CuratedContent> => {
   // We strictly instruct the model to use the tool and only return valid URLs.
   const prompt = `
     You are an expert Educational Research Assistant (Curator Agent).
@@ -188,74 +627,110 @@ export const runCuratorAgent = async (topicTitle: string, context: string): Prom
     Requirements:
     1. PRIORITIZE Video tutorials (YouTube) and official documentation.
     2. Ensure resources are relevant to the skill level.
-    3. Return a JSON array of resources.
+    3. Return a JSON object of the form { "resources": [...] }.
     
     For each resource, provide:
     - Title: A clear, descriptive title.
     - URI: The direct link.
     - Description: A 1-sentence explanation of why this resource is good.
-    - Type: "Video" or "Article".
+    - Type: one of "Video", "Official Docs", "Course", "Interactive", "Repository", "Book", "Podcast" or "Article".
+    - Duration: estimated minutes to watch, read or complete it (a number).
+    - Cost: "free", "freemium" or "paid".
+    - Difficulty: "beginner", "intermediate" or "advanced".
+    ${options.hint ? `\n    Additional guidance from the learner (follow it closely): ${options.hint}\n` : ''}
+    ${describeProfileForCurator(options.profile).length ? `\n    About the learner:\n    ${describeProfileForCurator(options.profile).map(line => `- ${line}`).join('\n    ')}\n` : ''}
+    ${describeSourceRules(options.sources).length ? `\n    Source rules from the learner:\n    ${describeSourceRules(options.sources).map(rule => `- ${rule}`).join('\n    ')}\n` : ''}
+    ${options.excludeUris?.length ? `\n    The learner already has these resources. Find DIFFERENT ones:\n    ${options.excludeUris.map(uri => `- ${uri}`).join('\n    ')}\n` : ''}
   `;
 
   try {
-    const response = await retryWithBackoff<GenerateContentResponse>(() => ai.models.generateContent({
-      model: 'gemini-2.5-flash',
-      contents: prompt,
-      config: {
-        tools: [{ googleSearch: {} }],
-        responseMimeType: 'application/json',
-      }
-    }));
+    const provider = getProvider();
+    const { response, call } = await tracedGenerate(trace, {
+      prompt,
+      useSearch: true,
+      jsonOutput: true,
+      signal: options.signal
+    }, { onRateLimit: options.onRateLimit, signal: options.signal });
 
-    const candidates = response.candidates;
-    const groundingChunks = candidates?.[0]?.groundingMetadata?.groundingChunks || [];
-    
     let resources: ResourceLink[] = [];
 
-    // 1. Map Grounding Chunks to ResourceLinks (Source of Truth)
-    resources = groundingChunks
-      .filter(chunk => chunk.web?.uri && chunk.web?.title)
-      .map(chunk => {
-        const uri = chunk.web!.uri;
-        const rawTitle = chunk.web!.title;
+    // 1. Map Grounding Sources to ResourceLinks (Source of Truth)
+    // A link whose site can't be told is dropped when there are source rules: they could not be checked against it
+    resources = response.groundingSources
+      .filter(source => source.uri && source.title)
+      .flatMap(source => {
+        const uri = source.uri;
+        const site = groundedSiteDomain(uri, source) ?? (hasSourceRules(options.sources) ? null : hostnameOf(uri));
+        if (!site) return [];
+        const rawTitle = source.title;
         const cleanT = cleanTitle(rawTitle, uri, topicTitle);
         
-        return {
+        return [{
           title: cleanT,
           uri: uri,
-          source: new URL(uri).hostname.replace('www.', ''),
+          source: site,
           thumbnail: getYouTubeThumbnail(uri),
           description: `Recommended resource found via Google Search.`
-        };
+        }];
       });
 
     // 2. Enhance with LLM descriptions
     // The model typically returns a JSON string in response.text. We can parse it to find better descriptions.
+    // Its items are also kept for classification (type, duration, cost, difficulty).
+    let curatorItems: CuratorItem[] = [];
     try {
         const text = response.text;
         if (text) {
-            const cleanJson = text.replace(/```json|```/g, '').trim();
-            const parsed = JSON.parse(cleanJson);
-            if (Array.isArray(parsed)) {
-                parsed.forEach((item: any) => {
-                    if (item.uri && item.description) {
-                         const match = resources.find(r => normalizeUrl(r.uri) === normalizeUrl(item.uri));
-                         if (match) {
-                             match.description = item.description;
-                             if (item.title && item.title.length < 100) {
-                                 match.title = cleanTitle(item.title, item.uri, topicTitle);
-                             }
+            const parsed = parseCuratorItems(text);
+            call.recordParse('value' in parsed ? { ok: true } : { ok: false, issues: [parsed.issue] });
+            if ('value' in parsed) {
+                const items = parsed.value;
+                curatorItems = items;
+                // Providers without search grounding only have the model's own links to go on
+                if (!provider.capabilities.searchGrounding) {
+                    items.forEach(fields => {
+                        if (typeof fields.uri !== 'string' || !isWebUrl(fields.uri)) return;
+                        // One malformed link must not send the whole topic to the fallback
+                        const host = hostnameOf(fields.uri);
+                        if (!host) return;
+                        if (resources.some(r => canonicalizeUrl(r.uri) === canonicalizeUrl(fields.uri))) return;
+                        resources.push({
+                            title: cleanTitle(typeof fields.title === 'string' ? fields.title : undefined, fields.uri, topicTitle),
+                            uri: fields.uri,
+                            source: host,
+                            thumbnail: getYouTubeThumbnail(fields.uri),
+                            description: `Suggested by ${provider.model} (not search-verified).`
+                        });
+                    });
+                }
+                resources.forEach(match => {
+                    const fields = findCuratorItem(match, items);
+                    if (fields && typeof fields.description === 'string' && fields.description) {
+                         match.description = fields.description;
+                         if (typeof fields.title === 'string' && fields.title && fields.title.length < 100) {
+                             match.title = cleanTitle(fields.title, match.uri, topicTitle);
                          }
                     }
                 });
             }
         }
     } catch (e) {
-        // Ignore JSON parse errors, fallback to grounding data
+        // A bad item must not lose the grounding data
+        console.warn("Curator output could not be used:", e);
     }
 
+    // Classify, then enforce the learner's source rules before falling back to search links
+    resources = resources.map(r => classifyResource(r, findCuratorItem(r, curatorItems)));
+    const policy = applySourcePolicy(dedupeResources(resources), options.sources);
+    resources = policy.kept;
+
     // 3. Fallback Generation if no resources found
+    let fallbackReason: string | undefined;
     if (resources.length === 0) {
+         fallbackReason = policy.excluded.length > 0
+           ? 'Every resource the search found was excluded by your source rules.'
+           : 'The search found no usable resources for this topic.';
+         trace.setFallback(fallbackReason);
          const q = encodeURIComponent(`${topicTitle} ${context} tutorial`);
          resources.push({
              title: `Search Google for "${topicTitle}"`,
@@ -283,17 +758,26 @@ export const runCuratorAgent = async (topicTitle: string, context: string): Prom
         });
     }
     
+    const finalResources = dedupeResources(resources).slice(0, 5);
     return {
-      summary: `Here are ${resources.length} curated resources for ${topicTitle}.`,
-      resources: resources.slice(0, 5)
+      summary: `Here are ${finalResources.length} curated resources for ${topicTitle}.`,
+      resources: finalResources,
+      ...(policy.excluded.length > 0 ? { excluded: policy.excluded } : {}),
+      ...(fallbackReason ? { fallbackReason } : {})
     };
 
   } catch (error) {
+    // Cancellation and failures every other topic would hit too (key, quota, connection) must reach
+    // the caller instead of turning into a fallback result
+    if (isCancellation(error) || isRunFatal(error)) throw error;
     console.error("Curator Agent Error:", error);
+    const fallbackReason = error instanceof AgentError ? error.message : 'The curator hit an unexpected error.';
+    trace.setFallback(error instanceof Error ? `${error.name}: ${error.message}` : String(error));
     // Safe Fallback on API Error
     const q = encodeURIComponent(topicTitle);
     return {
         summary: "Could not curate specific resources due to an error.",
+        fallbackReason,
         resources: [
             {
                 title: `Search "${topicTitle}" on Google`,
@@ -0,0 +1,47 @@
+import { GenerationCancelledError } from "./errors";
+
+// Lets the UI pause, resume and cancel a running planner/curator pipeline.
+// Pausing stops new curator calls from starting; calls already in flight finish normally.
+// Cancelling aborts in-flight requests through the AbortSignal.
+export interface GenerationController {
+  signal: AbortSignal;
+  pause: () => void;
+  resume: () => void;
+  cancel: () => void;
+  isPaused: () => boolean;
+  waitIfPaused: () => Promise<void>;
+}
+
+export const createGenerationController = (): GenerationController => {
+  const abortController = new AbortController();
+  let paused = false;
+  let waiters: { resolve: () => void; reject: (error: Error) => void }[] = [];
+
+  const releaseWaiters = (error?: Error) => {
+    const current = waiters;
+    waiters = [];
+    current.forEach(w => (error ? w.reject(error) : w.resolve()));
+  };
+
+  return {
+    signal: abortController.signal,
+    pause: () => {
+      paused = true;
+    },
+    resume: () => {
+      paused = false;
+      releaseWaiters();
+    },
+    cancel: () => {
+      paused = false;
+      abortController.abort();
+      releaseWaiters(new GenerationCancelledError());
+    },
+    isPaused: () => paused,
+    waitIfPaused: () => {
+      if (abortController.signal.aborted) return Promise.reject(new GenerationCancelledError());
+      if (!paused) return Promise.resolve();
+      return new Promise<void>((resolve, reject) => waiters.push({ resolve, reject }));
+    }
+  };
+};
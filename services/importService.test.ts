@@ -0,0 +1,209 @@
+import { describe, it, expect } from 'vitest';
+import { importCurriculumFromText, ImportResult } from './importService';
+import { CURRICULUM_SCHEMA_VERSION } from './exportService';
+
+const curriculum = {
+  id: 'c1',
+  title: 'Rust',
+  description: 'Learn Rust',
+  createdAt: 1,
+  modules: [{
+    title: 'Basics',
+    description: '',
+    topics: [{
+      id: 'm0-t0',
+      title: 'Ownership',
+      description: 'Moves and borrows',
+      actionableStep: 'Write a borrow checker puzzle',
+      curatedContent: {
+        summary: '',
+        resources: [{ title: 'The Book', uri: 'https://doc.rust-lang.org/book/' }]
+      }
+    }]
+  }]
+};
+
+const envelope = (extra: Record<string, unknown> = {}) =>
+  JSON.stringify({ schemaVersion: CURRICULUM_SCHEMA_VERSION, exportedAt: 1, curriculum, ...extra }, null, 2);
+
+const expectOk = (result: ImportResult) => {
+  if (!('curriculum' in result)) throw new Error(`Import failed: ${JSON.stringify(result.errors)}`);
+  return result;
+};
+
+const expectErrors = (result: ImportResult) => {
+  if ('curriculum' in result) throw new Error('Import unexpectedly succeeded');
+  return result.errors;
+};
+
+describe('importCurriculumFromText: versions', () => {
+  it('imports a current-version document', () => {
+    const result = expectOk(importCurriculumFromText(envelope()));
+    expect(result.curriculum.modules[0].topics[0].id).toBe('m0-t0');
+    expect(result.warnings).toEqual([]);
+  });
+
+  it('migrates a bare version 0 curriculum', () => {
+    const result = expectOk(importCurriculumFromText(JSON.stringify(curriculum)));
+    expect(result.curriculum.title).toBe('Rust');
+    expect(result.warnings.map(w => w.message)).toContain(`Migrated from schema version 0 to ${CURRICULUM_SCHEMA_VERSION}.`);
+  });
+
+  it('rejects versions newer than the app', () => {
+    const errors = expectErrors(importCurriculumFromText(envelope({ schemaVersion: CURRICULUM_SCHEMA_VERSION + 1 })));
+    expect(errors[0].path).toBe('schemaVersion');
+    expect(errors[0].message).toMatch(/newer than this app supports/);
+  });
+
+  it.each([-1, 0.5, '1', null])('reports schemaVersion %j as an import error instead of throwing', version => {
+    const errors = expectErrors(importCurriculumFromText(envelope({ schemaVersion: version })));
+    expect(errors[0].path).toBe('schemaVersion');
+    expect(errors[0].message).toMatch(/Unsupported schema version/);
+    expect(errors[0].line).toBe(2);
+  });
+
+  it('reports JSON syntax errors with a line', () => {
+    const errors = expectErrors(importCurriculumFromText('{\n  "title": "x",\n  oops\n}'));
+    expect(errors[0].message).toMatch(/^Invalid JSON/);
+    expect(errors[0].line).toBe(3);
+  });
+
+  it('points validation errors at the offending line', () => {
+    const broken = envelope().replace('"title": "Ownership"', '"title": 42');
+    const errors = expectErrors(importCurriculumFromText(broken));
+    expect(errors[0].path).toBe('curriculum.modules[0].topics[0].title');
+    expect(broken.split('\n')[errors[0].line! - 1]).toContain('"title": 42');
+  });
+});
+
+describe('importCurriculumFromText: progress', () => {
+  const score = { lastScore: 0.5, bestScore: 0.75, attempts: 2, lastTakenAt: 1 };
+
+  it('keeps well-formed progress', () => {
+    const progress = {
+      curriculumId: 'other',
+      completedResources: { 'm0-t0': ['doc.rust-lang.org/book'] },
+      completedSteps: { 'm0-t0': true },
+      quizScores: { 'm0-t0': score }
+    };
+    const result = expectOk(importCurriculumFromText(envelope({ progress })));
+    expect(result.progress).toEqual({ ...progress, curriculumId: 'c1' });
+    expect(result.warnings).toEqual([]);
+  });
+
+  it('drops entries of the wrong type with a warning each', () => {
+    const progress = {
+      completedResources: { 'm0-t0': 5, 'm0-t1': [null], 'm0-t2': ['ok.example'] },
+      completedSteps: { 'm0-t0': 'yes', 'm0-t1': false },
+      quizScores: { 'm0-t0': { lastScore: 2, bestScore: 1, attempts: 1, lastTakenAt: 1 }, 'm0-t1': score, 'm0-t2': null }
+    };
+    const result = expectOk(importCurriculumFromText(envelope({ progress })));
+    expect(result.progress).toEqual({
+      curriculumId: 'c1',
+      completedResources: { 'm0-t2': ['ok.example'] },
+      completedSteps: { 'm0-t1': false },
+      quizScores: { 'm0-t1': score }
+    });
+    expect(result.warnings.map(w => w.path)).toEqual([
+      'progress.completedResources.m0-t0',
+      'progress.completedResources.m0-t1',
+      'progress.completedSteps.m0-t0',
+      'progress.quizScores.m0-t0',
+      'progress.quizScores.m0-t2'
+    ]);
+    expect(result.warnings.every(w => w.line !== undefined)).toBe(true);
+  });
+
+  it('ignores progress that is not an object', () => {
+    const result = expectOk(importCurriculumFromText(envelope({ progress: [] })));
+    expect(result.progress).toBeUndefined();
+    expect(result.warnings[0].path).toBe('progress');
+  });
+});
+
+describe('importCurriculumFromText: resources', () => {
+  const withResource = (resource: Record<string, unknown>) => {
+    const topic = { ...curriculum.modules[0].topics[0], curatedContent: { summary: '', resources: [resource] } };
+    const modules = [{ ...curriculum.modules[0], topics: [topic] }];
+    return JSON.stringify({ schemaVersion: CURRICULUM_SCHEMA_VERSION, exportedAt: 1, curriculum: { ...curriculum, modules } });
+  };
+
+  it.each(['javascript:alert(1)', 'data:text/html,<script>alert(1)</script>', 'JAVASCRIPT:alert(1)', 'not a url'])('rejects uri %s', uri => {
+    const errors = expectErrors(importCurriculumFromText(withResource({ title: 'x', uri })));
+    expect(errors).toEqual([expect.objectContaining({
+      path: 'curriculum.modules[0].topics[0].curatedContent.resources[0].uri',
+      message: 'Resource "uri" must be an http(s) URL.'
+    })]);
+  });
+
+  it('rejects a thumbnail with another scheme', () => {
+    const errors = expectErrors(importCurriculumFromText(withResource({ title: 'x', uri: 'https://a.example', thumbnail: 'javascript:x' })));
+    expect(errors[0].path).toMatch(/thumbnail$/);
+  });
+
+  it('accepts http and https links', () => {
+    expectOk(importCurriculumFromText(withResource({ title: 'x', uri: 'http://a.example/page' })));
+  });
+});
+
+describe('importCurriculumFromText: settings', () => {
+  const withSettings = (settings: Record<string, unknown>) =>
+    envelope({ curriculum: { ...curriculum, ...settings } });
+
+  const sources = { preferredDomains: ['mdn.org'], blockedDomains: [], preferredFormats: ['video'], onlyPreferredFormats: true };
+  const settings = {
+    goal: 'Learn Rust',
+    skillLevel: 'Beginner',
+    timeCommitment: '3-5 hours/week',
+    sources,
+    profile: { learningStyle: 'project-first', deadline: 5, language: 'German' },
+    schedule: { startDate: 1, hoursPerWeek: 4 },
+    guidedMode: true
+  };
+
+  it('keeps well-formed settings', () => {
+    const result = expectOk(importCurriculumFromText(withSettings(settings)));
+    expect(result.curriculum).toMatchObject(settings);
+    expect(result.warnings).toEqual([]);
+  });
+
+  it('drops malformed settings with a warning each', () => {
+    const result = expectOk(importCurriculumFromText(withSettings({
+      goal: 5,
+      skillLevel: 'Wizard',
+      sources: 'x',
+      schedule: { startDate: 1, hoursPerWeek: 'lots' },
+      guidedMode: 'yes',
+      profile: { learningStyle: 'osmosis', deadline: 'soon', language: 'German' }
+    })));
+    const { goal, skillLevel, sources: s, schedule, guidedMode, profile } = result.curriculum;
+    expect([goal, skillLevel, s, schedule, guidedMode]).toEqual([undefined, undefined, undefined, undefined, undefined]);
+    expect(profile).toEqual({ language: 'German' });
+    expect(result.warnings.map(w => w.path)).toEqual([
+      'curriculum.goal',
+      'curriculum.skillLevel',
+      'curriculum.sources',
+      'curriculum.schedule',
+      'curriculum.guidedMode',
+      'curriculum.profile.learningStyle',
+      'curriculum.profile.deadline'
+    ]);
+  });
+
+  it.each([
+    { ...sources, preferredDomains: 5 },
+    { ...sources, blockedDomains: [1] },
+    { ...sources, preferredFormats: ['hologram'] },
+    { ...sources, onlyPreferredFormats: 'yes' }
+  ])('drops source rules %j', bad => {
+    const result = expectOk(importCurriculumFromText(withSettings({ sources: bad })));
+    expect(result.curriculum.sources).toBeUndefined();
+    expect(result.warnings[0].path).toBe('curriculum.sources');
+  });
+
+  it('drops a profile that is not an object', () => {
+    const result = expectOk(importCurriculumFromText(withSettings({ profile: [] })));
+    expect(result.curriculum.profile).toBeUndefined();
+    expect(result.warnings[0].message).toBe('Learner profile is malformed and was dropped.');
+  });
+});
@@ -0,0 +1,550 @@
+import { Curriculum, CurriculumProgress, Module, Topic, ResourceLink, QuizScore, LearnerProfile, SourcePreferences, ScheduleSettings, SkillLevel, TimeCommitment } from "../types";
+import { CURRICULUM_SCHEMA_VERSION } from "./exportService";
+import { makeTopicId } from "./geminiService";
+import { RESOURCE_KINDS, RESOURCE_COSTS, RESOURCE_DIFFICULTIES } from "./resourceClassification";
+import { validateQuizOutput } from "./topicQuiz";
+import { breakCycles } from "./prerequisites";
+import { isWebUrl } from "./resourceIdentity";
+import { LEARNING_STYLE_LABELS } from "./profileService";
+
+export interface ImportIssue {
+  path: string; // JSON path, e.g. "curriculum.modules[0].topics[2].title"
+  line?: number; // 1-based line in the source text, when it can be located
+  message: string;
+}
+
+export type ImportResult =
+  | { ok: true; curriculum: Curriculum; progress?: CurriculumProgress; warnings: ImportIssue[] }
+  | { ok: false; errors: ImportIssue[] };
+
+// --- Line Locator ---
+
+// Walks already-valid JSON text and records the line on which each value starts,
+// so validation errors can point at the exact place in the user's file.
+const buildLineIndex = (text: string): Map<string, number> => {
+  const index = new Map<string, number>();
+  let pos = 0;
+  let line = 1;
+
+  const advance = () => {
+    if (text[pos] === '\n') line++;
+    pos++;
+  };
+  const skipWhitespace = () => {
+    while (pos < text.length && /\s/.test(text[pos])) advance();
+  };
+  const readString = (): string => {
+    const start = pos;
+    advance(); // opening quote
+    while (pos < text.length && text[pos] !== '"') {
+      if (text[pos] === '\\') advance();
+      advance();
+    }
+    advance(); // closing quote
+    return JSON.parse(text.slice(start, pos));
+  };
+  const walk = (path: string) => {
+    skipWhitespace();
+    index.set(path, line);
+    const ch = text[pos];
+    if (ch === '{') {
+      advance();
+      skipWhitespace();
+      while (text[pos] !== '}') {
+        const key = readString();
+        skipWhitespace();
+        advance(); // colon
+        walk(path ? `${path}.${key}` : key);
+        skipWhitespace();
+        if (text[pos] === ',') {
+          advance();
+          skipWhitespace();
+        }
+      }
+      advance();
+    } else if (ch === '[') {
+      advance();
+      skipWhitespace();
+      let i = 0;
+      while (text[pos] !== ']') {
+        walk(`${path}[${i++}]`);
+        skipWhitespace();
+        if (text[pos] === ',') advance();
+        skipWhitespace();
+      }
+      advance();
+    } else if (ch === '"') {
+      readString();
+    } else {
+      while (pos < text.length && !/[\s,\]}]/.test(text[pos])) advance();
+    }
+  };
+
+  walk('');
+  return index;
+};
+
+// Turn a JSON.parse SyntaxError into a line number
+const locateSyntaxError = (text: string, error: Error): number | undefined => {
+  const lineMatch = error.message.match(/line (\d+)/);
+  if (lineMatch) return Number(lineMatch[1]);
+  const posMatch = error.message.match(/position (\d+)/);
+  if (posMatch) return text.slice(0, Number(posMatch[1])).split('\n').length;
+  return undefined;
+};
+
+// --- Migrations ---
+
+// Each entry upgrades a document from version N to N + 1.
+// Version 0 is a bare Curriculum object, as produced before the export envelope existed.
+const MIGRATIONS: Record<number, (doc: any) => any> = {
+  0: (doc: any) => ({
+    schemaVersion: 1,
+    exportedAt: Date.now(),
+    curriculum: doc
+  })
+};
+
+// The raw schemaVersion; documents without one are version 0
+const detectVersion = (doc: any): unknown => {
+  if (doc && typeof doc === 'object' && doc.schemaVersion !== undefined) return doc.schemaVersion;
+  return 0;
+};
+
+// Whole versions up to the current one, with a migration for every step from there
+const isSupportedVersion = (version: unknown): version is number => {
+  if (typeof version !== 'number' || !Number.isInteger(version) || version < 0 || version > CURRICULUM_SCHEMA_VERSION) return false;
+  for (let v = version; v < CURRICULUM_SCHEMA_VERSION; v++) {
+    if (!MIGRATIONS[v]) return false;
+  }
+  return true;
+};
+
+const migrate = (doc: any, from: number): { doc: any; from: number } => {
+  let current = doc;
+  for (let v = from; v < CURRICULUM_SCHEMA_VERSION; v++) {
+    current = MIGRATIONS[v](current);
+  }
+  return { doc: current, from };
+};
+
+// --- Validation ---
+
+const isObject = (value: unknown): value is Record<string, any> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const validateResource = (raw: unknown, path: string, errors: ImportIssue[]): ResourceLink | null => {
+  if (!isObject(raw)) {
+    errors.push({ path, message: 'Resource must be an object.' });
+    return null;
+  }
+  let valid = true;
+  for (const key of ['title', 'uri']) {
+    if (typeof raw[key] !== 'string' || !raw[key].trim()) {
+      errors.push({ path: `${path}.${key}`, message: `Resource "${key}" must be a non-empty string.` });
+      valid = false;
+    }
+  }
+  for (const key of ['source', 'thumbnail', 'description']) {
+    if (raw[key] !== undefined && typeof raw[key] !== 'string') {
+      errors.push({ path: `${path}.${key}`, message: `Resource "${key}" must be a string when present.` });
+      valid = false;
+    }
+  }
+  // Same rule as the curator: links end up in the exported HTML, where other schemes could run script
+  for (const key of ['uri', 'thumbnail']) {
+    if (typeof raw[key] === 'string' && raw[key].trim() && !isWebUrl(raw[key])) {
+      errors.push({ path: `${path}.${key}`, message: `Resource "${key}" must be an http(s) URL.` });
+      valid = false;
+    }
+  }
+  const enums: [string, string[]][] = [['kind', RESOURCE_KINDS], ['cost', RESOURCE_COSTS], ['difficulty', RESOURCE_DIFFICULTIES]];
+  for (const [key, allowed] of enums) {
+    if (raw[key] !== undefined && !allowed.includes(raw[key])) {
+      errors.push({ path: `${path}.${key}`, message: `Resource "${key}" must be one of: ${allowed.join(', ')}.` });
+      valid = false;
+    }
+  }
+  if (raw.durationMinutes !== undefined && (typeof raw.durationMinutes !== 'number' || raw.durationMinutes <= 0)) {
+    errors.push({ path: `${path}.durationMinutes`, message: 'Resource "durationMinutes" must be a positive number when present.' });
+    valid = false;
+  }
+  return valid ? (raw as ResourceLink) : null;
+};
+
+const validateTopic = (
+  raw: unknown,
+  path: string,
+  mIdx: number,
+  tIdx: number,
+  seenIds: Set<string>,
+  errors: ImportIssue[],
+  warnings: ImportIssue[]
+): Topic | null => {
+  if (!isObject(raw)) {
+    errors.push({ path, message: 'Topic must be an object.' });
+    return null;
+  }
+  let valid = true;
+  for (const key of ['title', 'description', 'actionableStep']) {
+    if (typeof raw[key] !== 'string') {
+      errors.push({ path: `${path}.${key}`, message: `Topic "${key}" must be a string.` });
+      valid = false;
+    }
+  }
+
+  if (raw.estimatedHours !== undefined && (typeof raw.estimatedHours !== 'number' || raw.estimatedHours < 0)) {
+    errors.push({ path: `${path}.estimatedHours`, message: 'Topic "estimatedHours" must be a non-negative number when present.' });
+    valid = false;
+  }
+
+  let id: string = raw.id;
+  if (id === undefined || id === '') {
+    id = makeTopicId(mIdx, tIdx);
+    warnings.push({ path: `${path}.id`, message: `Missing topic id, assigned "${id}".` });
+  } else if (typeof id !== 'string') {
+    errors.push({ path: `${path}.id`, message: 'Topic "id" must be a string.' });
+    valid = false;
+  }
+  if (typeof id === 'string') {
+    if (seenIds.has(id)) {
+      errors.push({ path: `${path}.id`, message: `Duplicate topic id "${id}".` });
+      valid = false;
+    }
+    seenIds.add(id);
+  }
+
+  let curatedContent: Topic['curatedContent'];
+  if (raw.curatedContent !== undefined) {
+    const ccPath = `${path}.curatedContent`;
+    const cc = raw.curatedContent;
+    if (!isObject(cc)) {
+      errors.push({ path: ccPath, message: 'curatedContent must be an object.' });
+      valid = false;
+    } else if (!Array.isArray(cc.resources)) {
+      errors.push({ path: `${ccPath}.resources`, message: 'curatedContent.resources must be an array.' });
+      valid = false;
+    } else {
+      const resources = cc.resources.map((r: unknown, rIdx: number) => validateResource(r, `${ccPath}.resources[${rIdx}]`, errors));
+      if (resources.some((r: ResourceLink | null) => r === null)) valid = false;
+      // The exclusion report is informational; malformed entries are dropped rather than failing the import
+      const excluded = Array.isArray(cc.excluded)
+        ? cc.excluded.filter((e: unknown) => isObject(e) && typeof e.uri === 'string' && typeof e.title === 'string' && typeof e.reason === 'string')
+        : [];
+      curatedContent = {
+        summary: typeof cc.summary === 'string' ? cc.summary : '',
+        resources: resources.filter((r: ResourceLink | null): r is ResourceLink => r !== null),
+        ...(excluded.length > 0 ? { excluded } : {}),
+        ...(typeof cc.fallbackReason === 'string' ? { fallbackReason: cc.fallbackReason } : {})
+      };
+    }
+  }
+
+  // A broken quiz is dropped; the learner can generate a new one
+  let quiz: Topic['quiz'];
+  if (raw.quiz !== undefined) {
+    const result = validateQuizOutput(raw.quiz);
+    if ('value' in result) {
+      quiz = { ...result.value, createdAt: typeof raw.quiz.createdAt === 'number' ? raw.quiz.createdAt : result.value.createdAt };
+    } else {
+      warnings.push({ path: `${path}.quiz`, message: 'Quiz is malformed and was dropped.' });
+    }
+  }
+
+  // Notes are the learner's own words; keep whatever is usable and drop the rest
+  let notes: string | undefined;
+  if (raw.notes !== undefined) {
+    if (typeof raw.notes === 'string') {
+      notes = raw.notes || undefined;
+    } else {
+      warnings.push({ path: `${path}.notes`, message: 'Topic notes must be a string and were dropped.' });
+    }
+  }
+  let resourceNotes: Topic['resourceNotes'];
+  if (raw.resourceNotes !== undefined) {
+    const entries = isObject(raw.resourceNotes)
+      ? Object.entries(raw.resourceNotes).filter(([, note]) => typeof note === 'string' && note !== '')
+      : [];
+    if (!isObject(raw.resourceNotes) || entries.length < Object.keys(raw.resourceNotes).length) {
+      warnings.push({ path: `${path}.resourceNotes`, message: 'Malformed resource notes were dropped.' });
+    }
+    resourceNotes = entries.length > 0 ? Object.fromEntries(entries) as Record<string, string> : undefined;
+  }
+
+  if (!valid) return null;
+  return {
+    ...(raw as Topic),
+    id,
+    curatedContent,
+    quiz,
+    notes,
+    resourceNotes
+  };
+};
+
+const validateCurriculum = (raw: unknown, path: string, errors: ImportIssue[], warnings: ImportIssue[]): Curriculum | null => {
+  if (!isObject(raw)) {
+    errors.push({ path, message: 'Curriculum must be an object.' });
+    return null;
+  }
+  let valid = true;
+  for (const key of ['title', 'description']) {
+    if (typeof raw[key] !== 'string') {
+      errors.push({ path: `${path}.${key}`, message: `Curriculum "${key}" must be a string.` });
+      valid = false;
+    }
+  }
+  if (!Array.isArray(raw.modules)) {
+    errors.push({ path: `${path}.modules`, message: '"modules" must be an array.' });
+    return null;
+  }
+
+  const seenIds = new Set<string>();
+  const modules: Module[] = [];
+  raw.modules.forEach((mod: unknown, mIdx: number) => {
+    const modPath = `${path}.modules[${mIdx}]`;
+    if (!isObject(mod)) {
+      errors.push({ path: modPath, message: 'Module must be an object.' });
+      valid = false;
+      return;
+    }
+    if (typeof mod.title !== 'string') {
+      errors.push({ path: `${modPath}.title`, message: 'Module "title" must be a string.' });
+      valid = false;
+    }
+    if (!Array.isArray(mod.topics)) {
+      errors.push({ path: `${modPath}.topics`, message: 'Module "topics" must be an array.' });
+      valid = false;
+      return;
+    }
+    const topics = mod.topics.map((t: unknown, tIdx: number) =>
+      validateTopic(t, `${modPath}.topics[${tIdx}]`, mIdx, tIdx, seenIds, errors, warnings)
+    );
+    if (topics.some((t: Topic | null) => t === null)) valid = false;
+    modules.push({ ...(mod as Module), topics: topics.filter((t: Topic | null): t is Topic => t !== null) });
+  });
+
+  if (!valid) return null;
+
+  // Prerequisites must name topics in this curriculum and stay acyclic; anything else is dropped
+  const edges: Record<string, string[]> = {};
+  modules.forEach((mod, mIdx) => mod.topics.forEach((topic, tIdx) => {
+    if (topic.prerequisites === undefined) return;
+    const prereqPath = `${path}.modules[${mIdx}].topics[${tIdx}].prerequisites`;
+    const refs: unknown[] = Array.isArray(topic.prerequisites) ? topic.prerequisites : [];
+    const known = refs.filter((ref): ref is string => typeof ref === 'string' && ref !== topic.id && seenIds.has(ref));
+    if (!Array.isArray(topic.prerequisites) || known.length < refs.length) {
+      warnings.push({ path: prereqPath, message: 'Prerequisites that do not name another topic were dropped.' });
+    }
+    edges[topic.id] = [...new Set(known)];
+  }));
+  const acyclic = breakCycles(modules.flatMap(mod => mod.topics.map(t => t.id)), edges);
+  if (acyclic.removed.length > 0) {
+    warnings.push({ path: `${path}.modules`, message: `${acyclic.removed.length} circular ${acyclic.removed.length === 1 ? 'prerequisite was' : 'prerequisites were'} dropped.` });
+  }
+  modules.forEach(mod => {
+    mod.topics = mod.topics.map(topic => {
+      if (topic.prerequisites === undefined) return topic;
+      const prerequisites = acyclic.edges[topic.id] || [];
+      const { prerequisites: _raw, ...rest } = topic;
+      return prerequisites.length > 0 ? { ...rest, prerequisites } : rest;
+    });
+  });
+
+  let id: string = raw.id;
+  if (typeof id !== 'string' || !id) {
+    id = crypto.randomUUID();
+    warnings.push({ path: `${path}.id`, message: 'Missing curriculum id, generated a new one.' });
+  }
+
+  const settingKeys = [...Object.keys(SETTING_CHECKS), 'profile'];
+  const rest = Object.fromEntries(Object.entries(raw).filter(([key]) => !settingKeys.includes(key)));
+  return {
+    ...(rest as Curriculum),
+    ...sanitizeSettings(raw, path, warnings),
+    id,
+    createdAt: typeof raw.createdAt === 'number' ? raw.createdAt : Date.now(),
+    modules
+  };
+};
+
+// Per-topic entries that don't fit the progress types are dropped one by one, with a warning each,
+// so a bad value can't crash the progress calculations after import
+const keepValid = <T>(
+  raw: Record<string, unknown>,
+  path: string,
+  isValid: (value: unknown) => value is T,
+  warnings: ImportIssue[]
+): Record<string, T> => {
+  const kept: Record<string, T> = {};
+  Object.entries(raw).forEach(([topicId, value]) => {
+    if (isValid(value)) {
+      kept[topicId] = value;
+    } else {
+      warnings.push({ path: `${path}.${topicId}`, message: 'Malformed progress entry was dropped.' });
+    }
+  });
+  return kept;
+};
+
+const isStringArray = (value: unknown): value is string[] =>
+  Array.isArray(value) && value.every(item => typeof item === 'string');
+
+const isBoolean = (value: unknown): value is boolean => typeof value === 'boolean';
+
+const isScore = (value: unknown): value is number => typeof value === 'number' && value >= 0 && value <= 1;
+
+const isQuizScore = (value: unknown): value is QuizScore =>
+  isObject(value)
+  && isScore(value.lastScore)
+  && isScore(value.bestScore)
+  && Number.isInteger(value.attempts) && value.attempts >= 0
+  && typeof value.lastTakenAt === 'number';
+
+const isFiniteNumber = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value);
+
+const isSourcePreferences = (value: unknown): value is SourcePreferences =>
+  isObject(value)
+  && isStringArray(value.preferredDomains)
+  && isStringArray(value.blockedDomains)
+  && Array.isArray(value.preferredFormats) && value.preferredFormats.every((kind: unknown) => RESOURCE_KINDS.includes(kind as any))
+  && (value.onlyPreferredDomains === undefined || isBoolean(value.onlyPreferredDomains))
+  && (value.onlyPreferredFormats === undefined || isBoolean(value.onlyPreferredFormats));
+
+const isScheduleSettings = (value: unknown): value is ScheduleSettings =>
+  isObject(value) && isFiniteNumber(value.startDate) && isFiniteNumber(value.hoursPerWeek) && value.hoursPerWeek > 0;
+
+// Curriculum settings are used by the curator, scheduler and views without further checks
+const SETTING_CHECKS: Partial<Record<keyof Curriculum, (value: unknown) => boolean>> = {
+  goal: value => typeof value === 'string',
+  timeCommitment: value => Object.values(TimeCommitment).includes(value as TimeCommitment),
+  skillLevel: value => Object.values(SkillLevel).includes(value as SkillLevel),
+  sources: isSourcePreferences,
+  schedule: isScheduleSettings,
+  guidedMode: isBoolean
+};
+
+const PROFILE_CHECKS: Record<keyof LearnerProfile, (value: unknown) => boolean> = {
+  background: value => typeof value === 'string',
+  learningStyle: value => typeof value === 'string' && value in LEARNING_STYLE_LABELS,
+  deadline: isFiniteNumber,
+  language: value => typeof value === 'string'
+};
+
+// Each check maps a key to whether its value fits; the ones that don't are dropped with a warning
+const keepChecked = (
+  raw: Record<string, any>,
+  path: string,
+  checks: Record<string, ((value: unknown) => boolean) | undefined>,
+  warnings: ImportIssue[]
+): Record<string, unknown> => {
+  const kept: Record<string, unknown> = {};
+  Object.entries(checks).forEach(([key, isValid]) => {
+    if (raw[key] === undefined) return;
+    if (isValid?.(raw[key])) {
+      kept[key] = raw[key];
+    } else {
+      warnings.push({ path: `${path}.${key}`, message: `Malformed "${key}" setting was dropped.` });
+    }
+  });
+  return kept;
+};
+
+// Settings are optional, so a crafted file or share link loses the bad ones instead of failing
+const sanitizeSettings = (raw: Record<string, any>, path: string, warnings: ImportIssue[]): Partial<Curriculum> => {
+  const settings: Partial<Curriculum> = keepChecked(raw, path, SETTING_CHECKS, warnings);
+  if (raw.profile !== undefined) {
+    if (isObject(raw.profile)) {
+      settings.profile = keepChecked(raw.profile, `${path}.profile`, PROFILE_CHECKS, warnings);
+    } else {
+      warnings.push({ path: `${path}.profile`, message: 'Learner profile is malformed and was dropped.' });
+    }
+  }
+  return settings;
+};
+
+// Progress is optional; anything malformed is dropped with a warning rather than failing the import
+const sanitizeProgress = (raw: unknown, curriculumId: string, warnings: ImportIssue[]): CurriculumProgress | undefined => {
+  if (raw === undefined) return undefined;
+  if (!isObject(raw) || !isObject(raw.completedResources) || !isObject(raw.completedSteps)) {
+    warnings.push({ path: 'progress', message: 'Progress data is malformed and was ignored.' });
+    return undefined;
+  }
+  if (raw.quizScores !== undefined && !isObject(raw.quizScores)) {
+    warnings.push({ path: 'progress.quizScores', message: 'Quiz scores are malformed and were ignored.' });
+  }
+  return {
+    curriculumId,
+    completedResources: keepValid(raw.completedResources, 'progress.completedResources', isStringArray, warnings),
+    completedSteps: keepValid(raw.completedSteps, 'progress.completedSteps', isBoolean, warnings),
+    ...(isObject(raw.quizScores) ? { quizScores: keepValid(raw.quizScores, 'progress.quizScores', isQuizScore, warnings) } : {})
+  };
+};
+
+// --- Entry Point ---
+
+export const importCurriculumFromText = (text: string): ImportResult => {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text);
+  } catch (e: any) {
+    return {
+      ok: false,
+      errors: [{ path: '', line: locateSyntaxError(text, e), message: `Invalid JSON: ${e.message}` }]
+    };
+  }
+
+  const version = detectVersion(parsed);
+  if (typeof version === 'number' && Number.isInteger(version) && version > CURRICULUM_SCHEMA_VERSION) {
+    return {
+      ok: false,
+      errors: [{ path: 'schemaVersion', line: buildLineIndex(text).get('schemaVersion'), message: `Schema version ${version} is newer than this app supports (${CURRICULUM_SCHEMA_VERSION}).` }]
+    };
+  }
+  if (!isSupportedVersion(version)) {
+    return {
+      ok: false,
+      errors: [{
+        path: 'schemaVersion',
+        line: buildLineIndex(text).get('schemaVersion'),
+        message: `Unsupported schema version ${JSON.stringify(version)}; expected a whole number from 0 to ${CURRICULUM_SCHEMA_VERSION}.`
+      }]
+    };
+  }
+
+  const { doc, from } = migrate(parsed, version);
+  // Paths in a bare (version 0) document have no "curriculum." prefix in the source text
+  const sourcePath = (path: string) => (from === 0 ? path.replace(/^curriculum\.?/, '') : path);
+
+  const errors: ImportIssue[] = [];
+  const warnings: ImportIssue[] = [];
+  if (from < CURRICULUM_SCHEMA_VERSION) {
+    warnings.push({ path: '', message: `Migrated from schema version ${from} to ${CURRICULUM_SCHEMA_VERSION}.` });
+  }
+
+  const curriculum = validateCurriculum(doc.curriculum, 'curriculum', errors, warnings);
+
+  const lineIndex = buildLineIndex(text);
+  const withLines = (issues: ImportIssue[]) =>
+    issues.map(issue => {
+      // Fall back to the nearest located ancestor for fields that are missing entirely
+      let path = sourcePath(issue.path);
+      while (path && !lineIndex.has(path)) {
+        const parent = path.replace(/(^|\.)[^.[\]]+$|\[\d+\]$/, '');
+        if (parent === path) break;
+        path = parent;
+      }
+      return { ...issue, line: lineIndex.get(path) };
+    });
+
+  if (!curriculum) {
+    return { ok: false, errors: withLines(errors) };
+  }
+
+  const progress = sanitizeProgress(doc.progress, curriculum.id, warnings);
+  return { ok: true, curriculum, progress, warnings: withLines(warnings) };
+};
+
+export const importCurriculumFromFile = async (file: File): Promise<ImportResult> => {
+  return importCurriculumFromText(await file.text());
+};
@@ -0,0 +1,95 @@
+import { Curriculum, SavedCurriculum } from "../types";
+
+// Persistent curriculum library backed by localStorage.
+// Everything is stored under a single key as an array of SavedCurriculum records.
+const LIBRARY_KEY = 'skillscout.library.v1';
+
+const readLibrary = (): SavedCurriculum[] => {
+  try {
+    const raw = localStorage.getItem(LIBRARY_KEY);
+    if (!raw) return [];
+    const parsed = JSON.parse(raw);
+    return Array.isArray(parsed) ? parsed : [];
+  } catch (e) {
+    console.error("Failed to read curriculum library:", e);
+    return [];
+  }
+};
+
+const writeLibrary = (entries: SavedCurriculum[]) => {
+  try {
+    localStorage.setItem(LIBRARY_KEY, JSON.stringify(entries));
+  } catch (e) {
+    // Most likely QuotaExceededError; keep the app usable even if saving fails
+    console.error("Failed to write curriculum library:", e);
+  }
+};
+
+// Most recently updated first
+export const listCurricula = (): SavedCurriculum[] => {
+  return readLibrary().sort((a, b) => b.updatedAt - a.updatedAt);
+};
+
+export const getSavedCurriculum = (id: string): SavedCurriculum | undefined => {
+  return readLibrary().find(entry => entry.curriculum.id === id);
+};
+
+// Insert or update; the existing progress snapshot is kept unless a new one is given
+export const saveCurriculum = (curriculum: Curriculum, progress?: number): SavedCurriculum => {
+  const entries = readLibrary();
+  const index = entries.findIndex(entry => entry.curriculum.id === curriculum.id);
+  const saved: SavedCurriculum = {
+    curriculum,
+    updatedAt: Date.now(),
+    progress: progress ?? (index >= 0 ? entries[index].progress : 0)
+  };
+  if (index >= 0) {
+    entries[index] = saved;
+  } else {
+    entries.push(saved);
+  }
+  writeLibrary(entries);
+  return saved;
+};
+
+export const updateProgressSnapshot = (id: string, progress: number) => {
+  const entries = readLibrary();
+  const entry = entries.find(e => e.curriculum.id === id);
+  if (!entry || entry.progress === progress) return;
+  entry.progress = progress;
+  writeLibrary(entries);
+};
+
+export const renameCurriculum = (id: string, title: string) => {
+  const entries = readLibrary();
+  const entry = entries.find(e => e.curriculum.id === id);
+  if (!entry) return;
+  entry.curriculum = { ...entry.curriculum, title };
+  entry.updatedAt = Date.now();
+  writeLibrary(entries);
+};
+
+export const duplicateCurriculum = (id: string): SavedCurriculum | undefined => {
+  const entries = readLibrary();
+  const source = entries.find(e => e.curriculum.id === id);
+  if (!source) return undefined;
+  const now = Date.now();
+  const copy: SavedCurriculum = {
+    // Deep copy so edits to the duplicate never leak into the original
+    curriculum: {
+      ...JSON.parse(JSON.stringify(source.curriculum)),
+      id: crypto.randomUUID(),
+      createdAt: now,
+      title: `${source.curriculum.title} (Copy)`
+    },
+    updatedAt: now,
+    progress: 0
+  };
+  entries.push(copy);
+  writeLibrary(entries);
+  return copy;
+};
+
+export const deleteCurriculum = (id: string) => {
+  writeLibrary(readLibrary().filter(entry => entry.curriculum.id !== id));
+};
@@ -0,0 +1,106 @@
+import { createGeminiProvider } from "./providers/geminiProvider";
+import { createOpenAICompatibleProvider } from "./providers/openAICompatibleProvider";
+
+// --- Provider Contract ---
+
+// Provider-neutral subset of JSON Schema used for structured output.
+// Each provider translates this into its own native schema format.
+export interface SchemaNode {
+  type: 'object' | 'array' | 'string' | 'number' | 'integer' | 'boolean';
+  description?: string;
+  properties?: Record<string, SchemaNode>;
+  items?: SchemaNode;
+  required?: string[];
+  enum?: string[];
+}
+
+export interface GenerateRequest {
+  prompt: string;
+  systemInstruction?: string;
+  responseSchema?: SchemaNode; // Ask for JSON matching this schema (structured output)
+  jsonOutput?: boolean; // Ask for JSON without a schema
+  useSearch?: boolean; // Ground the answer with live web search when supported
+  signal?: AbortSignal; // Aborts the underlying HTTP request
+}
+
+export interface GroundingSource {
+  uri: string;
+  title?: string;
+  domain?: string; // Site the page belongs to, when the backend reports it
+}
+
+export interface TokenUsage {
+  promptTokens?: number;
+  outputTokens?: number;
+  totalTokens?: number;
+}
+
+export interface GenerateResult {
+  text: string;
+  groundingSources: GroundingSource[];
+  usage?: TokenUsage; // When the backend reports it
+}
+
+export interface ProviderCapabilities {
+  structuredOutput: boolean;
+  searchGrounding: boolean;
+}
+
+export interface LLMProvider {
+  name: string;
+  model: string;
+  capabilities: ProviderCapabilities;
+  generate: (request: GenerateRequest) => Promise<GenerateResult>;
+}
+
+// --- Configuration ---
+
+export type ProviderName = 'gemini' | 'openai';
+
+export interface LLMConfig {
+  provider: ProviderName;
+  model: string;
+  apiKey?: string;
+  baseUrl?: string; // Only used by OpenAI-compatible servers (e.g. http://localhost:11434/v1 for Ollama)
+}
+
+const DEFAULT_MODELS: Record<ProviderName, string> = {
+  gemini: 'gemini-2.5-flash',
+  openai: 'llama3.1'
+};
+
+// Values are injected at build time by vite.config.ts from .env.local
+export const getLLMConfig = (): LLMConfig => {
+  const provider: ProviderName = process.env.LLM_PROVIDER === 'openai' ? 'openai' : 'gemini';
+  return {
+    provider,
+    model: process.env.LLM_MODEL || DEFAULT_MODELS[provider],
+    apiKey: provider === 'gemini' ? process.env.API_KEY : process.env.LLM_API_KEY,
+    baseUrl: process.env.LLM_BASE_URL || 'http://localhost:11434/v1'
+  };
+};
+
+export const createProvider = (config: LLMConfig): LLMProvider => {
+  switch (config.provider) {
+    case 'openai':
+      return createOpenAICompatibleProvider(config);
+    case 'gemini':
+    default:
+      return createGeminiProvider(config);
+  }
+};
+
+// Lazily created so that a missing key only fails when an agent actually runs
+let activeProvider: LLMProvider | null = null;
+
+export const getProvider = (): LLMProvider => {
+  if (!activeProvider) {
+    activeProvider = createProvider(getLLMConfig());
+  }
+  return activeProvider;
+};
+
+// Allows swapping the provider at runtime (e.g. from a settings screen)
+export const setProvider = (provider: LLMProvider) => {
+  activeProvider = provider;
+};
@@ -0,0 +1,107 @@
+import { Curriculum, Topic } from "../types";
+import { canonicalizeUrl } from "./resourceIdentity";
+
+// The learner's Markdown notes on topics and resources, and full-text search over a curriculum.
+// Notes live on the topics themselves, so they are saved, exported and imported with the curriculum.
+
+export type SearchField = 'title' | 'description' | 'notes' | 'resource' | 'resourceNote';
+
+export interface SearchHit {
+  topicId: string;
+  moduleIndex: number;
+  topicTitle: string;
+  field: SearchField;
+  label?: string; // Resource title for resource and resource-note hits
+  snippet: string;
+}
+
+export interface HighlightPart {
+  text: string;
+  hit: boolean;
+}
+
+const SNIPPET_RADIUS = 60;
+
+const mapTopic = (curriculum: Curriculum, topicId: string, update: (topic: Topic) => Topic): Curriculum => ({
+  ...curriculum,
+  modules: curriculum.modules.map(mod => ({
+    ...mod,
+    topics: mod.topics.map(t => (t.id === topicId ? update(t) : t))
+  }))
+});
+
+// Empty notes are removed rather than stored as ""
+export const setTopicNotes = (curriculum: Curriculum, topicId: string, notes: string): Curriculum =>
+  mapTopic(curriculum, topicId, topic => {
+    const { notes: _previous, ...rest } = topic;
+    return notes.trim() ? { ...rest, notes } : rest;
+  });
+
+export const getResourceNote = (topic: Topic, uri: string): string =>
+  topic.resourceNotes?.[canonicalizeUrl(uri)] || '';
+
+export const setResourceNote = (curriculum: Curriculum, topicId: string, uri: string, note: string): Curriculum =>
+  mapTopic(curriculum, topicId, topic => {
+    const id = canonicalizeUrl(uri);
+    const resourceNotes = { ...topic.resourceNotes };
+    if (note.trim()) {
+      resourceNotes[id] = note;
+    } else {
+      delete resourceNotes[id];
+    }
+    const { resourceNotes: _previous, ...rest } = topic;
+    return Object.keys(resourceNotes).length > 0 ? { ...rest, resourceNotes } : rest;
+  });
+
+export const countNotes = (topic: Topic): number =>
+  (topic.notes?.trim() ? 1 : 0) + Object.keys(topic.resourceNotes || {}).length;
+
+// Whitespace-separated, case-insensitive terms; duplicates removed
+export const parseQuery = (query: string): string[] =>
+  [...new Set(query.toLowerCase().split(/\s+/).filter(Boolean))];
+
+// Splits text into plain and matching parts for rendering with <mark>
+export const highlightText = (text: string, terms: string[]): HighlightPart[] => {
+  if (terms.length === 0 || !text) return [{ text, hit: false }];
+  const pattern = new RegExp(`(${terms.map(term => term.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')).join('|')})`, 'gi');
+  return text
+    .split(pattern)
+    .filter(Boolean)
+    .map(part => ({ text: part, hit: terms.includes(part.toLowerCase()) }));
+};
+
+// A window of text around the first match, on one line
+const makeSnippet = (text: string, terms: string[]): string => {
+  const flat = text.replace(/\s+/g, ' ').trim();
+  const lower = flat.toLowerCase();
+  const first = Math.min(...terms.map(term => lower.indexOf(term)).filter(index => index >= 0));
+  if (!Number.isFinite(first) || flat.length <= SNIPPET_RADIUS * 2) return flat;
+  const start = Math.max(0, first - SNIPPET_RADIUS);
+  const end = Math.min(flat.length, first + SNIPPET_RADIUS);
+  return `${start > 0 ? '…' : ''}${flat.slice(start, end)}${end < flat.length ? '…' : ''}`;
+};
+
+// A field matches when it contains every term. Hits come in syllabus order, one per matching field.
+export const searchCurriculum = (curriculum: Curriculum, query: string): SearchHit[] => {
+  const terms = parseQuery(query);
+  if (terms.length === 0) return [];
+  const matches = (text?: string) => !!text && terms.every(term => text.toLowerCase().includes(term));
+
+  const hits: SearchHit[] = [];
+  curriculum.modules.forEach((mod, moduleIndex) => {
+    mod.topics.forEach(topic => {
+      const add = (field: SearchField, text: string, label?: string) =>
+        hits.push({ topicId: topic.id, moduleIndex, topicTitle: topic.title, field, label, snippet: makeSnippet(text, terms) });
+
+      if (matches(topic.title)) add('title', topic.title);
+      if (matches(topic.description)) add('description', topic.description);
+      if (matches(topic.notes)) add('notes', topic.notes!);
+      (topic.curatedContent?.resources || []).forEach(res => {
+        if (matches(res.title)) add('resource', res.title, res.title);
+        const note = getResourceNote(topic, res.uri);
+        if (matches(note)) add('resourceNote', note, res.title);
+      });
+    });
+  });
+  return hits;
+};
@@ -0,0 +1,87 @@
+import { describe, it, expect } from 'vitest';
+import { Curriculum, Topic } from '../types';
+import { validatePatchOutput, PatchValidationResult } from './patchValidation';
+
+const topic = (id: string): Topic => ({ id, title: id, description: '', actionableStep: '' });
+
+const curriculum: Curriculum = {
+  id: 'c1',
+  createdAt: 1,
+  title: 'T',
+  description: '',
+  modules: [
+    { title: 'M1', topics: [topic('m0-t0'), topic('m0-t1')] },
+    { title: 'M2', topics: [topic('m1-t0')] },
+    { title: 'M3', topics: [topic('m2-t0')] }
+  ]
+};
+
+const expectValid = (result: PatchValidationResult) => {
+  if (!('value' in result)) throw new Error(`Invalid patch: ${result.issues.join('; ')}`);
+  return result;
+};
+
+const expectIssues = (result: PatchValidationResult) => {
+  if ('value' in result) throw new Error('Patch unexpectedly valid');
+  return result.issues;
+};
+
+describe('validatePatchOutput', () => {
+  it('converts 1-based module numbers to indexes', () => {
+    const result = expectValid(validatePatchOutput({
+      summary: 'Rename',
+      operations: [{ op: 'renameModule', moduleNumber: 2, title: ' Testing ' }]
+    }, curriculum));
+    expect(result.value.operations).toEqual([{ op: 'renameModule', moduleIndex: 1, title: 'Testing' }]);
+  });
+
+  it('reports unknown topic ids and out-of-range modules', () => {
+    const issues = expectIssues(validatePatchOutput({
+      operations: [
+        { op: 'removeTopic', topicId: 'nope' },
+        { op: 'removeModule', moduleNumber: 4 },
+        { op: 'explode' }
+      ]
+    }, curriculum));
+    expect(issues).toEqual([
+      'operations[0].topicId "nope" is not an existing topic id.',
+      'operations[1].moduleNumber must be between 1 and 3.',
+      expect.stringMatching(/^operations\[2\]\.op must be one of/)
+    ]);
+  });
+
+  it('drops updates that change nothing', () => {
+    const result = expectValid(validatePatchOutput({ operations: [{ op: 'updateTopic', topicId: 'm0-t0', title: '  ' }] }, curriculum));
+    expect(result.value.operations).toEqual([]);
+    expect(result.fixes).toEqual(['operations[0] changes nothing and was dropped']);
+  });
+
+  it('drops a repeated module removal', () => {
+    const result = expectValid(validatePatchOutput({
+      operations: [
+        { op: 'removeModule', moduleNumber: 2 },
+        { op: 'removeModule', moduleNumber: '2' }
+      ]
+    }, curriculum));
+    expect(result.value.operations).toEqual([{ op: 'removeModule', moduleIndex: 1 }]);
+    expect(result.fixes).toEqual(['operations[1] removes module 2 again and was dropped']);
+  });
+
+  it('drops a repeated topic removal', () => {
+    const result = expectValid(validatePatchOutput({
+      operations: [
+        { op: 'removeTopic', topicId: 'm0-t1' },
+        { op: 'removeTopic', topicId: 'm0-t1' }
+      ]
+    }, curriculum));
+    expect(result.value.operations).toEqual([{ op: 'removeTopic', topicId: 'm0-t1' }]);
+    expect(result.fixes).toHaveLength(1);
+  });
+
+  it('requires complete new topics', () => {
+    const issues = expectIssues(validatePatchOutput({
+      operations: [{ op: 'addTopic', moduleNumber: 1, title: 'X', description: 'Y' }]
+    }, curriculum));
+    expect(issues).toEqual(['operations[0].actionableStep must be a non-empty string.']);
+  });
+});
@@ -0,0 +1,187 @@
+import { Curriculum, CurriculumPatch, PatchOperation, TopicFields } from "../types";
+
+// Runtime validation of raw Refinement Agent output against the curriculum it was asked to edit.
+// The model addresses modules by 1-based number (as learners do: "module 2") and topics by id.
+
+export type PatchValidationResult =
+  | { ok: true; value: CurriculumPatch; fixes: string[] }
+  | { ok: false; issues: string[] };
+
+const OPS = ['updateTopic', 'addTopic', 'removeTopic', 'addModule', 'renameModule', 'removeModule'] as const;
+
+const MAX_TOPIC_HOURS = 100;
+
+const isObject = (value: unknown): value is Record<string, any> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const nonEmpty = (value: unknown): value is string => typeof value === 'string' && value.trim().length > 0;
+
+const readHours = (value: unknown): number | undefined => {
+  const hours = Number(value);
+  return value !== undefined && value !== null && Number.isFinite(hours) && hours > 0
+    ? Math.min(hours, MAX_TOPIC_HOURS)
+    : undefined;
+};
+
+// Only the fields that are present; used for partial updates
+const readChanges = (raw: Record<string, any>): Partial<TopicFields> => {
+  const changes: Partial<TopicFields> = {};
+  for (const key of ['title', 'description', 'actionableStep'] as const) {
+    if (nonEmpty(raw[key])) changes[key] = raw[key].trim();
+  }
+  const hours = readHours(raw.estimatedHours);
+  if (hours !== undefined) changes.estimatedHours = hours;
+  return changes;
+};
+
+const readNewTopic = (raw: unknown, path: string, issues: string[]): TopicFields | null => {
+  if (!isObject(raw)) {
+    issues.push(`${path} must be an object.`);
+    return null;
+  }
+  let valid = true;
+  for (const key of ['title', 'description', 'actionableStep'] as const) {
+    if (!nonEmpty(raw[key])) {
+      issues.push(`${path}.${key} must be a non-empty string.`);
+      valid = false;
+    }
+  }
+  if (!valid) return null;
+  return {
+    title: raw.title.trim(),
+    description: raw.description.trim(),
+    actionableStep: raw.actionableStep.trim(),
+    estimatedHours: readHours(raw.estimatedHours)
+  };
+};
+
+// Unknown ids and module numbers are issues (sent back to the model); no-op edits are dropped as fixes
+export const validatePatchOutput = (raw: unknown, curriculum: Curriculum): PatchValidationResult => {
+  const issues: string[] = [];
+  const fixes: string[] = [];
+
+  if (!isObject(raw)) {
+    return { ok: false, issues: ['Top-level value must be an object with "summary" and "operations".'] };
+  }
+  if (!Array.isArray(raw.operations)) {
+    return { ok: false, issues: ['"operations" must be an array.'] };
+  }
+
+  const topicIds = new Set(curriculum.modules.flatMap(mod => mod.topics.map(t => t.id)));
+  const moduleCount = curriculum.modules.length;
+
+  const readModuleIndex = (value: unknown, path: string): number | null => {
+    const number = Number(value);
+    if (!Number.isInteger(number) || number < 1 || number > moduleCount) {
+      issues.push(`${path}.moduleNumber must be between 1 and ${moduleCount}.`);
+      return null;
+    }
+    return number - 1;
+  };
+
+  const readTopicId = (value: unknown, path: string, field = 'topicId'): string | null => {
+    if (typeof value !== 'string' || !topicIds.has(value)) {
+      issues.push(`${path}.${field} "${value}" is not an existing topic id.`);
+      return null;
+    }
+    return value;
+  };
+
+  const operations: PatchOperation[] = [];
+  // Removing the same module twice would delete its neighbour once indexes shift; repeats are dropped
+  const removedModules = new Set<number>();
+  const removedTopics = new Set<string>();
+
+  raw.operations.forEach((op: unknown, index: number) => {
+    const path = `operations[${index}]`;
+    if (!isObject(op) || !OPS.includes(op.op)) {
+      issues.push(`${path}.op must be one of: ${OPS.join(', ')}.`);
+      return;
+    }
+
+    switch (op.op as typeof OPS[number]) {
+      case 'updateTopic': {
+        const topicId = readTopicId(op.topicId, path);
+        if (!topicId) return;
+        const changes = readChanges(op);
+        if (Object.keys(changes).length === 0) {
+          fixes.push(`${path} changes nothing and was dropped`);
+          return;
+        }
+        operations.push({ op: 'updateTopic', topicId, changes });
+        return;
+      }
+      case 'addTopic': {
+        const moduleIndex = readModuleIndex(op.moduleNumber, path);
+        const topic = readNewTopic(op, path, issues);
+        if (moduleIndex === null || !topic) return;
+        let afterTopicId: string | undefined;
+        if (op.afterTopicId !== undefined && op.afterTopicId !== null && op.afterTopicId !== '') {
+          afterTopicId = readTopicId(op.afterTopicId, path, 'afterTopicId') ?? undefined;
+          if (!afterTopicId) return;
+        }
+        operations.push({ op: 'addTopic', moduleIndex, afterTopicId, topic });
+        return;
+      }
+      case 'removeTopic': {
+        const topicId = readTopicId(op.topicId, path);
+        if (!topicId) return;
+        if (removedTopics.has(topicId)) {
+          fixes.push(`${path} removes topic "${topicId}" again and was dropped`);
+          return;
+        }
+        removedTopics.add(topicId);
+        operations.push({ op: 'removeTopic', topicId });
+        return;
+      }
+      case 'addModule': {
+        if (!nonEmpty(op.title)) {
+          issues.push(`${path}.title must be a non-empty string.`);
+          return;
+        }
+        if (!Array.isArray(op.topics) || op.topics.length === 0) {
+          issues.push(`${path}.topics must be a non-empty array.`);
+          return;
+        }
+        const topics = op.topics.map((t: unknown, tIdx: number) => readNewTopic(t, `${path}.topics[${tIdx}]`, issues));
+        if (topics.some((t: TopicFields | null) => !t)) return;
+        operations.push({ op: 'addModule', title: op.title.trim(), topics });
+        return;
+      }
+      case 'renameModule': {
+        const moduleIndex = readModuleIndex(op.moduleNumber, path);
+        if (moduleIndex === null) return;
+        if (!nonEmpty(op.title)) {
+          issues.push(`${path}.title must be a non-empty string.`);
+          return;
+        }
+        operations.push({ op: 'renameModule', moduleIndex, title: op.title.trim() });
+        return;
+      }
+      case 'removeModule': {
+        const moduleIndex = readModuleIndex(op.moduleNumber, path);
+        if (moduleIndex === null) return;
+        if (removedModules.has(moduleIndex)) {
+          fixes.push(`${path} removes module ${moduleIndex + 1} again and was dropped`);
+          return;
+        }
+        removedModules.add(moduleIndex);
+        operations.push({ op: 'removeModule', moduleIndex });
+        return;
+      }
+    }
+  });
+
+  if (issues.length > 0) {
+    return { ok: false, issues };
+  }
+
+  return {
+    ok: true,
+    value: {
+      summary: nonEmpty(raw.summary) ? raw.summary.trim() : `${operations.length} change(s) proposed.`,
+      operations
+    },
+    fixes
+  };
+};
@@ -0,0 +1,121 @@
+import { describe, it, expect } from 'vitest';
+import { validatePlannerOutput, PlannerValidationResult } from './plannerValidation';
+
+const topic = (title: string, extra: Record<string, unknown> = {}) => ({
+  title, description: `About ${title}`, actionableStep: `Practise ${title}`, estimatedHours: 2, ...extra
+});
+
+const output = (modules: unknown[]) => ({ title: 'Rust', description: 'Learn Rust', modules });
+
+const expectOk = (result: PlannerValidationResult) => {
+  if (!('value' in result)) throw new Error(`Validation failed: ${result.issues.join('; ')}`);
+  return result;
+};
+
+const expectIssues = (result: PlannerValidationResult) => {
+  if ('value' in result) throw new Error('Validation unexpectedly succeeded');
+  return result.issues;
+};
+
+describe('validatePlannerOutput: structure', () => {
+  it('accepts a well-formed plan without fixes', () => {
+    const result = expectOk(validatePlannerOutput(output([{ title: 'Basics', topics: [topic('Ownership', { id: 'own' })] }])));
+    expect(result.fixes).toEqual([]);
+    expect(result.value.modules[0].topics[0]).toEqual({
+      title: 'Ownership', description: 'About Ownership', actionableStep: 'Practise Ownership', estimatedHours: 2, key: 'own', prerequisites: []
+    });
+  });
+
+  it('reports missing fields as issues for the repair prompt', () => {
+    expect(expectIssues(validatePlannerOutput([]))[0]).toMatch(/Top-level value must be an object/);
+    expect(expectIssues(validatePlannerOutput({ title: '', modules: 'x' }))).toEqual([
+      '"title" must be a non-empty string.',
+      '"description" must be a non-empty string.',
+      '"modules" must be an array.'
+    ]);
+    expect(expectIssues(validatePlannerOutput(output([{ title: 'M', topics: [{ title: 'T' }] }])))).toEqual([
+      'modules[0].topics[0].description must be a non-empty string.',
+      'modules[0].topics[0].actionableStep must be a non-empty string.'
+    ]);
+  });
+
+  it('removes empty modules but needs at least one topic overall', () => {
+    const result = expectOk(validatePlannerOutput(output([{ title: 'Empty', topics: [] }, { title: 'Full', topics: [topic('A')] }])));
+    expect(result.value.modules.map(m => m.title)).toEqual(['Full']);
+    expect(result.fixes).toEqual(['modules[0] "Empty" has no topics and was removed']);
+    expect(expectIssues(validatePlannerOutput(output([{ title: 'Empty', topics: [] }])))).toEqual([
+      'The curriculum must contain at least one module with at least one topic.'
+    ]);
+  });
+});
+
+describe('validatePlannerOutput: fixes', () => {
+  it('truncates long text', () => {
+    const result = expectOk(validatePlannerOutput(output([{ title: 'M', topics: [topic('x'.repeat(200))] }])));
+    const title = result.value.modules[0].topics[0].title;
+    expect(title).toHaveLength(120);
+    expect(title.endsWith('…')).toBe(true);
+    expect(result.fixes).toEqual(['modules[0].topics[0].title truncated from 200 to 120 characters']);
+  });
+
+  it('numbers duplicate titles, ignoring case', () => {
+    const result = expectOk(validatePlannerOutput(output([
+      { title: 'A', topics: [topic('Traits')] },
+      { title: 'B', topics: [topic('traits'), topic('Traits')] }
+    ])));
+    expect(result.value.modules.flatMap(m => m.topics.map(t => t.title))).toEqual(['Traits', 'traits (Part 2)', 'Traits (Part 3)']);
+  });
+
+  it('clamps hours and ignores values that are not positive numbers', () => {
+    const result = expectOk(validatePlannerOutput(output([{
+      title: 'M',
+      topics: [topic('A', { estimatedHours: 500 }), topic('B', { estimatedHours: '3' }), topic('C', { estimatedHours: 0 }), topic('D', { estimatedHours: undefined })]
+    }])));
+    expect(result.value.modules[0].topics.map(t => t.estimatedHours)).toEqual([100, 3, undefined, undefined]);
+    expect(result.fixes).toEqual([
+      'modules[0].topics[0].estimatedHours clamped to 100',
+      'modules[0].topics[2].estimatedHours "0" ignored'
+    ]);
+  });
+
+  it('falls back to positional keys for missing and duplicate ids', () => {
+    const result = expectOk(validatePlannerOutput(output([{
+      title: 'M',
+      topics: [topic('A', { id: ' Intro ' }), topic('B', { id: 'intro' }), topic('C')]
+    }])));
+    expect(result.value.modules[0].topics.map(t => t.key)).toEqual(['intro', 'topic-0-1', 'topic-0-2']);
+    expect(result.fixes).toEqual(['modules[0].topics[1].id "intro" duplicated, replaced with "topic-0-1"']);
+  });
+});
+
+describe('validatePlannerOutput: prerequisites', () => {
+  it('resolves ids and titles, dropping self and unknown references', () => {
+    const result = expectOk(validatePlannerOutput(output([{
+      title: 'M',
+      topics: [
+        topic('Ownership', { id: 'own' }),
+        topic('Borrowing', { id: 'borrow', prerequisites: ['OWN', 'borrow', 'lifetimes'] }),
+        topic('Traits', { id: 'traits', prerequisites: ['Borrowing', 'Ownership'] })
+      ]
+    }])));
+    expect(result.value.modules[0].topics.map(t => t.prerequisites)).toEqual([[], ['own'], ['borrow', 'own']]);
+    expect(result.fixes).toEqual([
+      'modules[0].topics[1].prerequisites: dropped self reference',
+      'modules[0].topics[1].prerequisites: dropped unknown topic "lifetimes"'
+    ]);
+  });
+
+  it('ignores prerequisites that are not a list', () => {
+    const result = expectOk(validatePlannerOutput(output([{ title: 'M', topics: [topic('A', { prerequisites: 'B' })] }])));
+    expect(result.fixes).toEqual(['modules[0].topics[0].prerequisites ignored: not an array']);
+  });
+
+  it('breaks cycles by dropping the edge to a later topic', () => {
+    const result = expectOk(validatePlannerOutput(output([{
+      title: 'M',
+      topics: [topic('A', { id: 'a', prerequisites: ['c'] }), topic('B', { id: 'b', prerequisites: ['a'] }), topic('C', { id: 'c', prerequisites: ['b'] })]
+    }])));
+    expect(result.value.modules[0].topics.map(t => t.prerequisites)).toEqual([[], ['a'], ['b']]);
+    expect(result.fixes).toEqual(['Prerequisite "a" -> "c" dropped: it closed a cycle']);
+  });
+});
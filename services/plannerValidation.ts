@@ -0,0 +1,196 @@
+// Runtime validation and normalization of raw Planner Agent output.
+// The schema we send is only a hint to the model; nothing guarantees the response honours it.
+
+import { breakCycles } from "./prerequisites";
+
+export interface PlannedTopic {
+  title: string;
+  description: string;
+  actionableStep: string;
+  estimatedHours?: number;
+  key: string; // The model's id for the topic, unique within the output; replaced by real ids later
+  prerequisites: string[]; // Keys of topics to learn first
+}
+
+export interface PlannedModule {
+  title: string;
+  topics: PlannedTopic[];
+}
+
+export interface PlannerOutput {
+  title: string;
+  description: string;
+  modules: PlannedModule[];
+}
+
+export type PlannerValidationResult =
+  | { ok: true; value: PlannerOutput; fixes: string[] }
+  | { ok: false; issues: string[] };
+
+const LIMITS = {
+  title: 120,
+  description: 800,
+  actionableStep: 600
+};
+
+const MAX_TOPIC_HOURS = 100;
+
+const isObject = (value: unknown): value is Record<string, any> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const truncate = (value: string, max: number, path: string, fixes: string[]): string => {
+  const trimmed = value.trim();
+  if (trimmed.length <= max) return trimmed;
+  fixes.push(`${path} truncated from ${trimmed.length} to ${max} characters`);
+  return `${trimmed.slice(0, max - 1).trimEnd()}…`;
+};
+
+// Hard problems become issues (sent back to the model for repair);
+// recoverable ones are fixed in place and reported as fixes.
+export const validatePlannerOutput = (raw: unknown): PlannerValidationResult => {
+  const issues: string[] = [];
+  const fixes: string[] = [];
+
+  if (!isObject(raw)) {
+    return { ok: false, issues: ['Top-level value must be an object with "title", "description" and "modules".'] };
+  }
+
+  for (const key of ['title', 'description']) {
+    if (typeof raw[key] !== 'string' || !raw[key].trim()) {
+      issues.push(`"${key}" must be a non-empty string.`);
+    }
+  }
+  if (!Array.isArray(raw.modules)) {
+    issues.push('"modules" must be an array.');
+    return { ok: false, issues };
+  }
+
+  const seenTitles = new Map<string, number>();
+  const modules: PlannedModule[] = [];
+  // Prerequisites are resolved once every topic's key is known
+  const keys = new Set<string>();
+  const keysByTitle = new Map<string, string>();
+  const rawPrerequisites = new Map<string, { path: string; refs: unknown }>();
+
+  raw.modules.forEach((mod: unknown, mIdx: number) => {
+    const modPath = `modules[${mIdx}]`;
+    if (!isObject(mod)) {
+      issues.push(`${modPath} must be an object.`);
+      return;
+    }
+    if (typeof mod.title !== 'string' || !mod.title.trim()) {
+      issues.push(`${modPath}.title must be a non-empty string.`);
+      return;
+    }
+    if (!Array.isArray(mod.topics)) {
+      issues.push(`${modPath}.topics must be an array.`);
+      return;
+    }
+
+    const topics: PlannedTopic[] = [];
+    mod.topics.forEach((topic: unknown, tIdx: number) => {
+      const path = `${modPath}.topics[${tIdx}]`;
+      if (!isObject(topic)) {
+        issues.push(`${path} must be an object.`);
+        return;
+      }
+      let topicValid = true;
+      for (const key of ['title', 'description', 'actionableStep'] as const) {
+        if (typeof topic[key] !== 'string' || !topic[key].trim()) {
+          issues.push(`${path}.${key} must be a non-empty string.`);
+          topicValid = false;
+        }
+      }
+      if (!topicValid) return;
+
+      let title = truncate(topic.title, LIMITS.title, `${path}.title`, fixes);
+      // Duplicate titles confuse learners and the curator; number the repeats
+      const key = title.toLowerCase();
+      const count = (seenTitles.get(key) || 0) + 1;
+      seenTitles.set(key, count);
+      if (count > 1) {
+        fixes.push(`${path}.title "${title}" duplicated, renamed to "${title} (Part ${count})"`);
+        title = `${title} (Part ${count})`;
+      }
+
+      let estimatedHours: number | undefined;
+      const hours = Number(topic.estimatedHours);
+      if (topic.estimatedHours !== undefined && Number.isFinite(hours) && hours > 0) {
+        estimatedHours = Math.min(hours, MAX_TOPIC_HOURS);
+        if (hours > MAX_TOPIC_HOURS) fixes.push(`${path}.estimatedHours clamped to ${MAX_TOPIC_HOURS}`);
+      } else if (topic.estimatedHours !== undefined) {
+        fixes.push(`${path}.estimatedHours "${topic.estimatedHours}" ignored`);
+      }
+
+      let topicKey = typeof topic.id === 'string' ? topic.id.trim().toLowerCase() : '';
+      if (!topicKey || keys.has(topicKey)) {
+        const fallback = `topic-${mIdx}-${tIdx}`;
+        if (topicKey) fixes.push(`${path}.id "${topicKey}" duplicated, replaced with "${fallback}"`);
+        topicKey = fallback;
+      }
+      keys.add(topicKey);
+      keysByTitle.set(topic.title.trim().toLowerCase(), topicKey);
+      rawPrerequisites.set(topicKey, { path: `${path}.prerequisites`, refs: topic.prerequisites });
+
+      topics.push({
+        title,
+        description: truncate(topic.description, LIMITS.description, `${path}.description`, fixes),
+        actionableStep: truncate(topic.actionableStep, LIMITS.actionableStep, `${path}.actionableStep`, fixes),
+        estimatedHours,
+        key: topicKey,
+        prerequisites: []
+      });
+    });
+
+    if (topics.length === 0) {
+      fixes.push(`${modPath} "${mod.title}" has no topics and was removed`);
+      return;
+    }
+    modules.push({ title: truncate(mod.title, LIMITS.title, `${modPath}.title`, fixes), topics });
+  });
+
+  if (issues.length === 0 && modules.length === 0) {
+    issues.push('The curriculum must contain at least one module with at least one topic.');
+  }
+  if (issues.length > 0) {
+    return { ok: false, issues };
+  }
+
+  // Unknown and self references are dropped; cycles are broken by dropping the closing edge
+  const edges: Record<string, string[]> = {};
+  rawPrerequisites.forEach(({ path, refs }, key) => {
+    if (refs === undefined) return;
+    if (!Array.isArray(refs)) {
+      fixes.push(`${path} ignored: not an array`);
+      return;
+    }
+    const resolved = new Set<string>();
+    refs.forEach((ref: unknown) => {
+      const text = typeof ref === 'string' ? ref.trim().toLowerCase() : '';
+      // Models sometimes cite the topic title instead of its id
+      const target = keys.has(text) ? text : keysByTitle.get(text);
+      if (!target || target === key) {
+        fixes.push(`${path}: dropped ${target === key ? 'self reference' : `unknown topic "${ref}"`}`);
+        return;
+      }
+      resolved.add(target);
+    });
+    edges[key] = [...resolved];
+  });
+  const order = modules.flatMap(mod => mod.topics.map(t => t.key));
+  const acyclic = breakCycles(order, edges);
+  acyclic.removed.forEach(([from, to]) => fixes.push(`Prerequisite "${from}" -> "${to}" dropped: it closed a cycle`));
+  modules.forEach(mod => mod.topics.forEach(topic => {
+    topic.prerequisites = acyclic.edges[topic.key] || [];
+  }));
+
+  return {
+    ok: true,
+    value: {
+      title: truncate(raw.title, LIMITS.title, 'title', fixes),
+      description: truncate(raw.description, LIMITS.description, 'description', fixes),
+      modules
+    },
+    fixes
+  };
+};
@@ -0,0 +1,80 @@
+import { describe, it, expect } from 'vitest';
+import { Curriculum, CurriculumProgress, Topic } from '../types';
+import { breakCycles, getStartableTopics, layoutGraph, prunePrerequisites } from './prerequisites';
+
+const topic = (id: string, prerequisites?: string[]): Topic => ({
+  id, title: id, description: '', actionableStep: '', ...(prerequisites ? { prerequisites } : {})
+});
+
+// a <- b <- d, a <- c; topics have no resources, so the step alone completes them
+const curriculum: Curriculum = {
+  id: 'c1',
+  createdAt: 1,
+  title: 'T',
+  description: '',
+  modules: [
+    { title: 'A', topics: [topic('a'), topic('b', ['a'])] },
+    { title: 'B', topics: [topic('c', ['a']), topic('d', ['b', 'gone'])] }
+  ]
+};
+
+const progress = (done: string[]): CurriculumProgress => ({
+  curriculumId: 'c1',
+  completedResources: {},
+  completedSteps: Object.fromEntries(done.map(id => [id, true]))
+});
+
+const isAcyclic = (order: string[], edges: Record<string, string[]>) => breakCycles(order, edges).removed.length === 0;
+
+describe('breakCycles', () => {
+  it('leaves a DAG untouched', () => {
+    const edges = { a: [], b: ['a'], c: ['a', 'b'] };
+    expect(breakCycles(['a', 'b', 'c'], edges)).toEqual({ edges, removed: [] });
+  });
+
+  it('drops the edge that makes a topic depend on a later one', () => {
+    const result = breakCycles(['a', 'b', 'c'], { a: ['c'], b: ['a'], c: ['b'] });
+    expect(result.removed).toEqual([['a', 'c']]);
+    expect(result.edges).toEqual({ a: [], b: ['a'], c: ['b'] });
+  });
+
+  it('drops self-loops and always leaves a DAG', () => {
+    const order = ['a', 'b', 'c', 'd'];
+    const result = breakCycles(order, { a: ['a', 'd'], b: ['a', 'c'], c: ['b'], d: ['c', 'b'] });
+    expect(result.removed).toContainEqual(['a', 'a']);
+    expect(isAcyclic(order, result.edges)).toBe(true);
+  });
+});
+
+describe('prunePrerequisites', () => {
+  it('drops references to missing topics and keeps untouched topics as they were', () => {
+    const pruned = prunePrerequisites(curriculum);
+    expect(pruned.modules[1].topics[1].prerequisites).toEqual(['b']);
+    expect(pruned.modules[0].topics[1]).toBe(curriculum.modules[0].topics[1]);
+  });
+});
+
+describe('getStartableTopics', () => {
+  it('lists unfinished topics whose prerequisites are done', () => {
+    expect(getStartableTopics(curriculum, progress([])).map(e => e.topic.id)).toEqual(['a']);
+    expect(getStartableTopics(curriculum, progress(['a'])).map(e => e.topic.id)).toEqual(['b', 'c']);
+    expect(getStartableTopics(curriculum, progress(['a', 'b'])).map(e => [e.topic.id, e.moduleIndex])).toEqual([['c', 1], ['d', 1]]);
+  });
+});
+
+describe('layoutGraph', () => {
+  it('layers by longest prerequisite chain with rows in syllabus order', () => {
+    const nodes = layoutGraph(curriculum, progress(['a']));
+    expect(nodes.map(n => [n.topic.id, n.layer, n.row, n.state])).toEqual([
+      ['a', 0, 0, 'complete'],
+      ['b', 1, 0, 'available'],
+      ['c', 1, 1, 'available'],
+      ['d', 2, 0, 'locked']
+    ]);
+  });
+
+  it('terminates on a hand-edited cycle', () => {
+    const cyclic = { ...curriculum, modules: [{ title: 'A', topics: [topic('x', ['y']), topic('y', ['x'])] }] };
+    expect(layoutGraph(cyclic, progress([]))).toHaveLength(2);
+  });
+});
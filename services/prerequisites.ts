@@ -0,0 +1,115 @@
+import { Curriculum, CurriculumProgress, Topic } from "../types";
+import { getTopicCompletion } from "./progressService";
+
+// Topic prerequisite graph: cycle removal (used on planner output and imports), locking for
+// guided mode, the "start next" list and a layered layout for the dependency view.
+// Edges point from a topic to the topics it depends on.
+
+export type TopicState = 'complete' | 'available' | 'locked';
+
+export interface GraphNode {
+  topic: Topic;
+  moduleIndex: number;
+  layer: number; // Longest chain of prerequisites below this topic
+  row: number; // Position within its layer, in syllabus order
+  state: TopicState;
+}
+
+// Depth-first walk; an edge back to a topic still on the stack closes a cycle and is dropped.
+// `order` is syllabus order and the walk starts from its end, so the edge dropped is usually
+// the one that makes a topic depend on a later one. What remains is always a DAG.
+export const breakCycles = (
+  order: string[],
+  edges: Record<string, string[]>
+): { edges: Record<string, string[]>; removed: [string, string][] } => {
+  const kept: Record<string, string[]> = {};
+  const removed: [string, string][] = [];
+  const state = new Map<string, 'visiting' | 'done'>();
+
+  const visit = (id: string) => {
+    state.set(id, 'visiting');
+    kept[id] = [];
+    (edges[id] || []).forEach(dep => {
+      if (state.get(dep) === 'visiting') {
+        removed.push([id, dep]);
+        return;
+      }
+      kept[id].push(dep);
+      if (!state.has(dep)) visit(dep);
+    });
+    state.set(id, 'done');
+  };
+  [...order].reverse().forEach(id => {
+    if (!state.has(id)) visit(id);
+  });
+  return { edges: kept, removed };
+};
+
+const allTopics = (curriculum: Curriculum) =>
+  curriculum.modules.flatMap((mod, moduleIndex) => mod.topics.map(topic => ({ topic, moduleIndex })));
+
+export const hasPrerequisites = (curriculum: Curriculum): boolean =>
+  curriculum.modules.some(mod => mod.topics.some(t => (t.prerequisites || []).length > 0));
+
+// Drops references to topics that no longer exist, e.g. after a topic or module is deleted
+export const prunePrerequisites = (curriculum: Curriculum): Curriculum => {
+  const ids = new Set(allTopics(curriculum).map(({ topic }) => topic.id));
+  return {
+    ...curriculum,
+    modules: curriculum.modules.map(mod => ({
+      ...mod,
+      topics: mod.topics.map(topic => {
+        if (!topic.prerequisites) return topic;
+        const prerequisites = topic.prerequisites.filter(id => ids.has(id));
+        return prerequisites.length === topic.prerequisites.length ? topic : { ...topic, prerequisites };
+      })
+    }))
+  };
+};
+
+export const isTopicComplete = (progress: CurriculumProgress, topic: Topic): boolean =>
+  getTopicCompletion(progress, topic) >= 1;
+
+// Prerequisites of the topic that are not complete yet, in syllabus order
+export const getMissingPrerequisites = (curriculum: Curriculum, progress: CurriculumProgress, topic: Topic): Topic[] => {
+  const required = new Set(topic.prerequisites || []);
+  return allTopics(curriculum)
+    .map(({ topic: other }) => other)
+    .filter(other => required.has(other.id) && !isTopicComplete(progress, other));
+};
+
+export const getTopicState = (curriculum: Curriculum, progress: CurriculumProgress, topic: Topic): TopicState =>
+  isTopicComplete(progress, topic)
+    ? 'complete'
+    : getMissingPrerequisites(curriculum, progress, topic).length > 0 ? 'locked' : 'available';
+
+// "What can I start next": unfinished topics whose prerequisites are all complete, in syllabus order
+export const getStartableTopics = (curriculum: Curriculum, progress: CurriculumProgress): { topic: Topic; moduleIndex: number }[] =>
+  allTopics(curriculum).filter(({ topic }) => getTopicState(curriculum, progress, topic) === 'available');
+
+// Layers by longest prerequisite chain, so every edge points to an earlier layer
+export const layoutGraph = (curriculum: Curriculum, progress: CurriculumProgress): GraphNode[] => {
+  const entries = allTopics(curriculum);
+  const byId = new Map(entries.map(entry => [entry.topic.id, entry.topic]));
+  const layers = new Map<string, number>();
+
+  const layerOf = (topic: Topic, seen: Set<string>): number => {
+    const known = layers.get(topic.id);
+    if (known !== undefined) return known;
+    // Stored data should be acyclic; the guard keeps a hand-edited cycle from recursing forever
+    if (seen.has(topic.id)) return 0;
+    seen.add(topic.id);
+    const deps = (topic.prerequisites || []).map(id => byId.get(id)).filter((t): t is Topic => !!t);
+    const layer = deps.length === 0 ? 0 : 1 + Math.max(...deps.map(dep => layerOf(dep, seen)));
+    layers.set(topic.id, layer);
+    return layer;
+  };
+
+  const rows = new Map<number, number>();
+  return entries.map(({ topic, moduleIndex }) => {
+    const layer = layerOf(topic, new Set());
+    const row = rows.get(layer) || 0;
+    rows.set(layer, row + 1);
+    return { topic, moduleIndex, layer, row, state: getTopicState(curriculum, progress, topic) };
+  });
+};
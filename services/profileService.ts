@@ -0,0 +1,126 @@
+import { LearnerProfile, LearningStyle, SavedProfile } from "../types";
+import { startOfDay } from "./scheduleService";
+
+// Learner profiles: the optional "About you" answers, how they read in agent prompts,
+// and named profiles saved in localStorage so they can be reused across generations.
+const PROFILES_KEY = 'skillscout.profiles.v1';
+
+const WEEK_MS = 7 * 24 * 60 * 60 * 1000;
+
+export const LEARNING_STYLE_LABELS: Record<LearningStyle, string> = {
+  'balanced': 'Balanced',
+  'project-first': 'Project-first',
+  'theory-first': 'Theory-first'
+};
+
+const readProfiles = (): SavedProfile[] => {
+  try {
+    const raw = localStorage.getItem(PROFILES_KEY);
+    if (!raw) return [];
+    const parsed = JSON.parse(raw);
+    return Array.isArray(parsed) ? parsed : [];
+  } catch (e) {
+    console.error("Failed to read saved profiles:", e);
+    return [];
+  }
+};
+
+const writeProfiles = (entries: SavedProfile[]) => {
+  try {
+    localStorage.setItem(PROFILES_KEY, JSON.stringify(entries));
+  } catch (e) {
+    console.error("Failed to write saved profiles:", e);
+  }
+};
+
+// Most recently updated first
+export const listProfiles = (): SavedProfile[] => {
+  return readProfiles().sort((a, b) => b.updatedAt - a.updatedAt);
+};
+
+// Saving under an existing name (case-insensitive) overwrites that profile
+export const saveProfile = (name: string, fields: Omit<SavedProfile, 'id' | 'name' | 'updatedAt'>): SavedProfile => {
+  const entries = readProfiles();
+  const trimmed = name.trim();
+  const index = entries.findIndex(entry => entry.name.toLowerCase() === trimmed.toLowerCase());
+  const saved: SavedProfile = {
+    ...fields,
+    id: index >= 0 ? entries[index].id : crypto.randomUUID(),
+    name: trimmed,
+    updatedAt: Date.now()
+  };
+  if (index >= 0) {
+    entries[index] = saved;
+  } else {
+    entries.push(saved);
+  }
+  writeProfiles(entries);
+  return saved;
+};
+
+export const deleteProfile = (id: string) => {
+  writeProfiles(readProfiles().filter(entry => entry.id !== id));
+};
+
+// Drops empty fields; undefined when nothing is left
+export const cleanProfile = (profile: LearnerProfile): LearnerProfile | undefined => {
+  const cleaned: LearnerProfile = {};
+  if (profile.background?.trim()) cleaned.background = profile.background.trim();
+  if (profile.learningStyle && profile.learningStyle !== 'balanced') cleaned.learningStyle = profile.learningStyle;
+  if (profile.deadline) cleaned.deadline = startOfDay(profile.deadline);
+  if (profile.language?.trim()) cleaned.language = profile.language.trim();
+  return Object.keys(cleaned).length > 0 ? cleaned : undefined;
+};
+
+// Whole weeks from today until the deadline, at least 1
+export const weeksUntil = (deadline: number, now = Date.now()): number =>
+  Math.max(1, Math.ceil((startOfDay(deadline) - startOfDay(now)) / WEEK_MS));
+
+const styleGuidance: Record<LearningStyle, string> = {
+  'balanced': '',
+  'project-first': 'The learner is project-first: open each module with something to build and introduce theory only as the project needs it.',
+  'theory-first': 'The learner is theory-first: explain the concepts and mental models before each hands-on step.'
+};
+
+// Lines for the planner prompt; empty when there is no profile
+export const describeProfileForPlanner = (profile?: LearnerProfile, now = Date.now()): string[] => {
+  if (!profile) return [];
+  const lines: string[] = [];
+  if (profile.background) {
+    lines.push(`Already knows: ${profile.background.replace(/[.\s]+$/, '')}. Do not teach these from scratch; build on them.`);
+  }
+  if (profile.learningStyle && styleGuidance[profile.learningStyle]) {
+    lines.push(styleGuidance[profile.learningStyle]);
+  }
+  if (profile.deadline) {
+    const date = new Date(profile.deadline).toLocaleDateString('en-CA');
+    lines.push(`Target deadline: ${date} (about ${weeksUntil(profile.deadline, now)} weeks from now). Size the total estimated hours so the course fits before it at the stated time commitment; cut optional depth rather than essentials.`);
+  }
+  if (profile.language) {
+    lines.push(`Write every title, description and actionable step in ${profile.language}.`);
+  }
+  return lines;
+};
+
+// Lines for the curator prompt; only the fields that change which resources fit
+export const describeProfileForCurator = (profile?: LearnerProfile): string[] => {
+  if (!profile) return [];
+  const lines: string[] = [];
+  if (profile.learningStyle === 'project-first') {
+    lines.push('Prefer hands-on tutorials, build-along videos and exercises over conceptual overviews.');
+  } else if (profile.learningStyle === 'theory-first') {
+    lines.push('Prefer resources that explain the underlying concepts before the code.');
+  }
+  if (profile.language) {
+    lines.push(`Prefer resources in ${profile.language}; use English ones only when nothing good exists. Write descriptions in ${profile.language}.`);
+  }
+  return lines;
+};
+
+// Stable string for cache keys, covering the fields describeProfileForCurator uses
+export const curatorProfileSignature = (profile?: LearnerProfile): string => {
+  if (!profile) return '';
+  const style = profile.learningStyle && profile.learningStyle !== 'balanced' ? profile.learningStyle : '';
+  const language = (profile.language || '').trim().toLowerCase();
+  return style || language ? `${style}/${language}` : '';
+};
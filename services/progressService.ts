@@ -0,0 +1,110 @@
+import { CurriculumProgress, Topic } from "../types";
+import { QUIZ_PASS_SCORE } from "./topicQuiz";
+import { canonicalizeUrl } from "./resourceIdentity";
+
+// Learning progress lives in its own store (separate from the library) so that
+// ticking a checkbox never rewrites the whole curriculum document.
+const PROGRESS_KEY = 'skillscout.progress.v1';
+
+type ProgressStore = Record<string, CurriculumProgress>;
+
+const readStore = (): ProgressStore => {
+  try {
+    const raw = localStorage.getItem(PROGRESS_KEY);
+    return raw ? JSON.parse(raw) : {};
+  } catch (e) {
+    console.error("Failed to read progress store:", e);
+    return {};
+  }
+};
+
+const writeStore = (store: ProgressStore) => {
+  try {
+    localStorage.setItem(PROGRESS_KEY, JSON.stringify(store));
+  } catch (e) {
+    console.error("Failed to write progress store:", e);
+  }
+};
+
+export const emptyProgress = (curriculumId: string): CurriculumProgress => ({
+  curriculumId,
+  completedResources: {},
+  completedSteps: {}
+});
+
+export const loadProgress = (curriculumId: string): CurriculumProgress => {
+  return readStore()[curriculumId] || emptyProgress(curriculumId);
+};
+
+export const saveProgress = (progress: CurriculumProgress) => {
+  const store = readStore();
+  store[progress.curriculumId] = progress;
+  writeStore(store);
+};
+
+export const deleteProgress = (curriculumId: string) => {
+  const store = readStore();
+  delete store[curriculumId];
+  writeStore(store);
+};
+
+// Pure helpers so components can update progress immutably
+
+// Resources are tracked by canonical id across the whole curriculum, so a resource recommended
+// in several topics is done everywhere once it is done in one. Older data stored raw URIs per
+// topic; canonicalizeUrl maps those to the same ids.
+const completedIds = (progress: CurriculumProgress): Set<string> =>
+  new Set(Object.values(progress.completedResources).flat().map(canonicalizeUrl));
+
+// Completion doesn't depend on which topic a copy sits in
+export const isResourceCompleted = (progress: CurriculumProgress, uri: string): boolean =>
+  completedIds(progress).has(canonicalizeUrl(uri));
+
+export const toggleResourceCompleted = (progress: CurriculumProgress, topicId: string, uri: string): CurriculumProgress => {
+  const id = canonicalizeUrl(uri);
+  if (completedIds(progress).has(id)) {
+    // Unchecking clears every copy, wherever it was checked
+    const completedResources = Object.fromEntries(
+      Object.entries(progress.completedResources).map(([key, ids]) => [key, ids.filter(stored => canonicalizeUrl(stored) !== id)])
+    );
+    return { ...progress, completedResources };
+  }
+  return {
+    ...progress,
+    completedResources: { ...progress.completedResources, [topicId]: [...(progress.completedResources[topicId] || []), id] }
+  };
+};
+
+export const toggleStepCompleted = (progress: CurriculumProgress, topicId: string): CurriculumProgress => ({
+  ...progress,
+  completedSteps: { ...progress.completedSteps, [topicId]: !progress.completedSteps[topicId] }
+});
+
+export const recordQuizScore = (progress: CurriculumProgress, topicId: string, score: number): CurriculumProgress => {
+  const previous = progress.quizScores?.[topicId];
+  return {
+    ...progress,
+    quizScores: {
+      ...progress.quizScores,
+      [topicId]: {
+        lastScore: score,
+        bestScore: Math.max(score, previous?.bestScore ?? 0),
+        attempts: (previous?.attempts ?? 0) + 1,
+        lastTakenAt: Date.now()
+      }
+    }
+  };
+};
+
+export const isQuizPassed = (progress: CurriculumProgress, topicId: string): boolean =>
+  (progress.quizScores?.[topicId]?.bestScore ?? 0) >= QUIZ_PASS_SCORE;
+
+// Share of a topic's items (resources, the actionable step and its quiz once generated) that are done, 0 to 1
+export const getTopicCompletion = (progress: CurriculumProgress, topic: Topic): number => {
+  const resources = topic.curatedContent?.resources || [];
+  const hasQuiz = !!topic.quiz;
+  const done = resources.filter(r => isResourceCompleted(progress, r.uri)).length
+    + (progress.completedSteps[topic.id] ? 1 : 0)
+    + (hasQuiz && isQuizPassed(progress, topic.id) ? 1 : 0);
+  return done / (resources.length + 1 + (hasQuiz ? 1 : 0));
+};
@@ -0,0 +1,80 @@
+import { GoogleGenAI, Type, Schema, GenerateContentConfig, GenerateContentResponse } from "@google/genai";
+import type { LLMConfig, LLMProvider, SchemaNode, GenerateRequest, GroundingSource } from "../llmProvider";
+import { MissingApiKeyError, SafetyBlockError } from "../errors";
+
+// Finish reasons that mean the answer was withheld rather than finished or cut short
+const BLOCKED_FINISH_REASONS = new Set(['SAFETY', 'PROHIBITED_CONTENT', 'BLOCKLIST', 'SPII', 'IMAGE_SAFETY']);
+
+const TYPE_MAP: Record<SchemaNode['type'], Type> = {
+  object: Type.OBJECT,
+  array: Type.ARRAY,
+  string: Type.STRING,
+  number: Type.NUMBER,
+  integer: Type.INTEGER,
+  boolean: Type.BOOLEAN
+};
+
+// Translate the neutral schema into Gemini's OpenAPI-style Schema
+const toGeminiSchema = (node: SchemaNode): Schema => ({
+  type: TYPE_MAP[node.type],
+  description: node.description,
+  enum: node.enum,
+  required: node.required,
+  items: node.items ? toGeminiSchema(node.items) : undefined,
+  properties: node.properties
+    ? Object.fromEntries(Object.entries(node.properties).map(([key, value]) => [key, toGeminiSchema(value)]))
+    : undefined
+});
+
+export const createGeminiProvider = (config: LLMConfig): LLMProvider => {
+  // Without a key the client is never created, so the failure surfaces from generate() as a typed error
+  const ai = config.apiKey ? new GoogleGenAI({ apiKey: config.apiKey }) : null;
+
+  const generate = async (request: GenerateRequest) => {
+    if (!ai) throw new MissingApiKeyError('GEMINI_API_KEY');
+    const genConfig: GenerateContentConfig = {
+      systemInstruction: request.systemInstruction,
+      abortSignal: request.signal
+    };
+    if (request.responseSchema || request.jsonOutput) {
+      genConfig.responseMimeType = 'application/json';
+    }
+    if (request.responseSchema) {
+      genConfig.responseSchema = toGeminiSchema(request.responseSchema);
+    }
+    if (request.useSearch) {
+      genConfig.tools = [{ googleSearch: {} }];
+    }
+
+    const response: GenerateContentResponse = await ai.models.generateContent({
+      model: config.model,
+      contents: request.prompt,
+      config: genConfig
+    });
+
+    const blockReason = response.promptFeedback?.blockReason;
+    if (blockReason) throw new SafetyBlockError(String(blockReason));
+    const finishReason = String(response.candidates?.[0]?.finishReason || '');
+    if (BLOCKED_FINISH_REASONS.has(finishReason) && !response.text) throw new SafetyBlockError(finishReason);
+
+    const groundingChunks = response.candidates?.[0]?.groundingMetadata?.groundingChunks || [];
+    const groundingSources: GroundingSource[] = groundingChunks
+      .filter(chunk => chunk.web?.uri)
+      .map(chunk => ({ uri: chunk.web!.uri!, title: chunk.web!.title, domain: chunk.web!.domain }));
+
+    const usage = response.usageMetadata && {
+      promptTokens: response.usageMetadata.promptTokenCount,
+      outputTokens: response.usageMetadata.candidatesTokenCount,
+      totalTokens: response.usageMetadata.totalTokenCount
+    };
+
+    return { text: response.text || '', groundingSources, usage };
+  };
+
+  return {
+    name: 'gemini',
+    model: config.model,
+    capabilities: { structuredOutput: true, searchGrounding: true },
+    generate
+  };
+};
@@ -0,0 +1,98 @@
+import type { LLMConfig, LLMProvider, SchemaNode, GenerateRequest } from "../llmProvider";
+import { SafetyBlockError } from "../errors";
+
+// Carries the HTTP status so retryWithBackoff can recognise 429s, and Retry-After for the quota error
+export class ProviderHTTPError extends Error {
+  status: number;
+  retryAfterMs?: number;
+
+  constructor(message: string, status: number, retryAfterMs?: number) {
+    super(message);
+    this.name = 'ProviderHTTPError';
+    this.status = status;
+    this.retryAfterMs = retryAfterMs;
+  }
+}
+
+// The neutral schema is already JSON Schema, just drop undefined keys
+const toJsonSchema = (node: SchemaNode): Record<string, unknown> => {
+  const schema: Record<string, unknown> = { type: node.type };
+  if (node.description) schema.description = node.description;
+  if (node.enum) schema.enum = node.enum;
+  if (node.required) schema.required = node.required;
+  if (node.items) schema.items = toJsonSchema(node.items);
+  if (node.properties) {
+    schema.properties = Object.fromEntries(
+      Object.entries(node.properties).map(([key, value]) => [key, toJsonSchema(value)])
+    );
+  }
+  return schema;
+};
+
+// Works against any server implementing the OpenAI Chat Completions API:
+// OpenAI itself, Ollama, LM Studio, vLLM, llama.cpp server, etc.
+export const createOpenAICompatibleProvider = (config: LLMConfig): LLMProvider => {
+  const baseUrl = (config.baseUrl || '').replace(/\/$/, '');
+
+  const generate = async (request: GenerateRequest) => {
+    const messages = [];
+    if (request.systemInstruction) {
+      messages.push({ role: 'system', content: request.systemInstruction });
+    }
+    messages.push({ role: 'user', content: request.prompt });
+
+    const body: Record<string, unknown> = { model: config.model, messages };
+    if (request.responseSchema) {
+      body.response_format = {
+        type: 'json_schema',
+        json_schema: { name: 'response', schema: toJsonSchema(request.responseSchema) }
+      };
+    } else if (request.jsonOutput) {
+      body.response_format = { type: 'json_object' };
+    }
+
+    const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+    if (config.apiKey) {
+      headers.Authorization = `Bearer ${config.apiKey}`;
+    }
+
+    const res = await fetch(`${baseUrl}/chat/completions`, {
+      method: 'POST',
+      headers,
+      body: JSON.stringify(body),
+      signal: request.signal
+    });
+
+    if (!res.ok) {
+      const detail = await res.text().catch(() => '');
+      // Only the delay-in-seconds form of Retry-After; HTTP dates fall back to the default wait
+      const retryAfter = Number(res.headers.get('Retry-After'));
+      throw new ProviderHTTPError(
+        `OpenAI-compatible request failed (${res.status}): ${detail}`,
+        res.status,
+        retryAfter > 0 ? retryAfter * 1000 : undefined
+      );
+    }
+
+    const data = await res.json();
+    const choice = data?.choices?.[0];
+    if (choice?.finish_reason === 'content_filter') throw new SafetyBlockError('content_filter');
+    const text: string = choice?.message?.content || '';
+
+    const usage = data?.usage && {
+      promptTokens: data.usage.prompt_tokens,
+      outputTokens: data.usage.completion_tokens,
+      totalTokens: data.usage.total_tokens
+    };
+
+    // No search tool here: the caller falls back to URLs the model names itself
+    return { text, groundingSources: [], usage };
+  };
+
+  return {
+    name: 'openai',
+    model: config.model,
+    capabilities: { structuredOutput: true, searchGrounding: false },
+    generate
+  };
+};
@@ -0,0 +1,95 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { createRateLimiter } from './rateLimiter';
+import { GenerationCancelledError } from './errors';
+
+// Starts an acquire and records when it resolves, so tests can step the clock and check it
+const track = (promise: Promise<void>) => {
+  const state = { done: false, error: undefined as unknown };
+  promise.then(() => { state.done = true; }, error => { state.error = error; });
+  return state;
+};
+
+beforeEach(() => {
+  vi.useFakeTimers();
+  vi.spyOn(console, 'warn').mockImplementation(() => {});
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+  vi.restoreAllMocks();
+});
+
+describe('createRateLimiter', () => {
+  it('spaces requests evenly at the configured rate', async () => {
+    const limiter = createRateLimiter({ requestsPerMinute: 60 });
+    await limiter.acquire();
+
+    const second = track(limiter.acquire());
+    await vi.advanceTimersByTimeAsync(999);
+    expect(second.done).toBe(false);
+    await vi.advanceTimersByTimeAsync(1);
+    expect(second.done).toBe(true);
+  });
+
+  it('lets a burst through at once, then refills', async () => {
+    const limiter = createRateLimiter({ requestsPerMinute: 60, burst: 3 });
+    const calls = [track(limiter.acquire()), track(limiter.acquire()), track(limiter.acquire()), track(limiter.acquire())];
+    await vi.advanceTimersByTimeAsync(0);
+    expect(calls.map(c => c.done)).toEqual([true, true, true, false]);
+    await vi.advanceTimersByTimeAsync(1000);
+    expect(calls[3].done).toBe(true);
+  });
+
+  it('halves the rate and pauses everyone after a 429', async () => {
+    const limiter = createRateLimiter({ requestsPerMinute: 60, burst: 3 });
+    await limiter.acquire();
+    limiter.reportRateLimited();
+    expect(limiter.getCurrentRate()).toBe(30);
+
+    // The unused burst is gone: the next call waits one interval at the new rate
+    const next = track(limiter.acquire());
+    await vi.advanceTimersByTimeAsync(1999);
+    expect(next.done).toBe(false);
+    await vi.advanceTimersByTimeAsync(1);
+    expect(next.done).toBe(true);
+  });
+
+  it('never drops below the minimum rate', () => {
+    const limiter = createRateLimiter({ requestsPerMinute: 8, minRequestsPerMinute: 3 });
+    limiter.reportRateLimited();
+    limiter.reportRateLimited();
+    expect(limiter.getCurrentRate()).toBe(3);
+  });
+
+  it('raises the rate by one after a run of successes, up to the configured rate', () => {
+    const limiter = createRateLimiter({ requestsPerMinute: 10, successesPerIncrease: 2 });
+    limiter.reportRateLimited();
+    expect(limiter.getCurrentRate()).toBe(5);
+
+    limiter.reportSuccess();
+    expect(limiter.getCurrentRate()).toBe(5);
+    limiter.reportSuccess();
+    expect(limiter.getCurrentRate()).toBe(6);
+
+    // A 429 resets the streak
+    limiter.reportSuccess();
+    limiter.reportRateLimited();
+    limiter.reportSuccess();
+    expect(limiter.getCurrentRate()).toBe(3);
+
+    for (let i = 0; i < 40; i++) limiter.reportSuccess();
+    expect(limiter.getCurrentRate()).toBe(10);
+  });
+
+  it('rejects a waiting caller as soon as the run is cancelled', async () => {
+    const limiter = createRateLimiter({ requestsPerMinute: 1 });
+    await limiter.acquire();
+
+    const abort = new AbortController();
+    const waiting = track(limiter.acquire(abort.signal));
+    await vi.advanceTimersByTimeAsync(1000);
+    abort.abort();
+    await vi.advanceTimersByTimeAsync(0);
+    expect(waiting.error).toBeInstanceOf(GenerationCancelledError);
+  });
+});
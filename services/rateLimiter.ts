@@ -0,0 +1,91 @@
+import { throwIfAborted } from "./errors";
+
+// Token-bucket rate limiter with additive-increase / multiplicative-decrease adaptation.
+// Tokens refill continuously at `rate` per minute. A reported 429 halves the rate and
+// pauses the bucket; a run of successes slowly restores the configured rate.
+
+export interface RateLimiterOptions {
+  requestsPerMinute: number;
+  burst?: number; // Bucket capacity; defaults to 1 (evenly spaced requests)
+  minRequestsPerMinute?: number;
+  successesPerIncrease?: number; // Successful calls needed before raising the rate by 1 RPM
+}
+
+export interface RateLimiter {
+  acquire: (signal?: AbortSignal) => Promise<void>;
+  reportSuccess: () => void;
+  reportRateLimited: () => void;
+  getCurrentRate: () => number;
+}
+
+// Resolves early when the signal aborts, so cancelled callers don't sit out the wait
+const sleep = (ms: number, signal?: AbortSignal) => new Promise<void>(resolve => {
+  const timer = setTimeout(resolve, ms);
+  signal?.addEventListener('abort', () => {
+    clearTimeout(timer);
+    resolve();
+  }, { once: true });
+});
+
+export const createRateLimiter = (options: RateLimiterOptions): RateLimiter => {
+  const maxRate = Math.max(1, options.requestsPerMinute);
+  const minRate = Math.max(0.5, options.minRequestsPerMinute ?? 1);
+  const capacity = Math.max(1, options.burst ?? 1);
+  const successesPerIncrease = options.successesPerIncrease ?? 5;
+
+  let rate = maxRate;
+  let tokens = capacity;
+  let lastRefill = Date.now();
+  let pausedUntil = 0;
+  let successStreak = 0;
+
+  const refill = () => {
+    const now = Date.now();
+    tokens = Math.min(capacity, tokens + ((now - lastRefill) * rate) / 60000);
+    lastRefill = now;
+  };
+
+  const acquire = async (signal?: AbortSignal): Promise<void> => {
+    // Loop because several callers may wake up for the same token
+    for (;;) {
+      throwIfAborted(signal);
+      const now = Date.now();
+      if (now < pausedUntil) {
+        await sleep(pausedUntil - now, signal);
+        continue;
+      }
+      refill();
+      if (tokens >= 1) {
+        tokens -= 1;
+        return;
+      }
+      await sleep(Math.ceil(((1 - tokens) * 60000) / rate), signal);
+    }
+  };
+
+  const reportSuccess = () => {
+    successStreak++;
+    if (successStreak >= successesPerIncrease && rate < maxRate) {
+      refill();
+      rate = Math.min(maxRate, rate + 1);
+      successStreak = 0;
+    }
+  };
+
+  const reportRateLimited = () => {
+    refill();
+    successStreak = 0;
+    rate = Math.max(minRate, rate / 2);
+    tokens = 0;
+    // Hold everyone back for one interval at the new, slower rate
+    pausedUntil = Math.max(pausedUntil, Date.now() + 60000 / rate);
+    console.warn(`Rate limited: slowing curation to ${rate.toFixed(1)} requests/minute.`);
+  };
+
+  return {
+    acquire,
+    reportSuccess,
+    reportRateLimited,
+    getCurrentRate: () => rate
+  };
+};
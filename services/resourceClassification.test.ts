@@ -0,0 +1,65 @@
+import { describe, it, expect } from 'vitest';
+import { ResourceLink } from '../types';
+import { classifyResource, getResourceKind, parseDurationMinutes, formatDuration } from './resourceClassification';
+
+const REDIRECT = 'https://vertexaisearch.cloud.google.com/grounding-api-redirect/AbCdEf123';
+
+const link = (uri: string, extra: Partial<ResourceLink> = {}): ResourceLink => ({ title: 'x', uri, ...extra });
+
+describe('classifyResource', () => {
+  it('classifies by host and path', () => {
+    expect(classifyResource(link('https://youtu.be/dQw4w9WgXcQ'))).toMatchObject({ kind: 'video', cost: 'free' });
+    expect(classifyResource(link('https://github.com/rust-lang/rust'))).toMatchObject({ kind: 'repository' });
+    expect(classifyResource(link('https://www.udemy.com/course/rust'))).toMatchObject({ kind: 'course', cost: 'paid' });
+    expect(classifyResource(link('https://example.com/docs/intro'))).toMatchObject({ kind: 'docs' });
+    expect(classifyResource(link('https://example.com/post')).kind).toBe('article');
+  });
+
+  it('lets certain hosts override the model and the model override the rest', () => {
+    expect(classifyResource(link('https://github.com/a/b'), { type: 'Article' }).kind).toBe('repository');
+    expect(classifyResource(link('https://developer.mozilla.org/x'), { type: 'Interactive tutorial' }).kind).toBe('interactive');
+  });
+
+  it('reads duration, cost and difficulty from the curator item', () => {
+    expect(classifyResource(link('https://example.com/post'), { duration: '1h 30m', cost: 'Free to audit', difficulty: 'Intro' }))
+      .toMatchObject({ durationMinutes: 90, cost: 'freemium', difficulty: 'beginner' });
+  });
+
+  it('keeps fields the resource already has', () => {
+    expect(classifyResource(link('https://youtu.be/dQw4w9WgXcQ', { kind: 'course', cost: 'paid' }))).toMatchObject({ kind: 'course', cost: 'paid' });
+  });
+
+  it('uses the real site of a grounded link instead of the redirect host', () => {
+    expect(classifyResource(link(REDIRECT, { source: 'coursera.org' }))).toMatchObject({ kind: 'course', cost: 'freemium' });
+    expect(classifyResource(link(REDIRECT, { source: 'developer.mozilla.org' })).kind).toBe('docs');
+  });
+
+  it("uses the curator's link for a grounded result on the same site", () => {
+    const video = { uri: 'https://www.youtube.com/watch?v=dQw4w9WgXcQ', type: 'Article' };
+    expect(classifyResource(link(REDIRECT, { source: 'youtube.com' }), video).kind).toBe('video');
+    // A link on another site says nothing about this page
+    expect(classifyResource(link(REDIRECT, { source: 'example.com' }), { uri: 'https://github.com/a/b' }).kind).toBe('article');
+  });
+});
+
+describe('getResourceKind', () => {
+  it('prefers the stored kind and classifies older resources on the fly', () => {
+    expect(getResourceKind(link('https://youtu.be/dQw4w9WgXcQ', { kind: 'podcast' }))).toBe('podcast');
+    expect(getResourceKind(link('https://github.com/a/b'))).toBe('repository');
+  });
+});
+
+describe('durations', () => {
+  it.each([[25, 25], ['25', 25], ['15 min', 15], ['1h 30m', 90], ['2 hours', 120], ['1.5 hrs', 90]])('parses %j', (value, minutes) => {
+    expect(parseDurationMinutes(value)).toBe(minutes);
+  });
+
+  it('ignores values that are not durations', () => {
+    expect(parseDurationMinutes('soon')).toBeUndefined();
+    expect(parseDurationMinutes(-5)).toBeUndefined();
+  });
+
+  it('formats minutes and hours', () => {
+    expect([formatDuration(45), formatDuration(60), formatDuration(95)]).toEqual(['45 min', '1h', '1h 35m']);
+  });
+});
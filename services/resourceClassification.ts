@@ -0,0 +1,133 @@
+import { ResourceCost, ResourceDifficulty, ResourceKind, ResourceLink } from "../types";
+import { canonicalizeUrl, isGroundingRedirect, isOnSite } from "./resourceIdentity";
+
+// Resource kind, duration, cost and difficulty. The curator reports these in its JSON answer;
+// URL heuristics fill the gaps and override the model where the host makes the answer certain.
+
+export const RESOURCE_KINDS: ResourceKind[] = ['video', 'docs', 'course', 'interactive', 'repository', 'book', 'podcast', 'article'];
+export const RESOURCE_COSTS: ResourceCost[] = ['free', 'freemium', 'paid'];
+export const RESOURCE_DIFFICULTIES: ResourceDifficulty[] = ['beginner', 'intermediate', 'advanced'];
+
+export const KIND_LABELS: Record<ResourceKind, string> = {
+  video: 'Video',
+  docs: 'Official Docs',
+  course: 'Course',
+  interactive: 'Interactive',
+  repository: 'Repository',
+  book: 'Book',
+  podcast: 'Podcast',
+  article: 'Article'
+};
+
+interface HostRule {
+  pattern: RegExp; // Tested against the canonical URL (host + path)
+  kind: ResourceKind;
+  cost?: ResourceCost;
+  certain?: boolean; // The host only serves this kind; ignore the model's answer
+}
+
+const HOST_RULES: HostRule[] = [
+  { pattern: /^(youtube\.com\/(watch|shorts|embed)|vimeo\.com\/\d)/, kind: 'video', cost: 'free', certain: true },
+  { pattern: /^(github\.com|gitlab\.com|bitbucket\.org)\/[^/]+\/[^/]+/, kind: 'repository', cost: 'free', certain: true },
+  { pattern: /^(open\.spotify\.com\/(episode|show)|podcasts\.apple\.com|overcast\.fm|pca\.st)/, kind: 'podcast', certain: true },
+  { pattern: /^(udemy\.com|pluralsight\.com|linkedin\.com\/learning|frontendmasters\.com)/, kind: 'course', cost: 'paid', certain: true },
+  { pattern: /^(coursera\.org|edx\.org|udacity\.com|datacamp\.com|codecademy\.com)/, kind: 'course', cost: 'freemium', certain: true },
+  { pattern: /^(khanacademy\.org|freecodecamp\.org\/learn|ocw\.mit\.edu|theodinproject\.com)/, kind: 'course', cost: 'free', certain: true },
+  { pattern: /^(codepen\.io|codesandbox\.io|replit\.com|exercism\.org|leetcode\.com|hackerrank\.com|kaggle\.com\/learn|jsfiddle\.net)/, kind: 'interactive', certain: true },
+  { pattern: /^(oreilly\.com|manning\.com|amazon\.[a-z.]+\/.*\/dp\/|books\.google\.|nostarch\.com|leanpub\.com)/, kind: 'book' },
+  { pattern: /^(developer\.mozilla\.org|learn\.microsoft\.com|docs\.|developer\.|[^/]+\.readthedocs\.io)|\/docs?(\/|$)|\/documentation(\/|$)|\/reference(\/|$)/, kind: 'docs', cost: 'free' },
+  { pattern: /^(medium\.com|dev\.to|[^/]+\.substack\.com|hashnode\.dev)/, kind: 'article', cost: 'free' }
+];
+
+const matchHostRule = (uri: string): HostRule | undefined => {
+  const canonical = canonicalizeUrl(uri);
+  return HOST_RULES.find(rule => rule.pattern.test(canonical));
+};
+
+// Grounded links hide the page behind a Google redirect. The curator's own link stands in for it
+// when it is on the same site; otherwise only the site (the resource's source) is known.
+const classificationUrl = (resource: ResourceLink, curatorItem?: Record<string, any>): string => {
+  if (!isGroundingRedirect(resource.uri)) return resource.uri;
+  const reported = curatorItem?.uri;
+  if (typeof reported === 'string' && resource.source && isOnSite(reported, resource.source)) return reported;
+  return resource.source || resource.uri;
+};
+
+// Free-text "Type" answers ("Official Documentation", "YouTube video", "GitHub repo", ...)
+const parseKind = (value: unknown): ResourceKind | undefined => {
+  if (typeof value !== 'string') return undefined;
+  const text = value.toLowerCase();
+  if (/video|youtube|talk|lecture/.test(text)) return 'video';
+  if (/doc|reference|manual|official/.test(text)) return 'docs';
+  if (/course|tutorial series|mooc|bootcamp/.test(text)) return 'course';
+  if (/interactive|playground|exercise|sandbox|practice/.test(text)) return 'interactive';
+  if (/repo|github|source code/.test(text)) return 'repository';
+  if (/book|ebook/.test(text)) return 'book';
+  if (/podcast|episode/.test(text)) return 'podcast';
+  if (/article|blog|post|tutorial|guide/.test(text)) return 'article';
+  return undefined;
+};
+
+// Minutes from 25, "25", "15 min", "1h 30m", "2 hours", "1.5 hrs"
+export const parseDurationMinutes = (value: unknown): number | undefined => {
+  if (typeof value === 'number') return Number.isFinite(value) && value > 0 ? Math.round(value) : undefined;
+  if (typeof value !== 'string') return undefined;
+  const text = value.toLowerCase();
+  const hours = text.match(/(\d+(?:\.\d+)?)\s*(h|hr|hrs|hour|hours)\b/);
+  const minutes = text.match(/(\d+)\s*(m|min|mins|minute|minutes)\b/);
+  if (hours || minutes) {
+    const total = (hours ? Number(hours[1]) * 60 : 0) + (minutes ? Number(minutes[1]) : 0);
+    return total > 0 ? Math.round(total) : undefined;
+  }
+  const plain = Number(text.trim());
+  return Number.isFinite(plain) && plain > 0 ? Math.round(plain) : undefined;
+};
+
+const parseCost = (value: unknown): ResourceCost | undefined => {
+  if (typeof value === 'boolean') return value ? 'free' : 'paid';
+  if (typeof value !== 'string') return undefined;
+  const text = value.toLowerCase();
+  if (/freemium|free tier|free to audit|partly/.test(text)) return 'freemium';
+  if (/paid|subscription|purchase|\$/.test(text)) return 'paid';
+  if (/free/.test(text)) return 'free';
+  return undefined;
+};
+
+const parseDifficulty = (value: unknown): ResourceDifficulty | undefined => {
+  if (typeof value !== 'string') return undefined;
+  const text = value.toLowerCase();
+  if (/beginner|intro|basic|easy/.test(text)) return 'beginner';
+  if (/intermediate|medium/.test(text)) return 'intermediate';
+  if (/advanced|expert|hard/.test(text)) return 'advanced';
+  return undefined;
+};
+
+// Merge the curator's JSON item (keys lower-cased, if any) with URL heuristics; existing fields are kept
+export const classifyResource = (resource: ResourceLink, curatorItem?: Record<string, any>): ResourceLink => {
+  const rule = matchHostRule(classificationUrl(resource, curatorItem));
+  const reportedKind = parseKind(curatorItem?.type ?? curatorItem?.kind);
+  const kind = resource.kind
+    ?? (rule?.certain ? rule.kind : undefined)
+    ?? reportedKind
+    ?? rule?.kind
+    ?? (resource.thumbnail ? 'video' : 'article');
+
+  return {
+    ...resource,
+    kind,
+    durationMinutes: resource.durationMinutes ?? parseDurationMinutes(curatorItem?.duration ?? curatorItem?.durationminutes),
+    cost: resource.cost ?? parseCost(curatorItem?.cost) ?? rule?.cost,
+    difficulty: resource.difficulty ?? parseDifficulty(curatorItem?.difficulty)
+  };
+};
+
+// Kind for display; resources saved before classification existed fall back to the URL
+export const getResourceKind = (resource: ResourceLink): ResourceKind =>
+  resource.kind ?? classifyResource(resource).kind!;
+
+export const formatDuration = (minutes: number): string => {
+  if (minutes < 60) return `${minutes} min`;
+  const hours = Math.floor(minutes / 60);
+  const rest = minutes % 60;
+  return rest > 0 ? `${hours}h ${rest}m` : `${hours}h`;
+};
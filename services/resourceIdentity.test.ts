@@ -0,0 +1,92 @@
+import { describe, it, expect } from 'vitest';
+import { Curriculum, ResourceLink, Topic } from '../types';
+import { canonicalizeUrl, dedupeResources, findSharedResources, isGroundingRedirect, isOnSite, isWebUrl } from './resourceIdentity';
+
+const REDIRECT = 'https://vertexaisearch.cloud.google.com/grounding-api-redirect/AbCdEf123';
+
+describe('canonicalizeUrl', () => {
+  it('drops protocol, www, trailing slashes and case of the host', () => {
+    expect(canonicalizeUrl('https://www.Example.com/Docs/')).toBe('example.com/Docs');
+    expect(canonicalizeUrl('http://m.example.com')).toBe('example.com');
+    expect(canonicalizeUrl('example.com/a//')).toBe('example.com/a');
+  });
+
+  it('strips tracking parameters and sorts the rest', () => {
+    expect(canonicalizeUrl('https://example.com/p?utm_source=x&b=2&fbclid=y&a=1')).toBe('example.com/p?a=1&b=2');
+    expect(canonicalizeUrl('https://example.com/p?utm_medium=mail')).toBe('example.com/p');
+  });
+
+  it('ignores the fragment', () => {
+    expect(canonicalizeUrl('https://example.com/guide#section-2')).toBe('example.com/guide');
+  });
+
+  it('maps every YouTube form of a video to one id', () => {
+    const id = 'youtube.com/watch?v=dQw4w9WgXcQ';
+    ['https://youtu.be/dQw4w9WgXcQ', 'https://www.youtube.com/watch?v=dQw4w9WgXcQ&t=30', 'https://m.youtube.com/shorts/dQw4w9WgXcQ?si=abc']
+      .forEach(url => expect(canonicalizeUrl(url)).toBe(id));
+  });
+
+  it('is idempotent, so ids stored earlier still match', () => {
+    ['https://www.example.com/p?b=2&a=1', 'https://youtu.be/dQw4w9WgXcQ', REDIRECT].forEach(url => {
+      expect(canonicalizeUrl(canonicalizeUrl(url))).toBe(canonicalizeUrl(url));
+    });
+  });
+
+  it('keeps the token of a grounded redirect, which is all that identifies it', () => {
+    expect(canonicalizeUrl(REDIRECT)).toBe('vertexaisearch.cloud.google.com/grounding-api-redirect/AbCdEf123');
+    expect(canonicalizeUrl(`${REDIRECT.slice(0, -1)}4`)).not.toBe(canonicalizeUrl(REDIRECT));
+  });
+});
+
+describe('url checks', () => {
+  it('accepts only http(s) links', () => {
+    expect([isWebUrl('https://a.example'), isWebUrl(' http://a.example '), isWebUrl('javascript:alert(1)'), isWebUrl('a.example')])
+      .toEqual([true, true, false, false]);
+  });
+
+  it('recognises grounded redirects', () => {
+    expect(isGroundingRedirect(REDIRECT)).toBe(true);
+    expect(isGroundingRedirect('https://example.com/vertexaisearch.cloud.google.com')).toBe(false);
+  });
+
+  it('treats subdomains as on the site', () => {
+    expect(isOnSite('https://docs.python.org/3/', 'python.org')).toBe(true);
+    expect(isOnSite('https://www.python.org', 'https://python.org/')).toBe(true);
+    expect(isOnSite('https://notpython.org', 'python.org')).toBe(false);
+  });
+});
+
+describe('dedupeResources', () => {
+  it('keeps the first of each canonical resource', () => {
+    const resources: ResourceLink[] = [
+      { title: 'first', uri: 'https://www.example.com/a/?utm_source=x' },
+      { title: 'video', uri: 'https://youtu.be/dQw4w9WgXcQ' },
+      { title: 'dup', uri: 'http://example.com/a#top' },
+      { title: 'dup video', uri: 'https://www.youtube.com/watch?v=dQw4w9WgXcQ' }
+    ];
+    expect(dedupeResources(resources).map(r => r.title)).toEqual(['first', 'video']);
+  });
+});
+
+describe('findSharedResources', () => {
+  const topic = (id: string, uris: string[]): Topic => ({
+    id, title: id, description: '', actionableStep: '',
+    curatedContent: { summary: '', resources: uris.map(uri => ({ title: uri, uri })) }
+  });
+
+  it('lists resources that appear in more than one topic, in syllabus order', () => {
+    const curriculum: Curriculum = {
+      id: 'c1', createdAt: 1, title: 'T', description: '',
+      modules: [
+        { title: 'A', topics: [topic('a', ['https://example.com/x', 'https://example.com/x/']), topic('b', ['https://only.example'])] },
+        { title: 'B', topics: [topic('c', ['http://www.example.com/x?utm_campaign=y'])] }
+      ]
+    };
+    const shared = findSharedResources(curriculum);
+    expect([...shared.keys()]).toEqual(['example.com/x']);
+    expect(shared.get('example.com/x')).toEqual([
+      { topicId: 'a', topicTitle: 'a', moduleIndex: 0 },
+      { topicId: 'c', topicTitle: 'c', moduleIndex: 1 }
+    ]);
+  });
+});
@@ -0,0 +1,128 @@
+import { Curriculum, ResourceLink } from "../types";
+
+// Canonical resource identity. The curator sees the same page under many URLs
+// (youtu.be/ID, youtube.com/watch?v=ID&t=30, shorts/ID, ?utm_source=...); every
+// comparison, dedupe and progress lookup goes through canonicalizeUrl instead.
+
+const YOUTUBE_HOSTS = /(^|\.)(youtube\.com|youtu\.be|youtube-nocookie\.com)$/;
+
+// Query parameters that only track where a click came from
+const TRACKING_PARAMS = /^(utm_.+|fbclid|gclid|dclid|msclkid|mc_cid|mc_eid|igshid|ref_src|si|feature)$/i;
+
+// Only http(s) links are resources; javascript:, data: and the like would run when clicked in an export
+export const isWebUrl = (url: string): boolean => {
+  try {
+    const { protocol } = new URL(url.trim());
+    return protocol === 'http:' || protocol === 'https:';
+  } catch {
+    return false;
+  }
+};
+
+// Gemini grounding links point at Google's redirector; the chunk's domain (or its title, which
+// the Gemini API sets to the bare domain) is the only record of the real site
+const GROUNDING_REDIRECT_HOST = /(^|\.)vertexaisearch\.cloud\.google\.com$/;
+const BARE_DOMAIN = /^([a-z\d-]+\.)+[a-z]{2,}$/;
+
+// True for grounded links, whose page (host and path) is hidden behind the redirect
+export const isGroundingRedirect = (url: string): boolean => {
+  try {
+    return GROUNDING_REDIRECT_HOST.test(new URL(url).hostname.toLowerCase());
+  } catch {
+    return false;
+  }
+};
+
+// Site a search result belongs to, or null when it can't be told
+export const groundedSiteDomain = (uri: string, chunk: { title?: string; domain?: string } = {}): string | null => {
+  let host: string;
+  try {
+    host = new URL(uri).hostname.toLowerCase().replace(/^www\./, '');
+  } catch {
+    return null;
+  }
+  if (!GROUNDING_REDIRECT_HOST.test(host)) return host;
+  const reported = [chunk.domain, chunk.title]
+    .map(value => value?.trim().toLowerCase().replace(/^www\./, ''))
+    .find(value => value && BARE_DOMAIN.test(value));
+  return reported || null;
+};
+
+export const getYouTubeVideoId = (url: string): string | undefined => {
+  if (!url) return undefined;
+  // Robust regex to handle standard watch URLs, shorts, embeds, and youtu.be shortlinks
+  const regExp = /^.*(youtu.be\/|v\/|u\/\w\/|embed\/|watch\?v=|&v=|shorts\/)([^#&?]*).*/;
+  const match = url.match(regExp);
+  return (match && match[2].length === 11) ? match[2] : undefined;
+};
+
+export const getYouTubeThumbnail = (url: string): string | undefined => {
+  const id = getYouTubeVideoId(url);
+  // 'mqdefault.jpg' is 320x180 and very reliable. 'hqdefault.jpg' is 480x360.
+  return id ? `https://img.youtube.com/vi/${id}/hqdefault.jpg` : undefined;
+};
+
+// Host + path + sorted meaningful query, without protocol, "www." / "m." or trailing slash.
+// Idempotent, so ids stored by older versions (raw URIs) canonicalize to the same value.
+export const canonicalizeUrl = (url: string): string => {
+  const trimmed = url.trim();
+  let parsed: URL;
+  try {
+    parsed = new URL(/^[a-z][a-z\d+.-]*:\/\//i.test(trimmed) ? trimmed : `https://${trimmed}`);
+  } catch (e) {
+    return trimmed.replace(/^(https?:\/\/)?(www\.)?/i, '').replace(/\/$/, '').toLowerCase();
+  }
+
+  const host = parsed.hostname.toLowerCase().replace(/^(www|m|mobile)\./, '');
+  if (YOUTUBE_HOSTS.test(host)) {
+    const videoId = getYouTubeVideoId(parsed.href);
+    if (videoId) return `youtube.com/watch?v=${videoId}`;
+  }
+
+  const path = parsed.pathname.replace(/\/+$/, '');
+  const params = [...parsed.searchParams.entries()]
+    .filter(([key]) => !TRACKING_PARAMS.test(key))
+    .sort(([a], [b]) => a.localeCompare(b));
+  const query = params.length > 0 ? `?${new URLSearchParams(params).toString()}` : '';
+  return `${host}${path}${query}`;
+};
+
+// The link is on the site or one of its subdomains ("docs.python.org" is on "python.org")
+export const isOnSite = (url: string, site: string): boolean => {
+  const host = canonicalizeUrl(url).split(/[/?]/)[0];
+  const siteHost = canonicalizeUrl(site).split(/[/?]/)[0];
+  return !!siteHost && (host === siteHost || host.endsWith(`.${siteHost}`));
+};
+
+export const isSameResource = (a: string, b: string): boolean => canonicalizeUrl(a) === canonicalizeUrl(b);
+
+// First occurrence wins
+export const dedupeResources = (resources: ResourceLink[]): ResourceLink[] => {
+  const seen = new Set<string>();
+  return resources.filter(r => {
+    const id = canonicalizeUrl(r.uri);
+    if (seen.has(id)) return false;
+    seen.add(id);
+    return true;
+  });
+};
+
+export interface ResourceOccurrence {
+  topicId: string;
+  topicTitle: string;
+  moduleIndex: number;
+}
+
+// Resources recommended in more than one topic, by canonical id, in syllabus order
+export const findSharedResources = (curriculum: Curriculum): Map<string, ResourceOccurrence[]> => {
+  const occurrences = new Map<string, ResourceOccurrence[]>();
+  curriculum.modules.forEach((mod, moduleIndex) => {
+    mod.topics.forEach(topic => {
+      const ids = new Set((topic.curatedContent?.resources || []).map(r => canonicalizeUrl(r.uri)));
+      ids.forEach(id => {
+        occurrences.set(id, [...(occurrences.get(id) || []), { topicId: topic.id, topicTitle: topic.title, moduleIndex }]);
+      });
+    });
+  });
+  return new Map([...occurrences].filter(([, list]) => list.length > 1));
+};
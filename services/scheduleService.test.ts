@@ -0,0 +1,75 @@
+import { describe, it, expect } from 'vitest';
+import { Curriculum, CurriculumProgress, Topic } from '../types';
+import { addDays, buildSchedule, getScheduleStatus, getTopicHours, DEFAULT_TOPIC_HOURS, fromInputDate, toInputDate } from './scheduleService';
+
+const START = new Date(2026, 2, 2).getTime(); // A Monday; DST starts in many zones later that month
+
+const topic = (id: string, estimatedHours?: number): Topic => ({
+  id, title: id, description: '', actionableStep: '', ...(estimatedHours !== undefined ? { estimatedHours } : {})
+});
+
+const curriculum = (modules: Topic[][]): Curriculum => ({
+  id: 'c1', createdAt: START, title: 'T', description: '',
+  modules: modules.map((topics, i) => ({ title: `M${i}`, topics }))
+});
+
+const week = (i: number) => addDays(START, i * 7);
+
+describe('buildSchedule', () => {
+  it('packs topics into weeks in order', () => {
+    const schedule = buildSchedule(curriculum([[topic('a', 2), topic('b', 2)], [topic('c', 4)]]), { startDate: START, hoursPerWeek: 4 });
+    expect(schedule.weeks.map(w => w.items.map(i => [i.topicId, i.hours]))).toEqual([[['a', 2], ['b', 2]], [['c', 4]]]);
+    expect(schedule.totalHours).toBe(8);
+  });
+
+  it('spills a topic that does not fit into the following weeks', () => {
+    const schedule = buildSchedule(curriculum([[topic('a', 3), topic('b', 7)]]), { startDate: START, hoursPerWeek: 4 });
+    expect(schedule.weeks.map(w => w.items.map(i => [i.topicId, i.hours]))).toEqual([
+      [['a', 3], ['b', 1]],
+      [['b', 4]],
+      [['b', 2]]
+    ]);
+    expect(schedule.topicDates.b).toEqual({ start: week(0), end: week(3) });
+  });
+
+  it('uses the default estimate for missing or zero hours', () => {
+    const schedule = buildSchedule(curriculum([[topic('a'), topic('b', 0), topic('c', -1)]]), { startDate: START, hoursPerWeek: 10 });
+    expect(schedule.weeks[0].items.map(i => i.hours)).toEqual([DEFAULT_TOPIC_HOURS, DEFAULT_TOPIC_HOURS, DEFAULT_TOPIC_HOURS]);
+    expect(getTopicHours(undefined)).toBe(DEFAULT_TOPIC_HOURS);
+    expect(getTopicHours(1.5)).toBe(1.5);
+  });
+
+  it('ends each topic and module with the week it finishes in', () => {
+    const schedule = buildSchedule(curriculum([[topic('a', 4)], [topic('b', 2), topic('c', 5)]]), { startDate: START, hoursPerWeek: 4 });
+    expect(schedule.topicDates).toEqual({
+      a: { start: week(0), end: week(1) },
+      b: { start: week(1), end: week(2) },
+      c: { start: week(1), end: week(3) }
+    });
+    expect(schedule.moduleEndDates).toEqual([week(1), week(3)]);
+  });
+
+  it('starts weeks at local midnight of the start day, across DST', () => {
+    const schedule = buildSchedule(curriculum([[topic('a', 20)]]), { startDate: START + 15 * 3600_000, hoursPerWeek: 5 });
+    expect(schedule.weeks.map(w => new Date(w.start).getHours())).toEqual([0, 0, 0, 0]);
+    expect(schedule.weeks.map(w => toInputDate(w.start))).toEqual(['2026-03-02', '2026-03-09', '2026-03-16', '2026-03-23']);
+    expect(fromInputDate('2026-03-09')).toBe(week(1));
+  });
+});
+
+describe('getScheduleStatus', () => {
+  const plan = curriculum([[topic('a', 4)], [topic('b', 4)]]);
+  const settings = { startDate: START, hoursPerWeek: 4 };
+  const schedule = buildSchedule(plan, settings);
+  const progress = (done: string[]): CurriculumProgress => ({
+    curriculumId: 'c1', completedResources: {}, completedSteps: Object.fromEntries(done.map(id => [id, true]))
+  });
+
+  it('compares completed hours with the pro-rated plan', () => {
+    expect(getScheduleStatus(plan, schedule, settings, progress([]), START - 1).state).toBe('not-started');
+    expect(getScheduleStatus(plan, schedule, settings, progress(['a']), week(1)).state).toBe('on-track');
+    expect(getScheduleStatus(plan, schedule, settings, progress([]), week(1) + 3.5 * 24 * 3600_000)).toMatchObject({ expectedHours: 6, state: 'behind' });
+    expect(getScheduleStatus(plan, schedule, settings, progress(['a']), START).state).toBe('ahead');
+    expect(getScheduleStatus(plan, schedule, settings, progress(['a', 'b']), START).state).toBe('complete');
+  });
+});
@@ -0,0 +1,153 @@
+import { Curriculum, CurriculumProgress, Schedule, ScheduleSettings, ScheduleWeek, TimeCommitment } from "../types";
+import { getTopicCompletion } from "./progressService";
+
+// Calendar arithmetic via Date so weeks stay aligned to local midnight across DST changes
+export const addDays = (timestamp: number, days: number): number => {
+  const date = new Date(timestamp);
+  date.setDate(date.getDate() + days);
+  return date.getTime();
+};
+
+// Used when the planner did not return an estimate (e.g. older or imported curricula)
+export const DEFAULT_TOPIC_HOURS = 2;
+
+// Upper end of each TimeCommitment band, so the schedule is achievable but not padded
+export const getWeeklyHours = (commitment?: TimeCommitment): number => {
+  switch (commitment) {
+    case TimeCommitment.High:
+      return 6;
+    case TimeCommitment.Medium:
+      return 5;
+    case TimeCommitment.Low:
+    default:
+      return 2;
+  }
+};
+
+export const startOfDay = (timestamp: number): number => {
+  const date = new Date(timestamp);
+  date.setHours(0, 0, 0, 0);
+  return date.getTime();
+};
+
+// <input type="date"> works in YYYY-MM-DD, in local time
+export const toInputDate = (timestamp: number) => {
+  const d = new Date(timestamp);
+  return `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, '0')}-${String(d.getDate()).padStart(2, '0')}`;
+};
+
+export const fromInputDate = (value: string) => {
+  const [y, m, d] = value.split('-').map(Number);
+  return new Date(y, m - 1, d).getTime();
+};
+
+export const getDefaultScheduleSettings = (curriculum: Curriculum): ScheduleSettings => ({
+  startDate: startOfDay(curriculum.createdAt),
+  hoursPerWeek: getWeeklyHours(curriculum.timeCommitment)
+});
+
+export const getTopicHours = (hours?: number): number => {
+  return typeof hours === 'number' && hours > 0 ? hours : DEFAULT_TOPIC_HOURS;
+};
+
+// Lay topics out in order, filling each week up to hoursPerWeek.
+// A topic that doesn't fit in the remaining time of a week spills into the next one.
+export const buildSchedule = (curriculum: Curriculum, settings: ScheduleSettings): Schedule => {
+  const hoursPerWeek = Math.max(0.5, settings.hoursPerWeek);
+  const start = startOfDay(settings.startDate);
+
+  const weeks: ScheduleWeek[] = [];
+  const topicDates: Schedule['topicDates'] = {};
+  const moduleEndDates: number[] = [];
+  let totalHours = 0;
+
+  let weekIndex = 0;
+  let remainingInWeek = hoursPerWeek;
+
+  const getWeek = (index: number): ScheduleWeek => {
+    while (weeks.length <= index) {
+      const i = weeks.length;
+      weeks.push({ index: i, start: addDays(start, i * 7), end: addDays(start, (i + 1) * 7), items: [] });
+    }
+    return weeks[index];
+  };
+
+  curriculum.modules.forEach((mod, mIdx) => {
+    mod.topics.forEach(topic => {
+      let remainingTopic = getTopicHours(topic.estimatedHours);
+      totalHours += remainingTopic;
+      if (remainingInWeek < 0.01) {
+        weekIndex++;
+        remainingInWeek = hoursPerWeek;
+      }
+      const firstWeek = weekIndex;
+
+      while (remainingTopic > 0.01) {
+        if (remainingInWeek < 0.01) {
+          weekIndex++;
+          remainingInWeek = hoursPerWeek;
+        }
+        const chunk = Math.min(remainingTopic, remainingInWeek);
+        getWeek(weekIndex).items.push({ topicId: topic.id, moduleIndex: mIdx, title: topic.title, hours: chunk });
+        remainingTopic -= chunk;
+        remainingInWeek -= chunk;
+      }
+
+      topicDates[topic.id] = { start: getWeek(firstWeek).start, end: getWeek(weekIndex).end };
+    });
+    moduleEndDates[mIdx] = getWeek(weekIndex).end;
+  });
+
+  return { weeks, topicDates, moduleEndDates, totalHours };
+};
+
+export interface ScheduleStatus {
+  expectedHours: number; // Hours that should be done by `now`
+  completedHours: number; // Hours done, weighted by each topic's completion
+  deltaWeeks: number; // Positive = ahead of schedule, negative = behind
+  state: 'ahead' | 'on-track' | 'behind' | 'not-started' | 'complete';
+}
+
+// Compare actual completion with where the schedule says the learner should be
+export const getScheduleStatus = (
+  curriculum: Curriculum,
+  schedule: Schedule,
+  settings: ScheduleSettings,
+  progress: CurriculumProgress,
+  now: number = Date.now()
+): ScheduleStatus => {
+  let expectedHours = 0;
+  schedule.weeks.forEach(week => {
+    if (now >= week.end) {
+      expectedHours += week.items.reduce((acc, item) => acc + item.hours, 0);
+    } else if (now > week.start) {
+      // Pro-rate the current week
+      const fraction = (now - week.start) / (week.end - week.start);
+      expectedHours += week.items.reduce((acc, item) => acc + item.hours, 0) * fraction;
+    }
+  });
+
+  let completedHours = 0;
+  curriculum.modules.forEach(mod => {
+    mod.topics.forEach(topic => {
+      completedHours += getTopicHours(topic.estimatedHours) * getTopicCompletion(progress, topic);
+    });
+  });
+
+  const deltaWeeks = (completedHours - expectedHours) / Math.max(0.5, settings.hoursPerWeek);
+
+  let state: ScheduleStatus['state'];
+  if (schedule.totalHours > 0 && completedHours >= schedule.totalHours) {
+    state = 'complete';
+  } else if (now < startOfDay(settings.startDate)) {
+    state = 'not-started';
+  } else if (deltaWeeks >= 0.5) {
+    state = 'ahead';
+  } else if (deltaWeeks <= -0.5) {
+    state = 'behind';
+  } else {
+    state = 'on-track';
+  }
+
+  return { expectedHours, completedHours, deltaWeeks, state };
+};
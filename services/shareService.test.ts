@@ -0,0 +1,72 @@
+import { describe, it, expect, vi } from 'vitest';
+import { Curriculum, CurriculumProgress } from '../types';
+import { createShareLink, decodeSharePayload, getSharePayload, MAX_SHARE_URL_LENGTH } from './shareService';
+
+const BASE = 'https://skillscout.example/app?x=1#old';
+
+const curriculum: Curriculum = {
+  id: 'c1',
+  createdAt: 1,
+  title: 'Rust',
+  description: 'Learn Rust',
+  modules: [{
+    title: 'Basics',
+    topics: [{
+      id: 'm0-t0',
+      title: 'Ownership',
+      description: 'Moves and borrows — ünïcödé too',
+      actionableStep: 'Write a borrow checker puzzle',
+      curatedContent: { summary: '', resources: [{ title: 'The Book', uri: 'https://doc.rust-lang.org/book/' }] }
+    }]
+  }]
+};
+
+const progress: CurriculumProgress = {
+  curriculumId: 'c1',
+  completedResources: { 'm0-t0': ['doc.rust-lang.org/book'] },
+  completedSteps: { 'm0-t0': true }
+};
+
+describe('share links', () => {
+  it('round-trips a curriculum and its progress through the URL fragment', async () => {
+    const result = await createShareLink(curriculum, { progress }, BASE);
+    if (result.kind !== 'link') throw new Error('Expected a link');
+    expect(result.url.startsWith('https://skillscout.example/app?x=1#share=')).toBe(true);
+
+    const payload = getSharePayload(new URL(result.url).hash);
+    expect(payload).not.toBeNull();
+    const decoded = await decodeSharePayload(payload!);
+    if (!('curriculum' in decoded)) throw new Error(JSON.stringify(decoded.errors));
+    expect(decoded.curriculum).toEqual(curriculum);
+    expect(decoded.progress).toEqual(progress);
+  });
+
+  it('falls back to a file when the link would be too long', async () => {
+    // Random ids barely compress
+    const topics = Array.from({ length: 600 }, (_, i) => ({ ...curriculum.modules[0].topics[0], id: crypto.randomUUID(), title: `T${i}` }));
+    const big = { ...curriculum, title: 'Big Rust', modules: [{ title: 'All', topics }] };
+    const result = await createShareLink(big, {}, BASE);
+    if (result.kind !== 'file') throw new Error('Expected a file');
+    expect(result.urlLength).toBeGreaterThan(MAX_SHARE_URL_LENGTH);
+    expect(result.fileName).toMatch(/\.json$/);
+    expect(JSON.parse(result.content).curriculum.title).toBe('Big Rust');
+  });
+
+  it('only treats share fragments as payloads', () => {
+    expect(getSharePayload('#share=abc_-1')).toBe('abc_-1');
+    expect(getSharePayload('#other=abc')).toBeNull();
+    expect(getSharePayload('#share=a+b')).toBeNull();
+  });
+
+  it('reports a damaged or truncated payload as an import error', async () => {
+    const error = vi.spyOn(console, 'error').mockImplementation(() => {});
+    const result = await createShareLink(curriculum, {}, BASE);
+    const payload = getSharePayload(new URL((result as { url: string }).url).hash)!;
+
+    for (const damaged of ['not-a-real-payload', payload.slice(0, payload.length / 2)]) {
+      const decoded = await decodeSharePayload(damaged);
+      expect('errors' in decoded && decoded.errors[0].message).toMatch(/incomplete or damaged/);
+    }
+    error.mockRestore();
+  });
+});
@@ -0,0 +1,91 @@
+import { Curriculum, CurriculumExport, CurriculumProgress } from "../types";
+import { CURRICULUM_SCHEMA_VERSION, toJSONDocument, toFileName } from "./exportService";
+import { importCurriculumFromText, ImportResult } from "./importService";
+
+// Read-only share links without a backend: the export document is deflated and base64url-encoded
+// into the URL fragment, which browsers never send to a server. Opening the link decodes it
+// through the regular import validation.
+
+const SHARE_PARAM = 'share';
+
+// Whole-URL budget. Browsers accept far more, but chat apps, mail clients and link
+// shorteners start truncating somewhere past 8k characters.
+export const MAX_SHARE_URL_LENGTH = 8000;
+
+export interface ShareOptions {
+  progress?: CurriculumProgress; // Included so the recipient sees what is already done
+}
+
+export type ShareResult =
+  | { kind: 'link'; url: string }
+  | { kind: 'file'; fileName: string; content: string; urlLength: number }; // Too long for a link
+
+const toBase64Url = (bytes: Uint8Array): string => {
+  let binary = '';
+  // Chunked so large payloads don't overflow the argument limit of fromCharCode
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+};
+
+const fromBase64Url = (text: string): Uint8Array => {
+  const base64 = text.replace(/-/g, '+').replace(/_/g, '/');
+  const binary = atob(base64 + '='.repeat((4 - (base64.length % 4)) % 4));
+  return Uint8Array.from(binary, ch => ch.charCodeAt(0));
+};
+
+const pipeThrough = async (bytes: Uint8Array, transform: CompressionStream | DecompressionStream): Promise<Uint8Array> =>
+  new Uint8Array(await new Response(new Blob([bytes]).stream().pipeThrough(transform)).arrayBuffer());
+
+export const encodeSharePayload = async (curriculum: Curriculum, options: ShareOptions = {}): Promise<string> => {
+  const doc: CurriculumExport = {
+    schemaVersion: CURRICULUM_SCHEMA_VERSION,
+    exportedAt: Date.now(),
+    curriculum,
+    progress: options.progress
+  };
+  // No indentation: every byte counts in a URL
+  const json = new TextEncoder().encode(JSON.stringify(doc));
+  return toBase64Url(await pipeThrough(json, new CompressionStream('deflate-raw')));
+};
+
+// The link when it fits, otherwise the same document as a JSON file the recipient can import
+export const createShareLink = async (curriculum: Curriculum, options: ShareOptions = {}, baseUrl = window.location.href): Promise<ShareResult> => {
+  const url = `${baseUrl.split('#')[0]}#${SHARE_PARAM}=${await encodeSharePayload(curriculum, options)}`;
+  if (url.length <= MAX_SHARE_URL_LENGTH) {
+    return { kind: 'link', url };
+  }
+  return {
+    kind: 'file',
+    fileName: toFileName(curriculum.title, 'json'),
+    content: toJSONDocument(curriculum, options),
+    urlLength: url.length
+  };
+};
+
+// The encoded payload when the fragment is a share link, otherwise null
+export const getSharePayload = (hash = window.location.hash): string | null => {
+  const match = hash.match(new RegExp(`^#${SHARE_PARAM}=([A-Za-z0-9_-]+)$`));
+  return match ? match[1] : null;
+};
+
+// Corrupted or truncated links come back as a failed ImportResult, like a broken file would
+export const decodeSharePayload = async (payload: string): Promise<ImportResult> => {
+  let text: string;
+  try {
+    text = new TextDecoder().decode(await pipeThrough(fromBase64Url(payload), new DecompressionStream('deflate-raw')));
+  } catch (e) {
+    console.error("Failed to decode share link:", e);
+    return {
+      ok: false,
+      errors: [{ path: '', message: 'This share link is incomplete or damaged. Ask for the link again, or for the file version.' }]
+    };
+  }
+  return importCurriculumFromText(text);
+};
+
+// Drops the fragment without adding a history entry, so reloading doesn't reopen the shared view
+export const clearShareFragment = () => {
+  window.history.replaceState(null, '', window.location.pathname + window.location.search);
+};
@@ -0,0 +1,83 @@
+import { describe, it, expect } from 'vitest';
+import { ResourceLink, SourcePreferences } from '../types';
+import { applySourcePolicy, parseDomainList } from './sourcePolicy';
+import { groundedSiteDomain } from './resourceIdentity';
+
+const REDIRECT = 'https://vertexaisearch.cloud.google.com/grounding-api-redirect/AbCdEf123';
+
+const rules = (overrides: Partial<SourcePreferences> = {}): SourcePreferences => ({
+  preferredDomains: [],
+  blockedDomains: [],
+  preferredFormats: [],
+  ...overrides
+});
+
+const link = (uri: string, source?: string): ResourceLink => ({ title: uri, uri, source, kind: 'article' });
+
+// The curator's mapping of a grounding chunk
+const grounded = (title: string): ResourceLink => link(REDIRECT, groundedSiteDomain(REDIRECT, { title })!);
+
+describe('groundedSiteDomain', () => {
+  it('uses the link host for ordinary links', () => {
+    expect(groundedSiteDomain('https://www.example.com/page', { title: 'Some Page' })).toBe('example.com');
+  });
+
+  it('takes the real site of a redirect from the chunk', () => {
+    expect(groundedSiteDomain(REDIRECT, { title: 'w3schools.com' })).toBe('w3schools.com');
+    expect(groundedSiteDomain(REDIRECT, { title: 'Intro to CSS', domain: 'www.W3Schools.com' })).toBe('w3schools.com');
+  });
+
+  it('gives up on a redirect whose site is not named', () => {
+    expect(groundedSiteDomain(REDIRECT, { title: 'Intro to CSS' })).toBeNull();
+    expect(groundedSiteDomain('not a url')).toBeNull();
+  });
+});
+
+describe('applySourcePolicy', () => {
+  it('blocks a grounded result by its real domain', () => {
+    const result = applySourcePolicy([grounded('w3schools.com'), grounded('developer.mozilla.org')], rules({ blockedDomains: ['w3schools.com'] }));
+    expect(result.kept.map(r => r.source)).toEqual(['developer.mozilla.org']);
+    expect(result.excluded).toEqual([{ title: REDIRECT, uri: REDIRECT, reason: 'Blocked domain: w3schools.com' }]);
+  });
+
+  it('blocks subdomains and path rules', () => {
+    const result = applySourcePolicy(
+      [link('https://docs.example.com/a'), link('https://other.org/blog/post'), link('https://other.org/docs')],
+      rules({ blockedDomains: parseDomainList('example.com, other.org/blog') })
+    );
+    expect(result.kept.map(r => r.uri)).toEqual(['https://other.org/docs']);
+  });
+
+  it('keeps only allowed domains in allowlist mode, grounded ones included', () => {
+    const result = applySourcePolicy(
+      [link('https://random.blog/x'), grounded('developer.mozilla.org')],
+      rules({ preferredDomains: ['developer.mozilla.org'], onlyPreferredDomains: true })
+    );
+    expect(result.kept.map(r => r.source)).toEqual(['developer.mozilla.org']);
+    expect(result.excluded[0].reason).toBe('Not on the allowed domain list');
+  });
+
+  it('applies the host of a path rule to grounded results, whose path is unknown', () => {
+    const blocked = applySourcePolicy([grounded('other.org'), grounded('mdn.org')], rules({ blockedDomains: ['other.org/blog'] }));
+    expect(blocked.kept.map(r => r.source)).toEqual(['mdn.org']);
+    expect(blocked.excluded[0].reason).toBe('Blocked domain: other.org/blog');
+
+    const allowed = applySourcePolicy(
+      [grounded('developer.mozilla.org'), grounded('w3schools.com')],
+      rules({ preferredDomains: ['developer.mozilla.org/en-US/docs'], onlyPreferredDomains: true })
+    );
+    expect(allowed.kept.map(r => r.source)).toEqual(['developer.mozilla.org']);
+  });
+
+  it('matches a grounded result without a known site against no rule', () => {
+    const unknown = link(REDIRECT);
+    expect(applySourcePolicy([unknown], rules({ blockedDomains: ['vertexaisearch.cloud.google.com'] })).kept).toEqual([unknown]);
+    expect(applySourcePolicy([unknown], rules({ preferredDomains: ['mdn.org'], onlyPreferredDomains: true })).kept).toEqual([]);
+  });
+
+  it('ranks preferred domains first without reordering the rest', () => {
+    const resources = [link('https://a.example/1'), link('https://b.example/2'), link('https://mdn.org/3')];
+    const result = applySourcePolicy(resources, rules({ preferredDomains: ['mdn.org'] }));
+    expect(result.kept.map(r => r.uri)).toEqual(['https://mdn.org/3', 'https://a.example/1', 'https://b.example/2']);
+  });
+});
@@ -0,0 +1,106 @@
+import { ExcludedResource, ResourceKind, ResourceLink, SourcePreferences } from "../types";
+import { canonicalizeUrl, isGroundingRedirect } from "./resourceIdentity";
+import { KIND_LABELS, getResourceKind } from "./resourceClassification";
+
+// Enforces the learner's source rules on curator results. The prompt asks the model to follow
+// them too, but grounding can still surface anything, so the rules are applied after the fact.
+
+export const READING_FORMATS: ResourceKind[] = ['docs', 'article', 'book'];
+
+// "https://www.MDN.org/en-US/" -> "mdn.org/en-US"; a path narrows the rule to that section
+export const normalizeDomain = (input: string): string =>
+  canonicalizeUrl(input.trim()).replace(/\?.*$/, '');
+
+// Comma, space or newline separated list from a form field
+export const parseDomainList = (text: string): string[] =>
+  [...new Set(text.split(/[\s,]+/).map(normalizeDomain).filter(Boolean))];
+
+const matchesDomain = (resource: ResourceLink, rule: string): boolean => {
+  const canonical = canonicalizeUrl(resource.uri);
+  const ruleHost = rule.split('/')[0];
+  const hostMatches = (host: string) => host === ruleHost || host.endsWith(`.${ruleHost}`);
+  // Grounded links are Google redirect URLs. Only their site is known (the curator records it as
+  // source), so a rule's path can't be checked and its host alone decides
+  if (isGroundingRedirect(resource.uri)) {
+    return !!resource.source && hostMatches(normalizeDomain(resource.source));
+  }
+  if (rule.includes('/')) {
+    return canonical === rule || canonical.startsWith(`${rule}/`) || canonical.startsWith(`${rule}?`);
+  }
+  return hostMatches(canonical.split(/[/?]/)[0]);
+};
+
+export const hasSourceRules = (prefs?: SourcePreferences): prefs is SourcePreferences =>
+  !!prefs && (prefs.preferredDomains.length > 0 || prefs.blockedDomains.length > 0 || prefs.preferredFormats.length > 0);
+
+export interface SourcePolicyResult {
+  kept: ResourceLink[];
+  excluded: ExcludedResource[];
+}
+
+// Drop blocked / disallowed resources, then rank preferred domains and formats first (stable)
+export const applySourcePolicy = (resources: ResourceLink[], prefs?: SourcePreferences): SourcePolicyResult => {
+  if (!hasSourceRules(prefs)) return { kept: resources, excluded: [] };
+
+  const kept: ResourceLink[] = [];
+  const excluded: ExcludedResource[] = [];
+  const exclude = (resource: ResourceLink, reason: string) =>
+    excluded.push({ title: resource.title, uri: resource.uri, reason });
+
+  resources.forEach(resource => {
+    const blocked = prefs.blockedDomains.find(rule => matchesDomain(resource, rule));
+    if (blocked) return exclude(resource, `Blocked domain: ${blocked}`);
+
+    const preferred = prefs.preferredDomains.some(rule => matchesDomain(resource, rule));
+    if (prefs.onlyPreferredDomains && prefs.preferredDomains.length > 0 && !preferred) {
+      return exclude(resource, 'Not on the allowed domain list');
+    }
+
+    const kind = getResourceKind(resource);
+    if (prefs.onlyPreferredFormats && prefs.preferredFormats.length > 0 && !prefs.preferredFormats.includes(kind)) {
+      return exclude(resource, `Format not wanted: ${KIND_LABELS[kind]}`);
+    }
+    kept.push(resource);
+  });
+
+  const rank = (resource: ResourceLink) =>
+    (prefs.preferredDomains.some(rule => matchesDomain(resource, rule)) ? 0 : 2)
+    + (prefs.preferredFormats.includes(getResourceKind(resource)) ? 0 : 1);
+  const ranked = kept
+    .map((resource, index) => ({ resource, index, rank: rank(resource) }))
+    .sort((a, b) => a.rank - b.rank || a.index - b.index)
+    .map(entry => entry.resource);
+
+  return { kept: ranked, excluded };
+};
+
+// Lines for the curator prompt; empty when there are no rules
+export const describeSourceRules = (prefs?: SourcePreferences): string[] => {
+  if (!hasSourceRules(prefs)) return [];
+  const lines: string[] = [];
+  if (prefs.preferredDomains.length > 0) {
+    lines.push(prefs.onlyPreferredDomains
+      ? `ONLY use resources from these sites: ${prefs.preferredDomains.join(', ')}.`
+      : `Prefer resources from these sites: ${prefs.preferredDomains.join(', ')}.`);
+  }
+  if (prefs.blockedDomains.length > 0) {
+    lines.push(`NEVER use resources from these sites: ${prefs.blockedDomains.join(', ')}.`);
+  }
+  if (prefs.preferredFormats.length > 0) {
+    const formats = prefs.preferredFormats.map(kind => KIND_LABELS[kind]).join(', ');
+    lines.push(prefs.onlyPreferredFormats ? `ONLY return these formats: ${formats}.` : `Prefer these formats: ${formats}.`);
+  }
+  return lines;
+};
+
+// Stable string for cache keys; order of entries does not matter
+export const sourceRulesSignature = (prefs?: SourcePreferences): string => {
+  if (!hasSourceRules(prefs)) return '';
+  return JSON.stringify([
+    [...prefs.preferredDomains].sort(),
+    [...prefs.blockedDomains].sort(),
+    !!prefs.onlyPreferredDomains,
+    [...prefs.preferredFormats].sort(),
+    !!prefs.onlyPreferredFormats
+  ]);
+};
@@ -0,0 +1,83 @@
+import { describe, it, expect } from 'vitest';
+import { Curriculum, Topic } from '../types';
+import { addTopic, deleteTopic, deleteModule, moveTopic, moveModule, findTopicLocation, getSyllabusProblems } from './syllabusEditing';
+
+const topic = (id: string, prerequisites?: string[]): Topic => ({
+  id, title: id, description: '', actionableStep: '', ...(prerequisites ? { prerequisites } : {})
+});
+
+const curriculum: Curriculum = {
+  id: 'c1',
+  createdAt: 1,
+  title: 'T',
+  description: '',
+  modules: [
+    { title: 'A', topics: [topic('a0'), topic('a1'), topic('a2')] },
+    { title: 'B', topics: [topic('b0', ['a1'])] }
+  ]
+};
+
+const ids = (c: Curriculum) => c.modules.map(mod => mod.topics.map(t => t.id));
+
+describe('moveTopic', () => {
+  it('moves down within a module, accounting for the removed slot', () => {
+    expect(ids(moveTopic(curriculum, 'a0', 0, 2))).toEqual([['a1', 'a0', 'a2'], ['b0']]);
+    expect(ids(moveTopic(curriculum, 'a0', 0, 3))).toEqual([['a1', 'a2', 'a0'], ['b0']]);
+  });
+
+  it('moves up within a module', () => {
+    expect(ids(moveTopic(curriculum, 'a2', 0, 0))).toEqual([['a2', 'a0', 'a1'], ['b0']]);
+  });
+
+  it('moves across modules and clamps the index', () => {
+    expect(ids(moveTopic(curriculum, 'a1', 1, 0))).toEqual([['a0', 'a2'], ['a1', 'b0']]);
+    expect(ids(moveTopic(curriculum, 'a1', 1, 99))).toEqual([['a0', 'a2'], ['b0', 'a1']]);
+  });
+
+  it('ignores unknown topics and modules', () => {
+    expect(moveTopic(curriculum, 'zz', 0, 0)).toBe(curriculum);
+    expect(moveTopic(curriculum, 'a0', 5, 0)).toBe(curriculum);
+  });
+
+  it('does not mutate its input', () => {
+    moveTopic(curriculum, 'a0', 1, 0);
+    expect(ids(curriculum)).toEqual([['a0', 'a1', 'a2'], ['b0']]);
+  });
+});
+
+describe('moveModule', () => {
+  it('reorders modules', () => {
+    expect(moveModule(curriculum, 1, 0).modules.map(mod => mod.title)).toEqual(['B', 'A']);
+  });
+});
+
+describe('addTopic', () => {
+  it('never reuses the id of a deleted topic', () => {
+    const removed = deleteTopic(curriculum, 'a2');
+    const added = addTopic(removed, 0);
+    const newId = added.modules[0].topics[2].id;
+    expect(newId).not.toBe('a2');
+    expect(new Set(added.modules.flatMap(mod => mod.topics.map(t => t.id))).size).toBe(4);
+  });
+
+  it('uses the id it is given', () => {
+    expect(findTopicLocation(addTopic(curriculum, 1, 'fixed'), 'fixed')).toEqual({ moduleIndex: 1, topicIndex: 1 });
+  });
+});
+
+describe('deleting', () => {
+  it('removes a deleted topic from prerequisites', () => {
+    expect(deleteTopic(curriculum, 'a1').modules[1].topics[0].prerequisites).toEqual([]);
+  });
+
+  it('removes a deleted module\'s topics from prerequisites', () => {
+    expect(deleteModule(curriculum, 0).modules[0].topics[0].prerequisites).toEqual([]);
+  });
+});
+
+describe('getSyllabusProblems', () => {
+  it('flags empty modules and untitled topics', () => {
+    const broken: Curriculum = { ...curriculum, modules: [{ title: '', topics: [{ ...topic('x'), title: ' ' }] }, { title: 'B', topics: [] }] };
+    expect(getSyllabusProblems(broken)).toEqual(['Module 1 needs a title.', 'Topic 1.1 needs a title.', 'Module 2 has no topics.']);
+  });
+});
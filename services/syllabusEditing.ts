@@ -0,0 +1,100 @@
+import { Curriculum, Module, Topic } from "../types";
+import { prunePrerequisites } from "./prerequisites";
+
+// Pure, immutable edit operations on a curriculum's syllabus, used by the review step.
+// Topic ids never change once assigned, so progress and curated content stay attached
+// to a topic however it is moved around.
+
+// Id for a topic added after planning. Never positional: progress, notes, quiz scores and flashcards
+// are keyed by topic id, and a deleted topic's id must not be handed to a new one.
+export const newTopicId = (): string => `topic-${crypto.randomUUID()}`;
+
+const withModules = (curriculum: Curriculum, modules: Module[]): Curriculum => ({ ...curriculum, modules });
+
+const move = <T>(items: T[], from: number, to: number): T[] => {
+  const next = [...items];
+  const [item] = next.splice(from, 1);
+  next.splice(Math.max(0, Math.min(to, next.length)), 0, item);
+  return next;
+};
+
+export const findTopicLocation = (curriculum: Curriculum, topicId: string): { moduleIndex: number; topicIndex: number } | null => {
+  for (let m = 0; m < curriculum.modules.length; m++) {
+    const t = curriculum.modules[m].topics.findIndex(topic => topic.id === topicId);
+    if (t >= 0) return { moduleIndex: m, topicIndex: t };
+  }
+  return null;
+};
+
+// --- Modules ---
+
+export const addModule = (curriculum: Curriculum, title = 'New Module'): Curriculum =>
+  withModules(curriculum, [...curriculum.modules, { title, topics: [] }]);
+
+export const renameModule = (curriculum: Curriculum, moduleIndex: number, title: string): Curriculum =>
+  withModules(curriculum, curriculum.modules.map((mod, i) => (i === moduleIndex ? { ...mod, title } : mod)));
+
+// Deleting topics also removes them from other topics' prerequisites
+export const deleteModule = (curriculum: Curriculum, moduleIndex: number): Curriculum =>
+  prunePrerequisites(withModules(curriculum, curriculum.modules.filter((_, i) => i !== moduleIndex)));
+
+export const moveModule = (curriculum: Curriculum, from: number, to: number): Curriculum =>
+  withModules(curriculum, move(curriculum.modules, from, to));
+
+// --- Topics ---
+
+export const addTopic = (curriculum: Curriculum, moduleIndex: number, id = newTopicId()): Curriculum => {
+  const topic: Topic = {
+    id,
+    title: 'New Topic',
+    description: '',
+    actionableStep: ''
+  };
+  return withModules(curriculum, curriculum.modules.map((mod, i) =>
+    i === moduleIndex ? { ...mod, topics: [...mod.topics, topic] } : mod
+  ));
+};
+
+export const updateTopic = (curriculum: Curriculum, topicId: string, patch: Partial<Omit<Topic, 'id'>>): Curriculum =>
+  withModules(curriculum, curriculum.modules.map(mod => ({
+    ...mod,
+    topics: mod.topics.map(t => (t.id === topicId ? { ...t, ...patch } : t))
+  })));
+
+export const deleteTopic = (curriculum: Curriculum, topicId: string): Curriculum =>
+  prunePrerequisites(withModules(curriculum, curriculum.modules.map(mod => ({
+    ...mod,
+    topics: mod.topics.filter(t => t.id !== topicId)
+  }))));
+
+// Move a topic to `toIndex` within module `toModule` (which may be its current module)
+export const moveTopic = (curriculum: Curriculum, topicId: string, toModule: number, toIndex: number): Curriculum => {
+  const from = findTopicLocation(curriculum, topicId);
+  if (!from || !curriculum.modules[toModule]) return curriculum;
+
+  const topic = curriculum.modules[from.moduleIndex].topics[from.topicIndex];
+  const modules = curriculum.modules.map(mod => ({ ...mod, topics: [...mod.topics] }));
+  modules[from.moduleIndex].topics.splice(from.topicIndex, 1);
+
+  // Removing the topic shifts later positions in the same module up by one
+  let index = toIndex;
+  if (from.moduleIndex === toModule && from.topicIndex < toIndex) index--;
+  const target = modules[toModule].topics;
+  target.splice(Math.max(0, Math.min(index, target.length)), 0, topic);
+
+  return withModules(curriculum, modules);
+};
+
+// Problems that must be fixed before curation can start
+export const getSyllabusProblems = (curriculum: Curriculum): string[] => {
+  const problems: string[] = [];
+  if (curriculum.modules.length === 0) problems.push('Add at least one module.');
+  curriculum.modules.forEach((mod, mIdx) => {
+    if (!mod.title.trim()) problems.push(`Module ${mIdx + 1} needs a title.`);
+    if (mod.topics.length === 0) problems.push(`Module ${mIdx + 1} has no topics.`);
+    mod.topics.forEach((t, tIdx) => {
+      if (!t.title.trim()) problems.push(`Topic ${mIdx + 1}.${tIdx + 1} needs a title.`);
+    });
+  });
+  return problems;
+};
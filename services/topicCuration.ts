@@ -0,0 +1,92 @@
+import { Curriculum, CuratedContent, ResourceLink } from "../types";
+import { runCuratorAgent } from "./geminiService";
+import { canonicalizeUrl, isSameResource } from "./resourceIdentity";
+
+// Per-topic curator actions triggered from CurriculumView, after the initial generation.
+
+export type RecurateAction =
+  | { kind: 'more' } // Append additional resources
+  | { kind: 'hint'; hint: string } // Re-run with a learner hint; new results go first
+  | { kind: 'replace'; uri: string }; // Swap out one resource
+
+// Manual Google/YouTube search links the curator falls back to when it finds nothing
+export const isSearchFallback = (resource: ResourceLink): boolean => {
+  const uri = canonicalizeUrl(resource.uri);
+  return uri.startsWith('google.com/search') || uri.startsWith('youtube.com/results');
+};
+
+// Curated, but the curator found nothing real: the topic only has search links
+export const isFallbackContent = (content?: CuratedContent): boolean =>
+  !!content && content.resources.length > 0 && content.resources.every(isSearchFallback);
+
+export const getFallbackTopics = (curriculum: Curriculum): { topicId: string; moduleIndex: number }[] =>
+  curriculum.modules.flatMap((mod, moduleIndex) => mod.topics
+    .filter(topic => isFallbackContent(topic.curatedContent))
+    .map(topic => ({ topicId: topic.id, moduleIndex })));
+
+// Incoming resources whose URI is not already in `existing`
+const newResources = (existing: ResourceLink[], incoming: ResourceLink[]): ResourceLink[] => {
+  const seen = new Set(existing.map(r => canonicalizeUrl(r.uri)));
+  return incoming.filter(r => {
+    const key = canonicalizeUrl(r.uri);
+    if (seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  });
+};
+
+export const buildCuratorContext = (curriculum: Curriculum, moduleIndex: number) =>
+  `Course Goal: ${curriculum.goal || curriculum.title}. Module: ${curriculum.modules[moduleIndex].title}`;
+
+const findTopic = (curriculum: Curriculum, topicId: string) => {
+  for (let mIdx = 0; mIdx < curriculum.modules.length; mIdx++) {
+    const topic = curriculum.modules[mIdx].topics.find(t => t.id === topicId);
+    if (topic) return { topic, moduleIndex: mIdx };
+  }
+  throw new Error(`Topic ${topicId} not found`);
+};
+
+// Run the curator for one topic and merge the result into its existing resources
+export const recurateTopic = async (curriculum: Curriculum, topicId: string, action: RecurateAction): Promise<CuratedContent> => {
+  const { topic, moduleIndex } = findTopic(curriculum, topicId);
+  const existing = topic.curatedContent?.resources || [];
+  // Search fallbacks are placeholders; they never count as real resources to keep
+  const kept = existing.filter(r => !isSearchFallback(r));
+
+  const result = await runCuratorAgent(topic.title, buildCuratorContext(curriculum, moduleIndex), {
+    hint: action.kind === 'hint' ? action.hint : undefined,
+    excludeUris: existing.map(r => r.uri),
+    sources: curriculum.sources,
+    profile: curriculum.profile
+  });
+  const fresh = newResources(existing, result.resources.filter(r => !isSearchFallback(r)));
+  if (fresh.length === 0) {
+    throw new Error(result.fallbackReason
+      ? `The curator couldn't find new resources: ${result.fallbackReason}`
+      : "The curator couldn't find any new resources for this topic. Try again with a different hint.");
+  }
+
+  let resources: ResourceLink[];
+  switch (action.kind) {
+    case 'more':
+      resources = [...kept, ...fresh];
+      break;
+    case 'hint':
+      resources = [...fresh, ...kept];
+      break;
+    case 'replace': {
+      resources = existing.map(r => (isSameResource(r.uri, action.uri) ? fresh[0] : r)).filter(r => !isSearchFallback(r));
+      break;
+    }
+  }
+
+  // Keep one report line per excluded resource across runs
+  const excluded = [...(topic.curatedContent?.excluded || []), ...(result.excluded || [])]
+    .filter((item, index, all) => all.findIndex(other => isSameResource(other.uri, item.uri)) === index);
+
+  return {
+    summary: `Here are ${resources.length} curated resources for ${topic.title}.`,
+    resources,
+    ...(excluded.length > 0 ? { excluded } : {})
+  };
+};
@@ -0,0 +1,64 @@
+import { describe, it, expect } from 'vitest';
+import { gradeShortAnswer, isAnswerCorrect, validateQuizOutput, MIN_QUIZ_QUESTIONS } from './topicQuiz';
+
+describe('gradeShortAnswer', () => {
+  it('ignores case, punctuation and articles', () => {
+    expect(gradeShortAnswer('  The Stack! ', ['stack'])).toBe(true);
+    expect(gradeShortAnswer('binary-search tree', ['Binary search tree'])).toBe(true);
+  });
+
+  it('accepts the answer wrapped in a few filler words', () => {
+    expect(gradeShortAnswer("It's a stack", ['stack'])).toBe(true);
+    expect(gradeShortAnswer('I think heap', ['heap'])).toBe(true);
+  });
+
+  it('rejects a list of several terms', () => {
+    expect(gradeShortAnswer('stack queue heap', ['stack'])).toBe(false);
+    expect(gradeShortAnswer('stack, queue', ['queue'])).toBe(false);
+  });
+
+  it('rejects extra content words and negations', () => {
+    expect(gradeShortAnswer('not a stack', ['stack'])).toBe(false);
+    expect(gradeShortAnswer('binary search', ['binary search tree'])).toBe(false);
+    expect(gradeShortAnswer('i think it is probably a stack that is', ['stack'])).toBe(false);
+  });
+
+  it('matches any accepted answer and never an empty one', () => {
+    expect(gradeShortAnswer('LIFO', ['stack', 'lifo'])).toBe(true);
+    expect(gradeShortAnswer('', ['stack'])).toBe(false);
+    expect(gradeShortAnswer('the', ['a'])).toBe(false);
+  });
+});
+
+describe('isAnswerCorrect', () => {
+  it('compares the chosen index for multiple choice', () => {
+    const question = { kind: 'multiple-choice' as const, question: 'q', options: ['a', 'b'], correctIndex: 1, explanation: '' };
+    expect(isAnswerCorrect(question, 1)).toBe(true);
+    expect(isAnswerCorrect(question, 0)).toBe(false);
+  });
+});
+
+describe('validateQuizOutput', () => {
+  const mc = (i: number) => ({ question: `Q${i}`, options: ['a', 'b', 'c'], correctIndex: 2, explanation: 'why' });
+
+  it('infers kinds and keeps valid questions', () => {
+    const result = validateQuizOutput({ questions: [mc(1), mc(2), { question: 'Name it', acceptedAnswers: [' stack ', ''] }] });
+    if (!('value' in result)) throw new Error(result.issues.join('; '));
+    expect(result.value.questions.map(q => q.kind)).toEqual(['multiple-choice', 'multiple-choice', 'short-answer']);
+    expect(result.value.questions[2]).toMatchObject({ acceptedAnswers: ['stack'], explanation: '' });
+    expect(result.fixes).toEqual([]);
+  });
+
+  it('drops broken questions as fixes', () => {
+    const result = validateQuizOutput({ questions: [mc(1), mc(2), mc(3), { ...mc(4), correctIndex: 3 }, { question: ' ' }] });
+    if (!('value' in result)) throw new Error(result.issues.join('; '));
+    expect(result.value.questions).toHaveLength(3);
+    expect(result.fixes).toHaveLength(2);
+  });
+
+  it(`fails with fewer than ${MIN_QUIZ_QUESTIONS} usable questions`, () => {
+    const result = validateQuizOutput({ questions: [mc(1), { question: 'x', kind: 'short-answer' }] });
+    expect('issues' in result && result.issues[0]).toMatch(/Only 1 usable questions/);
+    expect(validateQuizOutput([]).ok).toBe(false);
+  });
+});
@@ -0,0 +1,94 @@
+import { QuizQuestion, TopicQuiz } from "../types";
+
+// Per-topic self-check quizzes: validation of Quiz Agent output (also used on import),
+// local grading of answers, and the pass mark that counts towards topic completion.
+
+export type QuizValidationResult =
+  | { ok: true; value: TopicQuiz; fixes: string[] }
+  | { ok: false; issues: string[] };
+
+export const MIN_QUIZ_QUESTIONS = 3;
+// A quiz counts as a completed item of its topic once the best score reaches this
+export const QUIZ_PASS_SCORE = 0.7;
+
+const isObject = (value: unknown): value is Record<string, any> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const nonEmpty = (value: unknown): value is string => typeof value === 'string' && value.trim().length > 0;
+
+const trimmedList = (value: unknown): string[] =>
+  Array.isArray(value) ? value.filter(nonEmpty).map((v: string) => v.trim()) : [];
+
+// Broken questions are dropped as fixes; only a quiz left too short is an issue
+export const validateQuizOutput = (raw: unknown): QuizValidationResult => {
+  const fixes: string[] = [];
+  if (!isObject(raw) || !Array.isArray(raw.questions)) {
+    return { ok: false, issues: ['Top-level value must be an object with a "questions" array.'] };
+  }
+
+  const questions: QuizQuestion[] = [];
+  raw.questions.forEach((q: unknown, idx: number) => {
+    const path = `questions[${idx}]`;
+    if (!isObject(q) || !nonEmpty(q.question)) {
+      fixes.push(`${path} dropped: missing question text`);
+      return;
+    }
+    const explanation = nonEmpty(q.explanation) ? q.explanation.trim() : '';
+    const options = trimmedList(q.options);
+    const acceptedAnswers = trimmedList(q.acceptedAnswers);
+
+    // The kind is inferred from the fields when the model leaves it out
+    const kind = q.kind === 'short-answer' || (q.kind !== 'multiple-choice' && options.length === 0)
+      ? 'short-answer'
+      : 'multiple-choice';
+
+    if (kind === 'multiple-choice') {
+      const correctIndex = Number(q.correctIndex);
+      if (options.length < 2 || !Number.isInteger(correctIndex) || correctIndex < 0 || correctIndex >= options.length) {
+        fixes.push(`${path} dropped: multiple-choice question needs options and a valid correctIndex`);
+        return;
+      }
+      questions.push({ kind, question: q.question.trim(), options, correctIndex, explanation });
+    } else {
+      if (acceptedAnswers.length === 0) {
+        fixes.push(`${path} dropped: short-answer question has no accepted answers`);
+        return;
+      }
+      questions.push({ kind, question: q.question.trim(), acceptedAnswers, explanation });
+    }
+  });
+
+  if (questions.length < MIN_QUIZ_QUESTIONS) {
+    return { ok: false, issues: [`Only ${questions.length} usable questions; at least ${MIN_QUIZ_QUESTIONS} are needed.`, ...fixes] };
+  }
+  return { ok: true, value: { questions, createdAt: Date.now() }, fixes };
+};
+
+const normalizeAnswer = (text: string): string =>
+  text.toLowerCase().replace(/[^\p{L}\p{N}]+/gu, ' ').replace(/\b(a|an|the)\b/g, ' ').replace(/\s+/g, ' ').trim();
+
+// Words a learner may wrap around the answer ("it's a stack", "I think heap") without changing it
+const FILLER_WORDS = new Set(['i', 'think', 'it', 'its', 's', 'is', 'are', 'they', 'that', 'this', 'answer', 'called', 'would', 'be', 'probably']);
+const MAX_EXTRA_WORDS = 3;
+
+// Exact match after normalization, or the accepted answer wrapped in a few filler words.
+// Any other extra word fails, so listing several terms ("stack queue heap") or negating one doesn't pass.
+export const gradeShortAnswer = (answer: string, acceptedAnswers: string[]): boolean => {
+  const given = normalizeAnswer(answer);
+  if (!given) return false;
+  return acceptedAnswers.some(accepted => {
+    const target = normalizeAnswer(accepted);
+    if (!target) return false;
+    if (given === target) return true;
+    const at = ` ${given} `.indexOf(` ${target} `);
+    if (at < 0) return false;
+    const extra = `${given.slice(0, at)} ${given.slice(at + target.length)}`.split(' ').filter(Boolean);
+    return extra.length <= MAX_EXTRA_WORDS && extra.every(word => FILLER_WORDS.has(word));
+  });
+};
+
+// answer is the chosen option index for multiple choice, the typed text for short answer
+export const isAnswerCorrect = (question: QuizQuestion, answer: number | string): boolean =>
+  question.kind === 'multiple-choice'
+    ? answer === question.correctIndex
+    : typeof answer === 'string' && gradeShortAnswer(answer, question.acceptedAnswers);
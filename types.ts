@@ -14,19 +14,96 @@ export interface UserPreferences {
   goal: string;
   skillLevel: SkillLevel;
   timeCommitment: TimeCommitment;
+  reviewSyllabus?: boolean; // Pause after planning so the syllabus can be edited before curation
+  bypassCache?: boolean; // Curate every topic afresh instead of reusing cached curator results
+  sources?: SourcePreferences;
+  profile?: LearnerProfile;
+  assessment?: AssessmentResult; // Placement quiz taken for this goal, if any
 }
 
+export type LearningStyle = 'balanced' | 'project-first' | 'theory-first';
+
+// Optional details about the learner, used by the planner and curator prompts (see profileService.ts)
+export interface LearnerProfile {
+  background?: string; // What the learner already knows, e.g. "Comfortable with Python and SQL"
+  learningStyle?: LearningStyle;
+  deadline?: number; // Midnight (local time) of the day the learner wants to be done
+  language?: string; // Output language, e.g. "Spanish"; English when unset
+}
+
+// A reusable set of form answers, stored in localStorage
+export interface SavedProfile {
+  id: string;
+  name: string;
+  updatedAt: number;
+  skillLevel: SkillLevel;
+  timeCommitment: TimeCommitment;
+  profile: LearnerProfile;
+  sources?: SourcePreferences;
+}
+
+// Placement quiz generated by the Assessment Agent (see assessment.ts)
+export interface AssessmentQuestion {
+  id: string;
+  subtopic: string; // e.g. "Closures"; answers are grouped by it into known and unknown subtopics
+  level: SkillLevel; // How hard the question is; drives the adaptive order
+  question: string;
+  options: string[];
+  correctIndex: number;
+}
+
+export interface AssessmentAnswer {
+  questionId: string;
+  choice: number | null; // null = "I don't know"
+}
+
+export interface AssessmentResult {
+  goal: string; // The goal the quiz was generated for
+  recommendedLevel: SkillLevel;
+  correct: number;
+  total: number;
+  knownSubtopics: string[];
+  unknownSubtopics: string[];
+  takenAt: number;
+}
+
+// Where resources may come from and which formats the learner wants (see sourcePolicy.ts)
+export interface SourcePreferences {
+  preferredDomains: string[]; // Named in the curator prompt and ranked first, e.g. "developer.mozilla.org"
+  blockedDomains: string[]; // Never shown, e.g. "w3schools.com"
+  onlyPreferredDomains?: boolean; // Allowlist mode: drop anything outside preferredDomains
+  preferredFormats: ResourceKind[]; // Empty means any format
+  onlyPreferredFormats?: boolean; // e.g. video-only or reading-only
+}
+
+export type ResourceKind = 'video' | 'docs' | 'course' | 'interactive' | 'repository' | 'book' | 'podcast' | 'article';
+export type ResourceCost = 'free' | 'freemium' | 'paid';
+export type ResourceDifficulty = 'beginner' | 'intermediate' | 'advanced';
+
 export interface ResourceLink {
   title: string;
   uri: string;
   source?: string;
   thumbnail?: string; // URL for video thumbnail if available
   description?: string; // Brief explanation of why this resource is valuable
+  // Classification from the curator's answer and URL heuristics (see resourceClassification.ts)
+  kind?: ResourceKind;
+  durationMinutes?: number;
+  cost?: ResourceCost;
+  difficulty?: ResourceDifficulty;
+}
+
+export interface ExcludedResource {
+  title: string;
+  uri: string;
+  reason: string; // e.g. "Blocked domain: w3schools.com"
 }
 
 export interface CuratedContent {
   summary: string;
   resources: ResourceLink[];
+  excluded?: ExcludedResource[]; // Found by the curator but removed by the learner's source rules
+  fallbackReason?: string; // Set when `resources` are only placeholder search links: why the curator found nothing
 }
 
 export interface Topic {
@@ -34,7 +111,31 @@ export interface Topic {
   title: string;
   description: string;
   actionableStep: string;
+  estimatedHours?: number; // Planner's estimate of study time, used by the scheduler
+  prerequisites?: string[]; // Ids of topics to complete first; always acyclic (see prerequisites.ts)
   curatedContent?: CuratedContent; // Added by Curator Agent
+  quiz?: TopicQuiz; // Self-check generated on request by the Quiz Agent
+  notes?: string; // The learner's own Markdown notes
+  // Markdown notes on individual resources, keyed by canonical resource id (see resourceIdentity.ts)
+  // so they survive re-curation and follow the resource when it is replaced and found again
+  resourceNotes?: Record<string, string>;
+}
+
+// Self-check questions for one topic (see topicQuiz.ts)
+export type QuizQuestion =
+  | { kind: 'multiple-choice'; question: string; options: string[]; correctIndex: number; explanation: string }
+  | { kind: 'short-answer'; question: string; acceptedAnswers: string[]; explanation: string };
+
+export interface TopicQuiz {
+  questions: QuizQuestion[];
+  createdAt: number;
+}
+
+export interface QuizScore {
+  lastScore: number; // 0 to 1
+  bestScore: number;
+  attempts: number;
+  lastTakenAt: number;
 }
 
 export interface Module {
@@ -47,12 +148,110 @@ export interface Curriculum {
   createdAt: number;
   title: string;
   description: string;
+  goal?: string; // The learner's original goal, kept for the library view
+  timeCommitment?: TimeCommitment;
+  skillLevel?: SkillLevel; // Part of the curator cache key
+  sources?: SourcePreferences; // Applied to every curator run for this curriculum
+  profile?: LearnerProfile; // Language and learning style also apply to later curator and refinement runs
+  schedule?: ScheduleSettings;
+  guidedMode?: boolean; // Lock topics until their prerequisites are complete
   modules: Module[];
 }
 
+export interface ScheduleSettings {
+  startDate: number; // Midnight (local time) of the first study day
+  hoursPerWeek: number;
+}
+
+export interface ScheduledTopic {
+  topicId: string;
+  moduleIndex: number;
+  title: string;
+  hours: number; // Hours of this topic that fall in this week
+}
+
+export interface ScheduleWeek {
+  index: number; // 0-based week number
+  start: number;
+  end: number; // Exclusive
+  items: ScheduledTopic[];
+}
+
+export interface Schedule {
+  weeks: ScheduleWeek[];
+  topicDates: Record<string, { start: number; end: number }>; // topicId -> first and last scheduled week
+  moduleEndDates: number[]; // End of the week in which each module finishes
+  totalHours: number;
+}
+
+export interface SavedCurriculum {
+  curriculum: Curriculum;
+  updatedAt: number;
+  progress: number; // Last known overall progress (0 to 100), for the library list
+}
+
+export interface CurriculumProgress {
+  curriculumId: string;
+  completedResources: Record<string, string[]>; // topicId -> canonical ids of resources checked there (see resourceIdentity.ts)
+  completedSteps: Record<string, boolean>; // topicId -> actionable step done
+  quizScores?: Record<string, QuizScore>; // topicId -> self-check results
+}
+
+// Spaced-repetition card made from a completed topic (see flashcardService.ts)
+export interface Flashcard {
+  id: string;
+  curriculumId: string;
+  topicId: string;
+  topicTitle: string; // Kept so the card still makes sense if the topic is later removed
+  front: string;
+  back: string;
+  createdAt: number;
+  // SM-2 state
+  easiness: number; // Starts at 2.5, never below 1.3
+  interval: number; // Days until the next review
+  repetitions: number; // Successful reviews in a row
+  due: number; // Midnight (local time) of the day the card is next due
+  history: FlashcardReview[];
+}
+
+// Again / Hard / Good / Easy, mapped onto SM-2 quality 1 / 3 / 4 / 5
+export type ReviewRating = 'again' | 'hard' | 'good' | 'easy';
+
+export interface FlashcardReview {
+  reviewedAt: number;
+  rating: ReviewRating;
+  interval: number; // Interval chosen by this review, in days
+}
+
+export interface CurriculumExport {
+  schemaVersion: number;
+  exportedAt: number;
+  curriculum: Curriculum;
+  progress?: CurriculumProgress;
+}
+
+// Content fields of a topic the Refinement Agent may write; ids are always assigned locally
+export type TopicFields = Pick<Topic, 'title' | 'description' | 'actionableStep' | 'estimatedHours'>;
+
+// Edits proposed by the Refinement Agent. Module indexes refer to the curriculum the patch was made against.
+export type PatchOperation =
+  | { op: 'updateTopic'; topicId: string; changes: Partial<TopicFields> }
+  | { op: 'addTopic'; moduleIndex: number; afterTopicId?: string; topic: TopicFields }
+  | { op: 'removeTopic'; topicId: string }
+  | { op: 'addModule'; title: string; topics: TopicFields[] }
+  | { op: 'renameModule'; moduleIndex: number; title: string }
+  | { op: 'removeModule'; moduleIndex: number };
+
+export interface CurriculumPatch {
+  summary: string; // The agent's one-line explanation, shown in the chat
+  operations: PatchOperation[];
+}
+
 export interface AgentStatus {
-  stage: 'idle' | 'planning' | 'curating' | 'complete' | 'error';
+  stage: 'idle' | 'planning' | 'reviewing' | 'curating' | 'complete' | 'error';
   message: string;
   progress: number; // 0 to 100
   currentTask?: string;
+  paused?: boolean; // Curation is paused; in-flight topics still finish
+  cacheHits?: number; // Topics served from the curator cache in this run
 }
\ No newline at end of file
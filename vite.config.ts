@@ -12,7 +12,15 @@ export default defineConfig(({ mode }) => {
       plugins: [react()],
       define: {
         'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
-        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)
+        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY),
+        'process.env.LLM_PROVIDER': JSON.stringify(env.LLM_PROVIDER),
+        'process.env.LLM_MODEL': JSON.stringify(env.LLM_MODEL),
+        'process.env.LLM_BASE_URL': JSON.stringify(env.LLM_BASE_URL),
+        'process.env.LLM_API_KEY': JSON.stringify(env.LLM_API_KEY),
+        'process.env.CURATOR_CONCURRENCY': JSON.stringify(env.CURATOR_CONCURRENCY),
+        'process.env.CURATOR_RPM': JSON.stringify(env.CURATOR_RPM),
+        'process.env.CURATOR_CACHE_TTL_DAYS': JSON.stringify(env.CURATOR_CACHE_TTL_DAYS),
+        'process.env.CURATOR_CACHE_MAX_ENTRIES': JSON.stringify(env.CURATOR_CACHE_MAX_ENTRIES)
       },
       resolve: {
         alias: {